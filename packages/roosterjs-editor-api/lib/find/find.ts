@@ -0,0 +1,174 @@
+import findAll from './findAll';
+import { ContentPosition, FindOptions } from 'roosterjs-editor-types';
+import { Editor } from 'roosterjs-editor-core';
+import { fromHtml } from 'roosterjs-editor-dom';
+
+const FIND_STATE_KEY = 'FindState';
+const CONTAINER_HTML = '<div style="position: fixed; top: 0; left: 0; pointer-events: none"></div>';
+const HIGHLIGHT_COLOR = '#FFFF00';
+const CURRENT_HIGHLIGHT_COLOR = '#FF9632';
+
+interface FindState {
+    text: string;
+    options: FindOptions;
+    current: Range;
+    container: HTMLElement;
+    disposers: (() => void)[];
+}
+
+/**
+ * Find the given text in editor and highlight all matches.
+ * Highlights are rendered in an overlay outside of editor content, so they won't be returned by
+ * editor.getContent(). They are kept until clearFind() is called
+ * @param editor The editor instance
+ * @param text The text or regular expression to find
+ * @param options Options of the search
+ * @returns Count of matches
+ */
+export default function find(editor: Editor, text: string, options?: FindOptions): number {
+    let state = getFindState(editor);
+    state.text = text;
+    state.options = options || {};
+    state.current = null;
+    return refreshHighlight(editor);
+}
+
+/**
+ * Select the next match after current selection. When there is no more match after the selection,
+ * search from the beginning of editor content.
+ * find() must be called before calling this function
+ * @param editor The editor instance
+ * @returns True if a match is selected, otherwise false
+ */
+export function findNext(editor: Editor): boolean {
+    return selectMatch(editor, false /*isPrevious*/);
+}
+
+/**
+ * Select the previous match before current selection. When there is no more match before the
+ * selection, search from the end of editor content.
+ * find() must be called before calling this function
+ * @param editor The editor instance
+ * @returns True if a match is selected, otherwise false
+ */
+export function findPrevious(editor: Editor): boolean {
+    return selectMatch(editor, true /*isPrevious*/);
+}
+
+/**
+ * Clear current search and remove all highlights
+ * @param editor The editor instance
+ */
+export function clearFind(editor: Editor) {
+    let state = getFindState(editor);
+    state.text = null;
+    state.current = null;
+    refreshHighlight(editor);
+}
+
+/**
+ * Get text and options of current search
+ * @param editor The editor instance
+ * @returns Text and options passed to find(), or null if there is no search
+ */
+export function getCurrentFind(editor: Editor): { text: string; options: FindOptions } {
+    let state = getFindState(editor);
+    return state.text ? { text: state.text, options: state.options } : null;
+}
+
+function selectMatch(editor: Editor, isPrevious: boolean): boolean {
+    let state = getFindState(editor);
+    let matches = state.text ? findAll(editor, state.text, state.options) : [];
+    let selection = editor.getSelectionRange();
+    let match: Range = null;
+
+    if (matches.length == 0) {
+        return false;
+    } else if (isPrevious) {
+        match = selection
+            ? matches.filter(m => selection.compareBoundaryPoints(Range.END_TO_START, m) >= 0).pop()
+            : null;
+        match = match || matches[matches.length - 1];
+    } else {
+        match = selection
+            ? matches.filter(m => selection.compareBoundaryPoints(Range.START_TO_END, m) <= 0)[0]
+            : null;
+        match = match || matches[0];
+    }
+
+    editor.select(match);
+    state.current = match;
+    refreshHighlight(editor);
+    return true;
+}
+
+function refreshHighlight(editor: Editor): number {
+    let state = getFindState(editor);
+    let container = state.container;
+    let matches = state.text ? findAll(editor, state.text, state.options) : [];
+    let current = state.current;
+
+    container.innerHTML = '';
+    matches.forEach(match => {
+        let isCurrent =
+            current &&
+            match.compareBoundaryPoints(Range.START_TO_START, current) == 0 &&
+            match.compareBoundaryPoints(Range.END_TO_END, current) == 0;
+        let rects: ClientRect[] = [].slice.call(match.getClientRects());
+
+        rects.forEach(rect => {
+            let div = editor.getDocument().createElement('div');
+            div.style.position = 'fixed';
+            div.style.opacity = '0.5';
+            div.style.backgroundColor = isCurrent ? CURRENT_HIGHLIGHT_COLOR : HIGHLIGHT_COLOR;
+            div.style.top = rect.top + 'px';
+            div.style.left = rect.left + 'px';
+            div.style.width = rect.right - rect.left + 'px';
+            div.style.height = rect.bottom - rect.top + 'px';
+            container.appendChild(div);
+        });
+    });
+
+    return matches.length;
+}
+
+function getFindState(editor: Editor): FindState {
+    return editor.getCustomData(
+        FIND_STATE_KEY,
+        () => {
+            let container = fromHtml(CONTAINER_HTML, editor.getDocument())[0] as HTMLElement;
+            let window = editor.getDocument().defaultView;
+            let onChange = () => {
+                if (!editor.isDisposed() && getFindState(editor).text) {
+                    refreshHighlight(editor);
+                }
+            };
+
+            editor.insertNode(container, {
+                position: ContentPosition.Outside,
+                updateCursor: false,
+                replaceSelection: false,
+                insertOnNewLine: false,
+            });
+            window.addEventListener('scroll', onChange, true /*useCapture*/);
+            window.addEventListener('resize', onChange);
+
+            return {
+                text: null,
+                options: {},
+                current: null,
+                container,
+                disposers: [
+                    editor.addDomEventHandler('scroll', onChange),
+                    editor.addDomEventHandler('input', onChange),
+                    () => window.removeEventListener('scroll', onChange, true /*useCapture*/),
+                    () => window.removeEventListener('resize', onChange),
+                ],
+            };
+        },
+        state => {
+            state.disposers.forEach(disposer => disposer());
+            state.container.parentNode.removeChild(state.container);
+        }
+    );
+}
@@ -0,0 +1,146 @@
+import { FindOptions, NodeType } from 'roosterjs-editor-types';
+import { Editor } from 'roosterjs-editor-core';
+import { createRange } from 'roosterjs-editor-dom';
+
+const WORD_CHAR_REGEX = /\w/;
+
+interface TextSegment {
+    node: Node;
+    start: number;
+}
+
+/**
+ * A match found in editor, with the result of regular expression which can be used to get the
+ * replacement text, since text around the match is needed by lookarounds, anchors and etc.
+ */
+export interface FindMatch {
+    range: Range;
+    match: RegExpExecArray;
+}
+
+/**
+ * Find all matches of the given text in editor. Text is matched inside each block, across the
+ * boundaries of inline elements, e.g. "ab" can be found from "<b>a</b>b"
+ * @param editor The editor instance
+ * @param text The text or regular expression to find
+ * @param options Options of the search
+ * @returns Ranges of all matches, in document order. An empty array is returned when the text is
+ * empty or is an invalid regular expression
+ */
+export default function findAll(editor: Editor, text: string, options?: FindOptions): Range[] {
+    return findAllMatches(editor, text, options).map(match => match.range);
+}
+
+/**
+ * Find all matches of the given text in editor, together with the results of regular expression
+ * @param editor The editor instance
+ * @param text The text or regular expression to find
+ * @param options Options of the search
+ * @returns All matches in document order
+ */
+export function findAllMatches(editor: Editor, text: string, options?: FindOptions): FindMatch[] {
+    options = options || {};
+    let regex = createRegex(text, options);
+    let result: FindMatch[] = [];
+
+    if (!regex) {
+        return result;
+    }
+
+    let traverser = editor.getBodyTraverser();
+    for (
+        let block = traverser.currentBlockElement;
+        block;
+        block = traverser.getNextBlockElement()
+    ) {
+        let startNode = block.getStartNode();
+        let container =
+            startNode == block.getEndNode()
+                ? startNode
+                : createRange(startNode, block.getEndNode()).commonAncestorContainer;
+        let blockText = '';
+        let segments: TextSegment[] = [];
+
+        getTextNodes(container)
+            .filter(node => block.contains(node))
+            .forEach(node => {
+                segments.push({ node, start: blockText.length });
+                blockText += node.nodeValue;
+            });
+
+        findInBlock(editor, regex, blockText, segments, !!options.wholeWord, result);
+    }
+
+    return result;
+}
+
+function createRegex(text: string, options: FindOptions): RegExp {
+    if (!text) {
+        return null;
+    }
+
+    try {
+        return new RegExp(
+            options.useRegex ? text : text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+            options.matchCase ? 'g' : 'gi'
+        );
+    } catch (e) {
+        return null;
+    }
+}
+
+function findInBlock(
+    editor: Editor,
+    regex: RegExp,
+    text: string,
+    segments: TextSegment[],
+    wholeWord: boolean,
+    result: FindMatch[]
+) {
+    regex.lastIndex = 0;
+    for (let match = regex.exec(text); match; match = regex.exec(text)) {
+        let start = match.index;
+        let end = start + match[0].length;
+
+        if (end == start) {
+            // Skip empty match, otherwise it will loop forever
+            regex.lastIndex++;
+        } else if (
+            !wholeWord ||
+            (!WORD_CHAR_REGEX.test(text.charAt(start - 1)) &&
+                !WORD_CHAR_REGEX.test(text.charAt(end)))
+        ) {
+            let range = editor.getDocument().createRange();
+            let [startNode, startOffset] = getNodeAndOffset(segments, start, false /*isEnd*/);
+            let [endNode, endOffset] = getNodeAndOffset(segments, end, true /*isEnd*/);
+            range.setStart(startNode, startOffset);
+            range.setEnd(endNode, endOffset);
+            result.push({ range, match });
+        }
+    }
+}
+
+function getTextNodes(container: Node): Node[] {
+    let result: Node[] = [];
+    if (container.nodeType == NodeType.Text) {
+        result.push(container);
+    } else {
+        let walker = container.ownerDocument.createTreeWalker(
+            container,
+            NodeFilter.SHOW_TEXT,
+            null,
+            false
+        );
+        while (walker.nextNode()) {
+            result.push(walker.currentNode);
+        }
+    }
+    return result;
+}
+
+function getNodeAndOffset(segments: TextSegment[], index: number, isEnd: boolean): [Node, number] {
+    // For start of a match, use the last segment starting at or before the index.
+    // For end of a match, use the last segment starting before the index.
+    let segment = segments.filter(s => (isEnd ? s.start < index : s.start <= index)).pop();
+    return [segment.node, index - segment.start];
+}
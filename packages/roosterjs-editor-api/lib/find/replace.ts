@@ -0,0 +1,117 @@
+import find, { findNext, getCurrentFind } from './find';
+import { FindMatch, findAllMatches } from './findAll';
+import { ChangeSource, FindOptions, PositionType } from 'roosterjs-editor-types';
+import { Editor } from 'roosterjs-editor-core';
+
+/**
+ * Replace current selection with the given text if the selection is a match of current search, then
+ * select the next match. find() must be called before calling this function.
+ * When searching with regular expression, "$1", "$&" and etc. can be used in the replace text
+ * @param editor The editor instance
+ * @param replaceText The text to replace with
+ * @returns True if the selection is replaced, otherwise false
+ */
+export default function replace(editor: Editor, replaceText: string): boolean {
+    let currentFind = getCurrentFind(editor);
+    let selection = editor.getSelectionRange();
+    let match =
+        currentFind && selection
+            ? findAllMatches(editor, currentFind.text, currentFind.options).filter(
+                  m =>
+                      m.range.compareBoundaryPoints(Range.START_TO_START, selection) == 0 &&
+                      m.range.compareBoundaryPoints(Range.END_TO_END, selection) == 0
+              )[0]
+            : null;
+
+    if (match) {
+        editor.addUndoSnapshot(() => {
+            let node = replaceMatch(match, replaceText, currentFind.options);
+            editor.select(node, PositionType.End);
+        }, ChangeSource.Replace);
+        findNext(editor);
+    } else if (currentFind) {
+        findNext(editor);
+    }
+
+    return !!match;
+}
+
+/**
+ * Replace all matches of the given text in editor. All replacements are done in one undo step
+ * @param editor The editor instance
+ * @param text The text or regular expression to find
+ * @param replaceText The text to replace with. When searching with regular expression, "$1", "$&"
+ * and etc. can be used
+ * @param options Options of the search
+ * @returns Count of replaced matches
+ */
+export function replaceAll(
+    editor: Editor,
+    text: string,
+    replaceText: string,
+    options?: FindOptions
+): number {
+    let matches = findAllMatches(editor, text, options);
+
+    if (matches.length > 0) {
+        editor.addUndoSnapshot(() => {
+            // Replace from the last one so that positions of the other matches are not affected
+            for (let i = matches.length - 1; i >= 0; i--) {
+                replaceMatch(matches[i], replaceText, options);
+            }
+        }, ChangeSource.Replace);
+
+        let currentFind = getCurrentFind(editor);
+        if (currentFind) {
+            find(editor, currentFind.text, currentFind.options);
+        }
+    }
+
+    return matches.length;
+}
+
+function replaceMatch(match: FindMatch, replaceText: string, options: FindOptions): Node {
+    let newText = replaceText || '';
+
+    if (options && options.useRegex) {
+        newText = getSubstitution(match.match, newText);
+    }
+
+    let range = match.range;
+    let node = range.startContainer.ownerDocument.createTextNode(newText);
+    range.deleteContents();
+    range.insertNode(node);
+    return node;
+}
+
+// Expand "$1", "$&" and etc. in the replace text in the same way as String.prototype.replace(), using
+// the text around the match which the match is found from
+function getSubstitution(match: RegExpExecArray, replaceText: string): string {
+    let matchedText = match[0];
+    let input = match.input;
+
+    return replaceText.replace(/\$([$&`']|\d\d?)/g, (pattern: string, token: string) => {
+        switch (token) {
+            case '$':
+                return '$';
+            case '&':
+                return matchedText;
+            case '`':
+                return input.substr(0, match.index);
+            case "'":
+                return input.substr(match.index + matchedText.length);
+            default:
+                let index = parseInt(token);
+                let suffix = '';
+
+                // Same with String.prototype.replace(), "$12" means group 1 followed by "2" if
+                // there isn't group 12
+                if (index >= match.length && token.length > 1) {
+                    index = parseInt(token.charAt(0));
+                    suffix = token.charAt(1);
+                }
+
+                return index > 0 && index < match.length ? (match[index] || '') + suffix : pattern;
+        }
+    });
+}
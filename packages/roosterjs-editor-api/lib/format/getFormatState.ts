@@ -1,7 +1,8 @@
 import { cacheGetNodeAtCursor } from './getNodeAtCursor';
+import { isChecked, isChecklist } from './toggleChecklist';
 import { Editor } from 'roosterjs-editor-core';
 import { DocumentCommand, FormatState, PluginEvent, QueryScope } from 'roosterjs-editor-types';
-import { Position, getComputedStyles, getTagOfNode } from 'roosterjs-editor-dom';
+import { Position, VList, getComputedStyles, getTagOfNode } from 'roosterjs-editor-dom';
 
 /**
  * Get format state at cursor
@@ -17,7 +18,10 @@ export default function getFormatState(editor: Editor, event?: PluginEvent): For
     let range = editor.getSelectionRange();
     let node = range && Position.getStart(range).normalize().node;
     let styles = node ? getComputedStyles(node) : [];
-    let listTag = getTagOfNode(cacheGetNodeAtCursor(editor, event, ['OL', 'UL']));
+    let list = cacheGetNodeAtCursor(editor, event, ['OL', 'UL']);
+    let listTag = getTagOfNode(list);
+    let checklist = isChecklist(list);
+    let vList = new VList(list);
     let headerTag = getTagOfNode(
         cacheGetNodeAtCursor(editor, event, ['H1', 'H2', 'H3', 'H4', 'H5', 'H6'])
     );
@@ -35,8 +39,12 @@ export default function getFormatState(editor: Editor, event?: PluginEvent): For
         isSubscript: document.queryCommandState(DocumentCommand.Subscript),
         isSuperscript: document.queryCommandState(DocumentCommand.Superscript),
 
-        isBullet: listTag == 'UL',
+        isBullet: listTag == 'UL' && !checklist,
         isNumbering: listTag == 'OL',
+        listStyleType: vList.list ? vList.getStyleType() : undefined,
+        listStartNumber: listTag == 'OL' ? vList.getStartNumber() : undefined,
+        isChecklist: checklist,
+        isChecked: checklist && isChecked(cacheGetNodeAtCursor(editor, event, 'LI')),
         headerLevel: (headerTag && parseInt(headerTag[1])) || 0,
 
         canUnlink: !!editor.queryElements('a[href]', QueryScope.OnSelection)[0],
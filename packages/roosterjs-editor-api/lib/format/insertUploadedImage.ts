@@ -0,0 +1,78 @@
+import { ChangeSource } from 'roosterjs-editor-types';
+import { Editor } from 'roosterjs-editor-core';
+
+/**
+ * A function to upload an image file, returns a promise of the URL of the uploaded image
+ */
+export type ImageUploader = (file: File) => Promise<string>;
+
+/**
+ * Attribute added to the placeholder image while the image is being uploaded
+ */
+export const UPLOADING_IMAGE_ATTRIBUTE = 'data-uploading';
+
+const PLACEHOLDER_OPACITY = '0.5';
+const PREVIEW_URL_KEY_PREFIX = 'UPLOADING_IMAGE_PREVIEW_';
+
+/**
+ * Insert an image to editor at current selection, and upload the image file instead of inlining
+ * it as a data URL.
+ * A placeholder image with a local preview of the file is inserted immediately, then its source is
+ * replaced with the URL of the uploaded image, without adding undo snapshot. If upload fails, the
+ * placeholder is removed without adding undo snapshot either, so undo won't bring it back. Current
+ * selection is not changed in both cases
+ * @param editor The editor instance
+ * @param imageFile The image file to upload and insert
+ * @param uploadImage The function to upload the image file
+ * @returns A promise of the inserted image, or null if upload fails
+ */
+export default function insertUploadedImage(
+    editor: Editor,
+    imageFile: File,
+    uploadImage: ImageUploader
+): Promise<HTMLImageElement> {
+    let window = editor.getDocument().defaultView;
+    let previewUrl = window.URL.createObjectURL(imageFile);
+    let image = editor.getDocument().createElement('img');
+
+    image.src = previewUrl;
+    image.style.maxWidth = '100%';
+    image.style.opacity = PLACEHOLDER_OPACITY;
+    image.setAttribute(UPLOADING_IMAGE_ATTRIBUTE, 'true');
+
+    editor.addUndoSnapshot(() => editor.insertNode(image), ChangeSource.Format);
+
+    let complete = (url: string) => {
+        if (editor.isDisposed()) {
+            window.URL.revokeObjectURL(previewUrl);
+            return null;
+        }
+
+        if (url) {
+            window.URL.revokeObjectURL(previewUrl);
+
+            // Only attributes of the image are changed, so they can be kept when undo and redo
+            editor.editWithoutUndo(() => {
+                image.src = url;
+                image.style.opacity = '';
+                image.removeAttribute(UPLOADING_IMAGE_ATTRIBUTE);
+            });
+        } else {
+            if (image.parentNode) {
+                editor.editWithoutUndo(() => image.parentNode.removeChild(image));
+            }
+
+            // Redo of the insertion can still bring the placeholder back, so keep its preview
+            // until editor is disposed
+            editor.getCustomData(
+                PREVIEW_URL_KEY_PREFIX + previewUrl,
+                () => previewUrl,
+                url => window.URL.revokeObjectURL(url)
+            );
+        }
+
+        return url ? image : null;
+    };
+
+    return uploadImage(imageFile).then(complete, () => complete(null));
+}
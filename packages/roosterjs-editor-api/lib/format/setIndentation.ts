@@ -1,7 +1,7 @@
 import { Editor } from 'roosterjs-editor-core';
 import { DocumentCommand, Indentation, ChangeSource, QueryScope } from 'roosterjs-editor-types';
 import getNodeAtCursor from './getNodeAtCursor';
-import processList from './processList';
+import { Position, setListItemIndentation } from 'roosterjs-editor-dom';
 
 /**
  * Set indentation at selection
@@ -20,9 +20,14 @@ export default function setIndentation(editor: Editor, indentation: Indentation)
         let newNode: Node;
 
         if (listNode) {
-            // There is already list node, setIndentation() will increase/decrease the list level,
-            // so we need to process the list when change indentation
-            newNode = processList(editor, command);
+            // There is already list node, setIndentation() will increase/decrease the list level.
+            // Browsers create different DOM structures for this, so change the list items directly.
+            // List items are only moved so positions of leaf nodes are still valid after that
+            let range = editor.getSelectionRange();
+            let start = Position.getStart(range).normalize();
+            let end = Position.getEnd(range).normalize();
+            newNode = setListItemIndentation(getSelectedListItems(editor), indentation);
+            editor.select(start, end);
         } else {
             // No existing list node, browser will create <Blockquote> node for indentation.
             // We need to set top and bottom margin to 0 to avoid unnecessary spaces
@@ -37,3 +42,19 @@ export default function setIndentation(editor: Editor, indentation: Indentation)
         return newNode;
     }, ChangeSource.Format);
 }
+
+function getSelectedListItems(editor: Editor): HTMLLIElement[] {
+    let items: HTMLLIElement[] = [];
+    let traverser = editor.getSelectionTraverser();
+    let block = traverser && traverser.currentBlockElement;
+
+    while (block) {
+        let li = getNodeAtCursor(editor, 'LI', block.getStartNode()) as HTMLLIElement;
+        if (li && items.indexOf(li) < 0) {
+            items.push(li);
+        }
+        block = traverser.getNextBlockElement();
+    }
+
+    return items;
+}
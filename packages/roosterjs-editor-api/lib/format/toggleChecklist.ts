@@ -0,0 +1,103 @@
+import getNodeAtCursor from './getNodeAtCursor';
+import processList from './processList';
+import { ChangeSource, DocumentCommand } from 'roosterjs-editor-types';
+import { Editor } from 'roosterjs-editor-core';
+import { getTagOfNode } from 'roosterjs-editor-dom';
+
+/**
+ * Attribute of a UL element to mark it as a checklist
+ */
+export const CHECKLIST_ATTRIBUTE = 'data-checklist';
+
+/**
+ * Attribute of an LI element in checklist to store its checked state, value can be 'true' or 'false'
+ */
+export const CHECKED_ATTRIBUTE = 'data-checked';
+
+const CHECKLIST_STYLE_KEY = 'ChecklistStyle';
+const CHECKLIST_SELECTOR = `ul[${CHECKLIST_ATTRIBUTE}]`;
+const CHECKLIST_CSS = [
+    `${CHECKLIST_SELECTOR}{list-style-type:none}`,
+    `${CHECKLIST_SELECTOR}>li{position:relative}`,
+    `${CHECKLIST_SELECTOR}>li::before{content:"\\2610";position:absolute;left:-1.4em;cursor:pointer}`,
+    `${CHECKLIST_SELECTOR}>li[${CHECKED_ATTRIBUTE}="true"]::before{content:"\\2611"}`,
+    `[dir=rtl] ${CHECKLIST_SELECTOR}>li::before,${CHECKLIST_SELECTOR}[dir=rtl]>li::before{left:auto;right:-1.4em}`,
+].join('\n');
+
+/**
+ * Toggle checklist at selection.
+ * If selection is in a checklist, the list will be removed.
+ * If selection is in a bullet list, the list will be converted into a checklist.
+ * Otherwise, a new checklist will be created with unchecked items.
+ * The checked state of items is stored in HTML so it will be kept in editor content
+ * @param editor The editor instance
+ */
+export default function toggleChecklist(editor: Editor) {
+    editor.focus();
+    ensureChecklistStyle(editor);
+    editor.addUndoSnapshot(() => {
+        let list = getNodeAtCursor(editor, ['OL', 'UL']);
+
+        if (isChecklist(list)) {
+            processList(editor, DocumentCommand.InsertUnorderedList);
+        } else {
+            if (getTagOfNode(list) != 'UL') {
+                processList(editor, DocumentCommand.InsertUnorderedList);
+                list = getNodeAtCursor(editor, 'UL');
+            }
+
+            if (list) {
+                (<HTMLElement>list).setAttribute(CHECKLIST_ATTRIBUTE, 'true');
+                for (let li = list.firstChild; li; li = li.nextSibling) {
+                    if (getTagOfNode(li) == 'LI' && !isChecked(li)) {
+                        setChecked(<HTMLElement>li, false);
+                    }
+                }
+            }
+        }
+    }, ChangeSource.Format);
+}
+
+/**
+ * Check if the given node is a checklist
+ * @param node The node to check
+ */
+export function isChecklist(node: Node): boolean {
+    return getTagOfNode(node) == 'UL' && (<HTMLElement>node).hasAttribute(CHECKLIST_ATTRIBUTE);
+}
+
+/**
+ * Check if the given list item of a checklist is checked
+ * @param li The list item to check
+ */
+export function isChecked(li: Node): boolean {
+    return getTagOfNode(li) == 'LI' && (<HTMLElement>li).getAttribute(CHECKED_ATTRIBUTE) == 'true';
+}
+
+/**
+ * Set checked state of a list item of a checklist
+ * @param li The list item
+ * @param checked True to check the item, false to uncheck it
+ */
+export function setChecked(li: HTMLElement, checked: boolean) {
+    li.setAttribute(CHECKED_ATTRIBUTE, checked ? 'true' : 'false');
+}
+
+/**
+ * Make sure the CSS to render checkbox of checklist items is added to the document of editor.
+ * The CSS will be removed when editor is disposed
+ * @param editor The editor instance
+ */
+export function ensureChecklistStyle(editor: Editor) {
+    editor.getCustomData(
+        CHECKLIST_STYLE_KEY,
+        () => {
+            let doc = editor.getDocument();
+            let style = doc.createElement('style');
+            style.textContent = CHECKLIST_CSS;
+            (doc.head || doc.body).appendChild(style);
+            return style;
+        },
+        style => style.parentNode && style.parentNode.removeChild(style)
+    );
+}
@@ -8,9 +8,23 @@ export { default as clearFormat } from './format/clearFormat';
 export { default as createLink } from './format/createLink';
 export { default as getFormatState } from './format/getFormatState';
 export { default as insertImage } from './format/insertImage';
+export {
+    default as insertUploadedImage,
+    ImageUploader,
+    UPLOADING_IMAGE_ATTRIBUTE,
+} from './format/insertUploadedImage';
 export { default as insertTable } from './table/insertTable';
 export { default as editTable } from './table/editTable';
 export { default as formatTable } from './table/formatTable';
+export { default as getTableFormat } from './table/getTableFormat';
+export { TABLE_FORMAT_PRESETS } from './table/tableFormatPresets';
+export { getTableSelection, setTableSelection } from './table/tableSelection';
+export { default as setListStyle } from './list/setListStyle';
+export {
+    default as setListStartNumber,
+    restartNumbering,
+    continueNumbering,
+} from './list/setListStartNumber';
 export { default as removeLink } from './format/removeLink';
 export { default as replaceWithNode } from './format/replaceWithNode';
 export { default as setAlignment } from './format/setAlignment';
@@ -25,6 +39,15 @@ export { default as toggleBold } from './format/toggleBold';
 export { default as toggleBullet } from './format/toggleBullet';
 export { default as toggleItalic } from './format/toggleItalic';
 export { default as toggleNumbering } from './format/toggleNumbering';
+export {
+    default as toggleChecklist,
+    isChecklist,
+    isChecked,
+    setChecked,
+    ensureChecklistStyle,
+    CHECKLIST_ATTRIBUTE,
+    CHECKED_ATTRIBUTE,
+} from './format/toggleChecklist';
 export { default as toggleBlockQuote } from './format/toggleBlockQuote';
 export { default as toggleCodeBlock } from './format/toggleCodeBlock';
 export { default as toggleStrikethrough } from './format/toggleStrikethrough';
@@ -32,6 +55,16 @@ export { default as toggleSubscript } from './format/toggleSubscript';
 export { default as toggleSuperscript } from './format/toggleSuperscript';
 export { default as toggleUnderline } from './format/toggleUnderline';
 export { default as toggleHeader } from './format/toggleHeader';
+export { default as find, findNext, findPrevious, clearFind, getCurrentFind } from './find/find';
+export { default as findAll } from './find/findAll';
+export { default as replace, replaceAll } from './find/replace';
+export { default as getMarkdown } from './markdown/getMarkdown';
+export { default as setMarkdown } from './markdown/setMarkdown';
+export { default as domToMarkdown } from './markdown/domToMarkdown';
+export { default as markdownToHtml } from './markdown/markdownToHtml';
+export { default as toModel } from './model/toModel';
+export { default as fromModel } from './model/fromModel';
+export { default as domToModel } from './model/domToModel';
 
 // Deprecated
 export { default as cacheGetListState } from './deprecated/cacheGetListState';
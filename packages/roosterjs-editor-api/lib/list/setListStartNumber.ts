@@ -0,0 +1,61 @@
+import getNodeAtCursor from '../format/getNodeAtCursor';
+import { ChangeSource } from 'roosterjs-editor-types';
+import { Editor } from 'roosterjs-editor-core';
+import { VList } from 'roosterjs-editor-dom';
+
+/**
+ * Set the number of the first item of the numbering list at selection
+ * @param editor The editor instance
+ * @param startNumber The number of the first item
+ */
+export default function setListStartNumber(editor: Editor, startNumber: number) {
+    let vList = new VList(getNodeAtCursor(editor, 'OL'));
+    if (vList.list) {
+        editor.focus();
+        editor.addUndoSnapshot(() => vList.setStartNumber(startNumber), ChangeSource.Format);
+    }
+}
+
+/**
+ * Restart numbering of the numbering list at selection from 1
+ * @param editor The editor instance
+ */
+export function restartNumbering(editor: Editor) {
+    setListStartNumber(editor, 1);
+}
+
+/**
+ * Continue numbering of the numbering list at selection from the previous numbering list in the
+ * same list level. If there is no such previous list, numbering is restarted from 1
+ * @param editor The editor instance
+ */
+export function continueNumbering(editor: Editor) {
+    let ol = getNodeAtCursor(editor, 'OL');
+    let previousList = ol && getPreviousList(editor, <HTMLOListElement>ol);
+    if (ol) {
+        setListStartNumber(editor, previousList ? previousList.getLastNumber() + 1 : 1);
+    }
+}
+
+function getPreviousList(editor: Editor, ol: HTMLOListElement): VList {
+    let level = getListLevel(editor, ol);
+    let lists = editor.queryElements('ol');
+    let index = lists.indexOf(ol);
+
+    for (let i = index - 1; i >= 0; i--) {
+        if (getListLevel(editor, lists[i]) == level) {
+            return new VList(lists[i]);
+        }
+    }
+    return null;
+}
+
+function getListLevel(editor: Editor, list: HTMLElement): number {
+    let level = 0;
+    for (let node = list.parentNode; editor.contains(node); node = node.parentNode) {
+        if (node instanceof HTMLOListElement || node instanceof HTMLUListElement) {
+            level++;
+        }
+    }
+    return level;
+}
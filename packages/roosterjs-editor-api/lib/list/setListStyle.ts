@@ -0,0 +1,32 @@
+import getNodeAtCursor from '../format/getNodeAtCursor';
+import processList from '../format/processList';
+import { BULLET_STYLE_TYPES, VList } from 'roosterjs-editor-dom';
+import { ChangeSource, DocumentCommand } from 'roosterjs-editor-types';
+import { Editor } from 'roosterjs-editor-core';
+
+/**
+ * Set list style type of the list at selection.
+ * If selection is not in a list, a new list will be created. If the style type is a bullet style
+ * (disc, circle, square) but the list is a numbering list, or vice versa, the list will be converted
+ * @param editor The editor instance
+ * @param styleType The CSS list style type, e.g. 'square', 'decimal', 'lower-alpha', 'upper-roman',
+ * or a custom string value such as '"- "'
+ */
+export default function setListStyle(editor: Editor, styleType: string) {
+    editor.focus();
+    editor.addUndoSnapshot(() => {
+        let vList = new VList(getNodeAtCursor(editor, ['OL', 'UL']));
+
+        if (!vList.list) {
+            processList(
+                editor,
+                BULLET_STYLE_TYPES.indexOf(styleType) >= 0 || /^['"]/.test(styleType)
+                    ? DocumentCommand.InsertUnorderedList
+                    : DocumentCommand.InsertOrderedList
+            );
+            vList = new VList(getNodeAtCursor(editor, ['OL', 'UL']));
+        }
+
+        vList.setStyleType(styleType);
+    }, ChangeSource.Format);
+}
@@ -0,0 +1,461 @@
+import { BlockElement, NodeType } from 'roosterjs-editor-types';
+import {
+    ContentTraverser,
+    NodeBlockElement,
+    contains,
+    createRange,
+    getLastLeafNode,
+    getTagOfNode,
+    isBlockElement,
+} from 'roosterjs-editor-dom';
+
+const HEADER_TAGS = ['H1', 'H2', 'H3', 'H4', 'H5', 'H6'];
+const BOLD_TAGS = ['B', 'STRONG'];
+const ITALIC_TAGS = ['I', 'EM'];
+const STRIKE_TAGS = ['S', 'STRIKE', 'DEL'];
+const CONTAINER_TAGS = ['PRE', 'TABLE'];
+const NESTED_LIST_INDENT = '    ';
+const ESCAPE_REGEX = /([\\`*_\[\]<>~|])/g;
+// Escaped characters are matched as a whole, so that pipes already escaped in text are skipped
+const TABLE_PIPE_REGEX = /\\[\s\S]|\|/g;
+const BLOCK_START_REGEX = /^(#{1,6}(?=\s|$)|[-+](?=\s|$)|[-=]{3,}\s*$)/;
+const ORDERED_LIST_START_REGEX = /^(\d+)([.)])(?=\s|$)/;
+
+/**
+ * Line prefixes of a block: the first line of a list item gets the list marker,
+ * all other lines of the item get the same width of indentation
+ */
+interface BlockPrefix {
+    first: string;
+    rest: string;
+    quoteDepth: number;
+    list: Node;
+}
+
+/**
+ * Convert content under the given root node into Markdown (CommonMark with GFM tables and task lists).
+ * The content is walked block by block using ContentTraverser, so any HTML structure which
+ * roosterjs can handle (e.g. text directly under root node, BR separated lines) can be converted.
+ * Formats which have no Markdown representation (fonts, colors, ...) are dropped.
+ * @param rootNode The root node of the content to convert, usually a DIV
+ * @returns The Markdown text
+ */
+export default function domToMarkdown(rootNode: Node): string {
+    let traverser = ContentTraverser.createBodyTraverser(rootNode);
+    let markedListItems: Node[] = [];
+    let handledContainer: Node = null;
+    let lastPrefix: BlockPrefix = null;
+    let lastBlock: BlockElement = null;
+    let result = '';
+
+    for (
+        let block = traverser.currentBlockElement;
+        block;
+        block = traverser.getNextBlockElement()
+    ) {
+        let startNode = block.getStartNode();
+        if (contains(handledContainer, startNode, true /*treatSameNodeAsContain*/)) {
+            continue;
+        }
+
+        let ancestors = getBlockAncestors(rootNode, block);
+        let containerIndex = indexOfTag(ancestors, CONTAINER_TAGS);
+        let container = containerIndex >= 0 ? ancestors[containerIndex] : null;
+        let lines: string[];
+
+        if (container) {
+            ancestors = ancestors.slice(0, containerIndex);
+            handledContainer = container;
+            lines =
+                getTagOfNode(container) == 'PRE'
+                    ? getCodeBlockLines(<HTMLElement>container)
+                    : getTableLines(<HTMLTableElement>container);
+        } else {
+            lines = getParagraphLines(rootNode, block, ancestors);
+        }
+
+        if (lines.length == 0) {
+            continue;
+        }
+
+        let prefix = getBlockPrefix(ancestors, markedListItems);
+        if (lastPrefix) {
+            let isTight = prefix.list && prefix.list == lastPrefix.list;
+            let quote = repeat('>', Math.min(prefix.quoteDepth, lastPrefix.quoteDepth));
+            result += isLineBreak(rootNode, lastBlock, block)
+                ? '\\\n'
+                : isTight
+                    ? '\n'
+                    : '\n' + quote + '\n';
+        }
+
+        result += lines.map((line, i) => (i == 0 ? prefix.first : prefix.rest) + line).join('\n');
+        lastPrefix = prefix;
+        lastBlock = container ? null : block;
+    }
+
+    return result;
+}
+
+/**
+ * Check if two blocks are actually two lines of the same paragraph which are separated by a BR
+ */
+function isLineBreak(rootNode: Node, lastBlock: BlockElement, block: BlockElement): boolean {
+    let endNode = lastBlock && lastBlock.getEndNode();
+    let context = endNode && getBlockContext(rootNode, endNode);
+    return (
+        context &&
+        getTagOfNode(getLastLeafNode(endNode) || endNode) == 'BR' &&
+        HEADER_TAGS.indexOf(getTagOfNode(context)) < 0 &&
+        context == getBlockContext(rootNode, block.getStartNode())
+    );
+}
+
+function getBlockContext(rootNode: Node, node: Node): Node {
+    for (; node && node != rootNode && !isBlockElement(node); node = node.parentNode) {}
+    return node;
+}
+
+/**
+ * Render inline content of a block into Markdown lines
+ */
+function getParagraphLines(rootNode: Node, block: BlockElement, ancestors: Node[]): string[] {
+    let tag = getTagOfNode(block.getStartNode());
+    let text: string;
+
+    if (tag == 'HR') {
+        return ['---'];
+    } else if (block instanceof NodeBlockElement) {
+        text = renderChildren(block.getStartNode());
+    } else {
+        // Clone the block content so that no DOM change will happen to the content,
+        // then apply formats from the inline ancestors which are not included in the cloned range
+        let range = createRange(block.getStartNode(), block.getEndNode());
+        let node = range.commonAncestorContainer;
+        text = renderChildren(range.cloneContents());
+
+        for (; node && node != rootNode && !isBlockElement(node); node = node.parentNode) {
+            if (node.nodeType == NodeType.Element) {
+                text = renderElement(<HTMLElement>node, text);
+            }
+        }
+    }
+
+    let lines = text.replace(/\n+$/, '').split('\n');
+    let header = indexOfTag(ancestors, HEADER_TAGS);
+
+    if (lines.length == 1 && !lines[0].trim()) {
+        return [];
+    } else if (header >= 0) {
+        let level = parseInt(getTagOfNode(ancestors[header])[1]);
+        return [repeat('#', level) + ' ' + lines.map(line => line.trim()).join(' ')];
+    } else {
+        return lines.map((line, i) => {
+            line = line
+                .trim()
+                .replace(BLOCK_START_REGEX, '\\$1')
+                .replace(ORDERED_LIST_START_REGEX, '$1\\$2');
+            return i < lines.length - 1 ? line + '\\' : line;
+        });
+    }
+}
+
+/**
+ * Render a PRE element into fenced code block lines
+ */
+function getCodeBlockLines(pre: HTMLElement): string[] {
+    let code = getCodeText(pre).replace(/\n$/, '');
+    let fence = repeat('`', Math.max(3, getLongestRun(code, '`') + 1));
+    let codeNode = pre.querySelector('code');
+    let language = /(?:^|\s)language-(\S+)/.exec((codeNode && codeNode.className) || '');
+    return [fence + (language ? language[1] : '')].concat(code.split('\n'), [fence]);
+}
+
+/**
+ * Render a TABLE element into GFM table lines. The first row is always used as header row
+ */
+function getTableLines(table: HTMLTableElement): string[] {
+    let rows: string[][] = [];
+    let alignments: string[] = [];
+    let columnCount = 0;
+
+    for (let i = 0; i < table.rows.length; i++) {
+        let tr = table.rows[i];
+        let row: string[] = [];
+        for (let j = 0; j < tr.cells.length; j++) {
+            let cell = tr.cells[j];
+            row.push(
+                domToMarkdown(cell)
+                    .replace(/\s*\n+\s*/g, ' ')
+                    .replace(TABLE_PIPE_REGEX, match => (match == '|' ? '\\|' : match))
+            );
+            if (i == 0) {
+                alignments.push(cell.style.textAlign || cell.getAttribute('align') || '');
+            }
+        }
+        columnCount = Math.max(columnCount, row.length);
+        rows.push(row);
+    }
+
+    if (rows.length == 0) {
+        return [];
+    }
+
+    let delimiter: string[] = [];
+    for (let i = 0; i < columnCount; i++) {
+        let align = alignments[i];
+        delimiter.push(
+            align == 'center'
+                ? ':---:'
+                : align == 'right'
+                    ? '---:'
+                    : align == 'left'
+                        ? ':---'
+                        : '---'
+        );
+    }
+    rows.splice(1, 0, delimiter);
+
+    return rows.map(row => {
+        while (row.length < columnCount) {
+            row.push('');
+        }
+        return '| ' + row.join(' | ') + ' |';
+    });
+}
+
+/**
+ * Get Markdown line prefixes from list and blockquote ancestors of a block
+ */
+function getBlockPrefix(ancestors: Node[], markedListItems: Node[]): BlockPrefix {
+    let prefix: BlockPrefix = {
+        first: '',
+        rest: '',
+        quoteDepth: 0,
+        list: null,
+    };
+
+    for (let i = 0; i < ancestors.length; i++) {
+        let node = ancestors[i];
+        let tag = getTagOfNode(node);
+
+        if (tag == 'BLOCKQUOTE') {
+            prefix.first += '> ';
+            prefix.rest += '> ';
+            prefix.quoteDepth++;
+        } else if (tag == 'OL' || tag == 'UL') {
+            if (!prefix.list) {
+                prefix.list = node;
+            }
+            let parentTag = getTagOfNode(node.parentNode);
+            if (i > 0 && (parentTag == 'OL' || parentTag == 'UL')) {
+                // A list directly nested in a list, this is what execCommand('indent') creates
+                prefix.first += NESTED_LIST_INDENT;
+                prefix.rest += NESTED_LIST_INDENT;
+            }
+        } else if (tag == 'LI') {
+            let marker = getListMarker(<HTMLLIElement>node);
+            let indent = repeat(' ', marker.length);
+            if (markedListItems.indexOf(node) < 0) {
+                markedListItems.push(node);
+                prefix.first += marker + getTaskMarker(<HTMLLIElement>node);
+            } else {
+                prefix.first += indent;
+            }
+            prefix.rest += indent;
+        }
+    }
+
+    return prefix;
+}
+
+function getListMarker(li: HTMLLIElement): string {
+    let list = li.parentNode;
+    if (getTagOfNode(list) != 'OL') {
+        return '- ';
+    }
+
+    let start = parseInt((<HTMLOListElement>list).getAttribute('start'));
+    let number = isNaN(start) ? 1 : start;
+    for (let node = li.previousSibling; node; node = node.previousSibling) {
+        if (getTagOfNode(node) == 'LI') {
+            number++;
+        }
+    }
+    return number + '. ';
+}
+
+function getTaskMarker(li: HTMLLIElement): string {
+    let checkbox = getTaskCheckbox(li);
+    return checkbox ? (checkbox.checked ? '[x] ' : '[ ] ') : '';
+}
+
+function getTaskCheckbox(node: Node): HTMLInputElement {
+    for (; node && !(node.nodeType == NodeType.Text && node.nodeValue.trim()); ) {
+        if (getTagOfNode(node) == 'INPUT' && (<HTMLInputElement>node).type == 'checkbox') {
+            return <HTMLInputElement>node;
+        }
+        node = node.firstChild || (getTagOfNode(node) == 'LI' ? null : node.nextSibling);
+    }
+    return null;
+}
+
+/**
+ * Get ancestors of a block from outside to inside, not including the root node
+ */
+function getBlockAncestors(rootNode: Node, block: BlockElement): Node[] {
+    let ancestors: Node[] = [];
+    let node =
+        block instanceof NodeBlockElement ? block.getStartNode() : block.getStartNode().parentNode;
+    for (; node && node != rootNode; node = node.parentNode) {
+        ancestors.unshift(node);
+    }
+    return ancestors;
+}
+
+function renderChildren(node: Node): string {
+    let result = '';
+    for (let child = node.firstChild; child; child = child.nextSibling) {
+        result += renderNode(child);
+    }
+    return result;
+}
+
+function renderNode(node: Node): string {
+    if (node.nodeType == NodeType.Text) {
+        return node.nodeValue
+            .replace(/[\s\u00A0]+/g, ' ')
+            .replace(/\u200B/g, '')
+            .replace(ESCAPE_REGEX, '\\$1');
+    } else if (node.nodeType != NodeType.Element) {
+        return '';
+    }
+
+    let element = <HTMLElement>node;
+    let tag = getTagOfNode(element);
+
+    if (tag == 'BR') {
+        return '\n';
+    } else if (tag == 'INPUT') {
+        return '';
+    } else if (tag == 'IMG') {
+        let image = <HTMLImageElement>element;
+        let src = image.getAttribute('src');
+        return src
+            ? '![' + escapeText(image.alt || '') + '](' + getLinkTarget(src, image.title) + ')'
+            : '';
+    } else if (tag == 'CODE' && getTagOfNode(element.parentNode) == 'PRE') {
+        return getCodeText(element);
+    } else {
+        return renderElement(element, renderChildren(element));
+    }
+}
+
+/**
+ * Apply Markdown inline format of the given element to the rendered content
+ */
+function renderElement(element: HTMLElement, content: string): string {
+    let tag = getTagOfNode(element);
+    let style = element.style;
+
+    if (tag == 'A' && element.getAttribute('href')) {
+        let text = content.trim() || escapeText(element.getAttribute('href'));
+        return '[' + text + '](' + getLinkTarget(element.getAttribute('href'), element.title) + ')';
+    }
+
+    if (tag == 'CODE') {
+        return renderCodeSpan(element.textContent);
+    }
+
+    if (STRIKE_TAGS.indexOf(tag) >= 0 || /line-through/.test(style.textDecoration)) {
+        content = wrapWith(content, '~~');
+    }
+    if (ITALIC_TAGS.indexOf(tag) >= 0 || style.fontStyle == 'italic') {
+        content = wrapWith(content, '*');
+    }
+    if (
+        BOLD_TAGS.indexOf(tag) >= 0 ||
+        style.fontWeight == 'bold' ||
+        parseInt(style.fontWeight) >= 600
+    ) {
+        content = wrapWith(content, '**');
+    }
+
+    return content;
+}
+
+function renderCodeSpan(text: string): string {
+    text = text.replace(/\u00A0/g, ' ');
+    if (!text) {
+        return '';
+    }
+    let fence = repeat('`', getLongestRun(text, '`') + 1);
+    let padding = text[0] == '`' || text[text.length - 1] == '`' ? ' ' : '';
+    return fence + padding + text + padding + fence;
+}
+
+/**
+ * Emphasis markers must be next to non-whitespace characters, so keep the whitespaces outside
+ */
+function wrapWith(content: string, marker: string): string {
+    let match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content);
+    return match[2] ? match[1] + marker + match[2] + marker + match[3] : content;
+}
+
+function getLinkTarget(url: string, title: string): string {
+    url = url.replace(/[ <>()]/g, c => encodeURIComponent(c));
+    return title ? url + ' "' + title.replace(/"/g, '\\"') + '"' : url;
+}
+
+/**
+ * Get the text of a code block, treat BR and block elements as line breaks
+ */
+function getCodeText(node: Node): string {
+    let result = '';
+    for (let child = node.firstChild; child; child = child.nextSibling) {
+        if (child.nodeType == NodeType.Text) {
+            result += child.nodeValue.replace(/\u00A0/g, ' ');
+        } else if (getTagOfNode(child) == 'BR') {
+            result += '\n';
+        } else if (isBlockElement(child)) {
+            if (result && result[result.length - 1] != '\n') {
+                result += '\n';
+            }
+            result += getCodeText(child).replace(/\n?$/, '\n');
+        } else {
+            result += getCodeText(child);
+        }
+    }
+    return result;
+}
+
+function escapeText(text: string): string {
+    return text.replace(ESCAPE_REGEX, '\\$1');
+}
+
+function indexOfTag(nodes: Node[], tags: string[]): number {
+    for (let i = 0; i < nodes.length; i++) {
+        if (tags.indexOf(getTagOfNode(nodes[i])) >= 0) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+function getLongestRun(text: string, char: string): number {
+    let longest = 0;
+    let current = 0;
+    for (let i = 0; i < text.length; i++) {
+        current = text[i] == char ? current + 1 : 0;
+        longest = Math.max(longest, current);
+    }
+    return longest;
+}
+
+function repeat(text: string, count: number): string {
+    let result = '';
+    for (let i = 0; i < count; i++) {
+        result += text;
+    }
+    return result;
+}
@@ -0,0 +1,15 @@
+import domToMarkdown from './domToMarkdown';
+import { Editor } from 'roosterjs-editor-core';
+
+/**
+ * Get content of editor as Markdown text.
+ * This is the Markdown version of Editor.getContent(). ExtractContent event will be triggered
+ * so that plugins can remove their temporary content before the content is converted.
+ * @param editor The editor instance
+ * @returns The Markdown text of editor content
+ */
+export default function getMarkdown(editor: Editor): string {
+    let div = editor.getDocument().createElement('div');
+    div.innerHTML = editor.getContent();
+    return domToMarkdown(div);
+}
@@ -0,0 +1,503 @@
+import { SanitizeHtmlPropertyCallback, sanitizeHtml } from 'roosterjs-editor-dom';
+
+const BLANK_LINE_REGEX = /^\s*$/;
+const ATX_HEADER_REGEX = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE_REGEX = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK_REGEX = /^ {0,3}([-*_])([ \t]*\1){2,}[ \t]*$/;
+const FENCE_REGEX = /^( {0,3})(`{3,}|~{3,})[ \t]*([^`\s]*)[^`]*$/;
+const BLOCKQUOTE_REGEX = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM_REGEX = /^( {0,3})([-+*]|(\d{1,9})[.)])(?:( {1,4})(.*))?$/;
+const TASK_REGEX = /^\[([ xX])\](?:\s+|$)/;
+const INDENTED_CODE_REGEX = /^(?: {4}|\t)(.*)$/;
+const TABLE_DELIMITER_REGEX = /^ {0,3}\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const HTML_TAG_REGEX = /^<\/?[a-zA-Z][a-zA-Z0-9-]*(\s+[a-zA-Z_:][\w.:-]*(\s*=\s*("[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*\s*\/?>/;
+const AUTO_LINK_REGEX = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*|[\w.!#$%&'*+\/=?^`{|}~-]+@[a-zA-Z0-9-]+(\.[a-zA-Z0-9-]+)*)>/;
+const ESCAPABLE_CHARS = '!"#$%&\'()*+,-./:;<=>?@[\\]^_`{|}~';
+const PROPERTY_CALLBACKS: SanitizeHtmlPropertyCallback = {
+    // Keep language of code blocks
+    class: value => (/^language-\S+$/.test(value) ? value : null),
+};
+
+/**
+ * Convert Markdown (CommonMark with GFM tables, strikethrough and task lists) into HTML.
+ * The result is sanitized using sanitizeHtml() so it is safe to be put into editor.
+ * Paragraphs are converted to DIV elements to be consistent with the content created by editor.
+ * @param markdown The Markdown text to convert
+ * @returns Sanitized HTML string
+ */
+export default function markdownToHtml(markdown: string): string {
+    let lines = (markdown || '').replace(/\r\n?/g, '\n').split('\n');
+    return sanitizeHtml(parseBlocks(lines), null, false, PROPERTY_CALLBACKS);
+}
+
+function parseBlocks(lines: string[]): string {
+    let html = '';
+    let paragraph: string[] = [];
+    let i = 0;
+
+    let flushParagraph = () => {
+        if (paragraph.length > 0) {
+            html += '<div>' + parseInline(paragraph.join('\n').trim()) + '</div>';
+            paragraph = [];
+        }
+    };
+
+    while (i < lines.length) {
+        let line = lines[i];
+        let match: RegExpExecArray;
+
+        if (BLANK_LINE_REGEX.test(line)) {
+            flushParagraph();
+            i++;
+        } else if (paragraph.length > 0 && (match = SETEXT_UNDERLINE_REGEX.exec(line))) {
+            let tag = match[1][0] == '=' ? 'h1' : 'h2';
+            html += `<${tag}>${parseInline(paragraph.join('\n').trim())}</${tag}>`;
+            paragraph = [];
+            i++;
+        } else if (THEMATIC_BREAK_REGEX.test(line)) {
+            flushParagraph();
+            html += '<hr>';
+            i++;
+        } else if ((match = ATX_HEADER_REGEX.exec(line))) {
+            flushParagraph();
+            let tag = 'h' + match[1].length;
+            html += `<${tag}>${parseInline(match[2] || '')}</${tag}>`;
+            i++;
+        } else if ((match = FENCE_REGEX.exec(line))) {
+            flushParagraph();
+            let indent = match[1].length;
+            let fence = match[2];
+            let language = unescapeText(match[3]);
+            let code: string[] = [];
+            for (i++; i < lines.length; i++) {
+                let closing = new RegExp('^ {0,3}' + fence[0] + '{' + fence.length + ',}\\s*$');
+                if (closing.test(lines[i])) {
+                    i++;
+                    break;
+                }
+                code.push(removeIndent(lines[i], indent));
+            }
+            html += getCodeBlockHtml(code, language);
+        } else if (paragraph.length == 0 && INDENTED_CODE_REGEX.test(line)) {
+            let code: string[] = [];
+            for (; i < lines.length; i++) {
+                if ((match = INDENTED_CODE_REGEX.exec(lines[i]))) {
+                    code.push(match[1]);
+                } else if (BLANK_LINE_REGEX.test(lines[i])) {
+                    code.push('');
+                } else {
+                    break;
+                }
+            }
+            while (code.length > 0 && code[code.length - 1] == '') {
+                code.pop();
+            }
+            html += getCodeBlockHtml(code, '');
+        } else if (BLOCKQUOTE_REGEX.test(line)) {
+            flushParagraph();
+            let quote: string[] = [];
+            for (; i < lines.length && (match = BLOCKQUOTE_REGEX.exec(lines[i])); i++) {
+                quote.push(match[1]);
+            }
+            html += '<blockquote>' + parseBlocks(quote) + '</blockquote>';
+        } else if ((match = LIST_ITEM_REGEX.exec(line))) {
+            flushParagraph();
+            let result = parseList(lines, i);
+            html += result.html;
+            i = result.next;
+        } else if (
+            paragraph.length == 0 &&
+            line.indexOf('|') >= 0 &&
+            i + 1 < lines.length &&
+            TABLE_DELIMITER_REGEX.test(lines[i + 1])
+        ) {
+            let result = parseTable(lines, i);
+            html += result.html;
+            i = result.next;
+        } else {
+            paragraph.push(line);
+            i++;
+        }
+    }
+
+    flushParagraph();
+    return html;
+}
+
+/**
+ * Parse a list starting from the given line, until a line which does not belong to this list.
+ * Nested content of list items is parsed recursively.
+ */
+function parseList(lines: string[], start: number): { html: string; next: number } {
+    let firstMatch = LIST_ITEM_REGEX.exec(lines[start]);
+    let isOrdered = !!firstMatch[3];
+    let delimiter = firstMatch[2][firstMatch[2].length - 1];
+    let items: string[][] = [];
+    let isLoose = false;
+    let i = start;
+
+    while (i < lines.length) {
+        let match = LIST_ITEM_REGEX.exec(lines[i]);
+        if (!match || !!match[3] != isOrdered || match[2][match[2].length - 1] != delimiter) {
+            break;
+        }
+
+        // The content indent is the width of list marker plus the spaces after it
+        let contentIndent = match[1].length + match[2].length + (match[4] || ' ').length;
+        let item = [match[5] || ''];
+        let hasBlankLine = false;
+
+        for (i++; i < lines.length; i++) {
+            let line = lines[i];
+            if (BLANK_LINE_REGEX.test(line)) {
+                hasBlankLine = true;
+                item.push('');
+            } else if (getIndent(line) >= contentIndent) {
+                isLoose = isLoose || (hasBlankLine && item.length > 1);
+                hasBlankLine = false;
+                item.push(removeIndent(line, contentIndent));
+            } else if (!hasBlankLine && !isBlockStart(line)) {
+                // Lazy continuation line of a paragraph
+                item.push(line);
+            } else {
+                break;
+            }
+        }
+
+        while (item.length > 1 && item[item.length - 1] == '') {
+            item.pop();
+        }
+
+        if (hasBlankLine && i < lines.length && LIST_ITEM_REGEX.test(lines[i])) {
+            isLoose = true;
+        }
+        items.push(item);
+    }
+
+    let startNumber = isOrdered ? parseInt(firstMatch[3]) : 1;
+    let html = isOrdered ? (startNumber != 1 ? `<ol start="${startNumber}">` : '<ol>') : '<ul>';
+
+    items.forEach(item => {
+        let task = TASK_REGEX.exec(item[0]);
+        let checkbox = '';
+        if (task) {
+            item[0] = item[0].substr(task[0].length);
+            checkbox = `<input type="checkbox"${task[1] == ' ' ? '' : ' checked'}>`;
+        }
+
+        let content = parseBlocks(item);
+        if (!isLoose) {
+            // For a tight list, paragraphs inside list item are not wrapped
+            content = content.replace(
+                /<div>([\s\S]*?)<\/div>/g,
+                (_: string, text: string) => text + '<br>'
+            );
+            content = content.replace(/<br>$/, '').replace(/<br>(<(ul|ol)[ >])/g, '$1');
+        }
+
+        html += '<li>' + checkbox + content + '</li>';
+    });
+
+    html += isOrdered ? '</ol>' : '</ul>';
+    return { html, next: i };
+}
+
+/**
+ * Parse a GFM table starting from the given line
+ */
+function parseTable(lines: string[], start: number): { html: string; next: number } {
+    let alignments = splitTableRow(lines[start + 1]).map(
+        cell =>
+            /^:-+:$/.test(cell)
+                ? 'center'
+                : /^-+:$/.test(cell)
+                    ? 'right'
+                    : /^:-+$/.test(cell)
+                        ? 'left'
+                        : ''
+    );
+    let html = '<table><thead>' + getTableRowHtml(lines[start], alignments, 'th') + '</thead>';
+    let i = start + 2;
+
+    if (i < lines.length && !BLANK_LINE_REGEX.test(lines[i]) && !isBlockStart(lines[i])) {
+        html += '<tbody>';
+        for (
+            ;
+            i < lines.length && !BLANK_LINE_REGEX.test(lines[i]) && !isBlockStart(lines[i]);
+            i++
+        ) {
+            html += getTableRowHtml(lines[i], alignments, 'td');
+        }
+        html += '</tbody>';
+    }
+
+    return { html: html + '</table>', next: i };
+}
+
+function getTableRowHtml(line: string, alignments: string[], tag: string): string {
+    let cells = splitTableRow(line);
+    let html = '<tr>';
+    for (let i = 0; i < alignments.length; i++) {
+        let style = alignments[i] ? ` style="text-align:${alignments[i]}"` : '';
+        html += `<${tag}${style}>${parseInline(cells[i] || '')}</${tag}>`;
+    }
+    return html + '</tr>';
+}
+
+function splitTableRow(line: string): string[] {
+    let cells: string[] = [];
+    let current = '';
+    line = line.trim().replace(/^\|/, '');
+
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] == '\\' && line[i + 1] == '|') {
+            current += '|';
+            i++;
+        } else if (line[i] == '|') {
+            cells.push(current.trim());
+            current = '';
+        } else {
+            current += line[i];
+        }
+    }
+
+    if (current.trim()) {
+        cells.push(current.trim());
+    }
+
+    return cells;
+}
+
+function getCodeBlockHtml(code: string[], language: string): string {
+    let className = language ? ` class="language-${escapeHtml(language)}"` : '';
+    return `<pre><code${className}>${escapeHtml(code.join('\n'))}</code></pre>`;
+}
+
+/**
+ * Check if the line starts a new block which can interrupt a paragraph
+ */
+function isBlockStart(line: string): boolean {
+    return (
+        THEMATIC_BREAK_REGEX.test(line) ||
+        ATX_HEADER_REGEX.test(line) ||
+        FENCE_REGEX.test(line) ||
+        BLOCKQUOTE_REGEX.test(line) ||
+        LIST_ITEM_REGEX.test(line)
+    );
+}
+
+/**
+ * Parse inline Markdown content: code spans, links, images, autolinks, emphasis,
+ * strikethrough, hard line breaks, escaped characters and inline HTML tags
+ */
+function parseInline(text: string): string {
+    let html = '';
+    let i = 0;
+
+    while (i < text.length) {
+        let char = text[i];
+        let rest = text.substr(i);
+        let match: RegExpExecArray;
+
+        if (char == '\\' && text[i + 1] == '\n') {
+            html += '<br>';
+            i += 2;
+        } else if (char == '\\' && ESCAPABLE_CHARS.indexOf(text[i + 1]) >= 0) {
+            html += escapeHtml(text[i + 1]);
+            i += 2;
+        } else if (char == '`' && (match = /^(`+)([\s\S]*?[^`])\1(?!`)/.exec(rest))) {
+            let code = match[2].replace(/\n/g, ' ');
+            if (/^ [\s\S]* $/.test(code) && code.trim()) {
+                code = code.substr(1, code.length - 2);
+            }
+            html += '<code>' + escapeHtml(code) + '</code>';
+            i += match[0].length;
+        } else if (char == '`' && (match = /^`+/.exec(rest))) {
+            html += match[0];
+            i += match[0].length;
+        } else if ((char == '!' && text[i + 1] == '[') || char == '[') {
+            let link = parseLink(text, char == '!' ? i + 1 : i);
+            if (link && char == '!') {
+                html += `<img src="${escapeHtml(link.url)}" alt="${escapeHtml(
+                    unescapeText(link.text)
+                )}"${link.title ? ` title="${escapeHtml(link.title)}"` : ''}>`;
+                i = link.next;
+            } else if (link) {
+                html += `<a href="${escapeHtml(link.url)}"${
+                    link.title ? ` title="${escapeHtml(link.title)}"` : ''
+                }>${parseInline(link.text)}</a>`;
+                i = link.next;
+            } else {
+                html += char;
+                i++;
+            }
+        } else if (char == '<' && (match = AUTO_LINK_REGEX.exec(rest))) {
+            let url =
+                match[1].indexOf('@') > 0 && match[1].indexOf(':') < 0
+                    ? 'mailto:' + match[1]
+                    : match[1];
+            html += `<a href="${escapeHtml(url)}">${escapeHtml(match[1])}</a>`;
+            i += match[0].length;
+        } else if (char == '<' && (match = HTML_TAG_REGEX.exec(rest))) {
+            // Inline HTML is kept as it is, sanitizeHtml will remove the dangerous parts
+            html += match[0];
+            i += match[0].length;
+        } else if (char == '*' || char == '_' || char == '~') {
+            let emphasis = parseEmphasis(text, i);
+            if (emphasis) {
+                html += emphasis.html;
+                i = emphasis.next;
+            } else {
+                let run = /^([*_~])\1*/.exec(rest)[0];
+                html += run;
+                i += run.length;
+            }
+        } else if (char == '\n') {
+            let isHardBreak = / {2}$/.test(html);
+            html = html.replace(/ +$/, '') + (isHardBreak ? '<br>' : ' ');
+            i++;
+        } else {
+            html += escapeHtml(char);
+            i++;
+        }
+    }
+
+    return html;
+}
+
+/**
+ * Parse a link or image in format of [text](url "title"), starting from the "[" character
+ */
+function parseLink(
+    text: string,
+    start: number
+): { text: string; url: string; title: string; next: number } {
+    let depth = 0;
+    let end = -1;
+
+    for (let i = start; i < text.length; i++) {
+        if (text[i] == '\\') {
+            i++;
+        } else if (text[i] == '`') {
+            let code = /^(`+)[\s\S]*?[^`]\1(?!`)/.exec(text.substr(i));
+            i += code ? code[0].length - 1 : 0;
+        } else if (text[i] == '[') {
+            depth++;
+        } else if (text[i] == ']' && --depth == 0) {
+            end = i;
+            break;
+        }
+    }
+
+    let match =
+        end > 0 &&
+        /^\(\s*(<[^<>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+("(?:\\"|[^"])*"|'(?:\\'|[^'])*'|\((?:\\\)|[^)])*\)))?\s*\)/.exec(
+            text.substr(end + 1)
+        );
+
+    if (!match) {
+        return null;
+    }
+
+    let url = match[1].replace(/^<([\s\S]*)>$/, '$1');
+    let title = match[2] ? match[2].substr(1, match[2].length - 2) : '';
+
+    return {
+        text: text.substring(start + 1, end),
+        url: unescapeText(url),
+        title: unescapeText(title),
+        next: end + 1 + match[0].length,
+    };
+}
+
+/**
+ * Parse emphasis (*, _), strong emphasis (**, __) and strikethrough (~~) starting from the given position
+ */
+function parseEmphasis(text: string, start: number): { html: string; next: number } {
+    let char = text[start];
+    let runLength = /^([*_~])\1*/.exec(text.substr(start))[0].length;
+    let prev = text[start - 1] || ' ';
+    let next = text[start + runLength] || ' ';
+
+    // An opening delimiter run must be followed by non-whitespace. An underscore can't open inside a word
+    if (/\s/.test(next) || (char == '_' && /\w/.test(prev))) {
+        return null;
+    }
+
+    let markers =
+        char == '~'
+            ? runLength == 2
+                ? ['~~']
+                : []
+            : runLength >= 2
+                ? [char + char, char]
+                : [char];
+
+    for (let m = 0; m < markers.length; m++) {
+        let marker = markers[m];
+        let closing = findClosingDelimiter(text, start + marker.length, marker);
+        if (closing > start + marker.length) {
+            let inner = parseInline(text.substring(start + marker.length, closing));
+            let tag = marker == '~~' ? 'del' : marker.length == 2 ? 'strong' : 'em';
+            return {
+                html: `<${tag}>${inner}</${tag}>`,
+                next: closing + marker.length,
+            };
+        }
+    }
+
+    return null;
+}
+
+function findClosingDelimiter(text: string, start: number, marker: string): number {
+    let char = marker[0];
+
+    for (let i = start; i < text.length; i++) {
+        if (text[i] == '\\') {
+            i++;
+        } else if (text[i] == '`') {
+            let code = /^(`+)[\s\S]*?[^`]\1(?!`)/.exec(text.substr(i));
+            i += code ? code[0].length - 1 : 0;
+        } else if (text.substr(i, marker.length) == marker) {
+            let runLength = /^([*_~])\1*/.exec(text.substr(i))[0].length;
+            let prev = text[i - 1];
+            let next = text[i + runLength] || ' ';
+
+            // A closing delimiter run must be preceded by non-whitespace. An underscore can't close inside a word
+            if (!/\s/.test(prev) && !(char == '_' && /\w/.test(next))) {
+                if (runLength == marker.length) {
+                    return i;
+                } else if (marker.length == 2 && runLength == 3) {
+                    return i + 1;
+                } else if (marker.length == 1 && runLength == 3) {
+                    return i + 2;
+                }
+            }
+
+            i += runLength - 1;
+        }
+    }
+
+    return -1;
+}
+
+function getIndent(line: string): number {
+    return /^ */.exec(line.replace(/\t/g, '    '))[0].length;
+}
+
+function removeIndent(line: string, indent: number): string {
+    line = line.replace(/\t/g, '    ');
+    return line.substr(Math.min(indent, getIndent(line)));
+}
+
+function unescapeText(text: string): string {
+    return text.replace(/\\([!-\/:-@\[-`{-~])/g, '$1');
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,16 @@
+import markdownToHtml from './markdownToHtml';
+import { ChangeSource } from 'roosterjs-editor-types';
+import { Editor } from 'roosterjs-editor-core';
+
+/**
+ * Set content of editor from Markdown text.
+ * This is the Markdown version of Editor.setContent(), the Markdown will be converted to sanitized HTML.
+ * @param editor The editor instance
+ * @param markdown The Markdown text to set
+ */
+export default function setMarkdown(editor: Editor, markdown: string) {
+    let html = markdownToHtml(markdown);
+    editor.addUndoSnapshot(() => {
+        editor.setContent(html, false /*triggerContentChangedEvent*/);
+    }, ChangeSource.SetContent);
+}
@@ -0,0 +1,65 @@
+import { ContentModelBlockFormat } from 'roosterjs-editor-types';
+
+// Fields of ContentModelBlockFormat and their CSS property names, except direction which is an attribute
+const BLOCK_STYLES: [keyof ContentModelBlockFormat, string][] = [
+    ['textAlign', 'text-align'],
+    ['verticalAlign', 'vertical-align'],
+    ['backgroundColor', 'background-color'],
+    ['width', 'width'],
+    ['marginTop', 'margin-top'],
+    ['marginRight', 'margin-right'],
+    ['marginBottom', 'margin-bottom'],
+    ['marginLeft', 'margin-left'],
+    ['paddingTop', 'padding-top'],
+    ['paddingRight', 'padding-right'],
+    ['paddingBottom', 'padding-bottom'],
+    ['paddingLeft', 'padding-left'],
+    ['borderTop', 'border-top'],
+    ['borderRight', 'border-right'],
+    ['borderBottom', 'border-bottom'],
+    ['borderLeft', 'border-left'],
+    ['borderCollapse', 'border-collapse'],
+];
+
+/**
+ * Read layout format from style and attributes of the given element
+ * @param element The element to read format from
+ */
+export function readBlockFormat(element: HTMLElement): ContentModelBlockFormat {
+    let format: ContentModelBlockFormat = {};
+    let direction = element.getAttribute('dir');
+    let align = element.getAttribute('align');
+
+    if (direction) {
+        format.direction = direction;
+    }
+    if (align) {
+        format.textAlign = align;
+    }
+
+    BLOCK_STYLES.forEach(([name, cssName]) => {
+        let value = element.style.getPropertyValue(cssName);
+        if (value) {
+            format[name] = value;
+        }
+    });
+
+    return format;
+}
+
+/**
+ * Write layout format to the given element
+ * @param element The element to write format to
+ * @param format The format to write
+ */
+export function writeBlockFormat(element: HTMLElement, format: ContentModelBlockFormat) {
+    if (format.direction) {
+        element.setAttribute('dir', format.direction);
+    }
+
+    BLOCK_STYLES.forEach(([name, cssName]) => {
+        if (format[name]) {
+            element.style.setProperty(cssName, format[name]);
+        }
+    });
+}
@@ -0,0 +1,318 @@
+import { getTagOfNode, isBlockElement, VTable } from 'roosterjs-editor-dom';
+import { isChecked, isChecklist } from '../format/toggleChecklist';
+import { readBlockFormat } from './blockFormat';
+import {
+    ContentModelBlock,
+    ContentModelDocument,
+    ContentModelImage,
+    ContentModelInline,
+    ContentModelLink,
+    ContentModelList,
+    ContentModelListItem,
+    ContentModelParagraph,
+    ContentModelTable,
+    ContentModelTextFormat,
+    NodeType,
+} from 'roosterjs-editor-types';
+
+const BOLD_TAGS = ['B', 'STRONG'];
+const ITALIC_TAGS = ['I', 'EM'];
+const STRIKE_TAGS = ['S', 'STRIKE', 'DEL'];
+const LIST_TAGS = ['OL', 'UL'];
+const WHITESPACE_REGEX = /^[ \t\r\n]*$/;
+
+/**
+ * Convert content under the given root node into a content model.
+ * Text formats are calculated from tags and inline styles of the text and its ancestors under root
+ * node, so formats inherited from outside of the root node are not included.
+ * @param rootNode The root node of the content to convert, usually a DIV
+ * @returns The content model
+ */
+export default function domToModel(rootNode: Node): ContentModelDocument {
+    return {
+        blocks: readBlocks(toArray(rootNode.childNodes), {}),
+    };
+}
+
+function readBlocks(nodes: Node[], textFormat: ContentModelTextFormat): ContentModelBlock[] {
+    let blocks: ContentModelBlock[] = [];
+    let paragraph: ContentModelParagraph = null;
+
+    nodes.forEach(node => {
+        if (node instanceof HTMLElement && isBlockElement(node)) {
+            paragraph = null;
+            blocks.push(readBlock(node, readTextFormat(node, textFormat, true /*isBlock*/)));
+        } else if (node.nodeType == NodeType.Element || node.nodeType == NodeType.Text) {
+            // Whitespaces between blocks are only for HTML source formatting, they are not content
+            if (
+                !paragraph &&
+                node.nodeType == NodeType.Text &&
+                WHITESPACE_REGEX.test(node.nodeValue)
+            ) {
+                return;
+            }
+
+            if (!paragraph) {
+                paragraph = { type: 'paragraph', format: {}, inlines: [] };
+                blocks.push(paragraph);
+            }
+            readInlines(node, textFormat, paragraph.inlines);
+        }
+    });
+
+    return blocks;
+}
+
+function readBlock(element: HTMLElement, textFormat: ContentModelTextFormat): ContentModelBlock {
+    let tag = getTagOfNode(element);
+    let format = readBlockFormat(element);
+    let children = toArray(element.childNodes);
+
+    if (tag == 'BLOCKQUOTE') {
+        return { type: 'quote', format, blocks: readBlocks(children, textFormat) };
+    } else if (tag == 'PRE' && children.length == 1 && getTagOfNode(children[0]) == 'CODE') {
+        let code = <HTMLElement>children[0];
+        return {
+            type: 'code',
+            format,
+            blocks: readBlocks(toArray(code.childNodes), readTextFormat(code, textFormat)),
+        };
+    } else if (LIST_TAGS.indexOf(tag) >= 0) {
+        return readList(element, format, textFormat);
+    } else if (tag == 'TABLE') {
+        return readTable(<HTMLTableElement>element, format, textFormat);
+    } else if (children.some(child => isBlockElement(child))) {
+        return { type: 'group', tagName: tag, format, blocks: readBlocks(children, textFormat) };
+    } else {
+        let inlines: ContentModelInline[] = [];
+        children.forEach(child => readInlines(child, textFormat, inlines));
+        return { type: 'paragraph', tagName: tag, format, inlines };
+    }
+}
+
+function readList(
+    element: HTMLElement,
+    format: ContentModelList['format'],
+    textFormat: ContentModelTextFormat
+): ContentModelList {
+    let isNumbering = getTagOfNode(element) == 'OL';
+    let start = isNumbering ? parseInt(element.getAttribute('start')) : NaN;
+    let checklist = isChecklist(element);
+    let list: ContentModelList = {
+        type: 'list',
+        isNumbering,
+        format,
+        items: [],
+    };
+
+    if (!isNaN(start)) {
+        list.start = start;
+    }
+    if (element.style.listStyleType) {
+        list.listStyleType = element.style.listStyleType;
+    }
+    if (checklist) {
+        list.isChecklist = true;
+    }
+
+    let others: Node[] = [];
+    let addOthers = () => {
+        let blocks = readBlocks(others, textFormat);
+        if (blocks.length > 0) {
+            // Content not inside LI (e.g. nested list created by browser) belongs to previous item
+            if (list.items.length == 0) {
+                list.items.push({ format: {}, blocks: [] });
+            }
+            let item = list.items[list.items.length - 1];
+            item.blocks = item.blocks.concat(blocks);
+        }
+        others = [];
+    };
+
+    toArray(element.childNodes).forEach(child => {
+        if (getTagOfNode(child) == 'LI') {
+            addOthers();
+            let item: ContentModelListItem = {
+                format: readBlockFormat(<HTMLElement>child),
+                blocks: readBlocks(
+                    toArray(child.childNodes),
+                    readTextFormat(<HTMLElement>child, textFormat, true /*isBlock*/)
+                ),
+            };
+            if (checklist && isChecked(child)) {
+                item.isChecked = true;
+            }
+            list.items.push(item);
+        } else {
+            others.push(child);
+        }
+    });
+    addOthers();
+
+    return list;
+}
+
+function readTable(
+    table: HTMLTableElement,
+    format: ContentModelTable['format'],
+    textFormat: ContentModelTextFormat
+): ContentModelTable {
+    let vtable = new VTable(table);
+    return {
+        type: 'table',
+        format,
+        rows: vtable.cells.map((row, rowIndex) => {
+            let tr = table.rows[rowIndex];
+            let rowTextFormat = readTextFormat(tr, textFormat, true /*isBlock*/);
+            return {
+                format: readBlockFormat(tr),
+                cells: row.map(cell => {
+                    let td = cell.td;
+                    return td
+                        ? {
+                              spanLeft: false,
+                              spanAbove: false,
+                              isHeader: getTagOfNode(td) == 'TH',
+                              format: readBlockFormat(td),
+                              blocks: readBlocks(
+                                  toArray(td.childNodes),
+                                  readTextFormat(td, rowTextFormat, true /*isBlock*/)
+                              ),
+                          }
+                        : {
+                              spanLeft: !!cell.spanLeft,
+                              spanAbove: !!cell.spanAbove,
+                              isHeader: false,
+                              format: {},
+                              blocks: [],
+                          };
+                }),
+            };
+        }),
+    };
+}
+
+function readInlines(
+    node: Node,
+    textFormat: ContentModelTextFormat,
+    inlines: ContentModelInline[]
+) {
+    if (node.nodeType == NodeType.Text) {
+        let last = inlines[inlines.length - 1];
+        if (last && last.type == 'text' && isSameFormat(last.format, textFormat)) {
+            last.text += node.nodeValue;
+        } else if (node.nodeValue) {
+            inlines.push({ type: 'text', text: node.nodeValue, format: textFormat });
+        }
+    } else if (node instanceof HTMLElement) {
+        let tag = getTagOfNode(node);
+        let format = readTextFormat(node, textFormat);
+
+        if (tag == 'BR') {
+            inlines.push({ type: 'br' });
+        } else if (tag == 'IMG') {
+            inlines.push(
+                removeEmptyFields<ContentModelImage>({
+                    type: 'image',
+                    src: node.getAttribute('src') || '',
+                    alt: node.getAttribute('alt'),
+                    width: node.style.width || node.getAttribute('width'),
+                    height: node.style.height || node.getAttribute('height'),
+                    maxWidth: node.style.maxWidth,
+                })
+            );
+        } else if (tag == 'A' && node.hasAttribute('href')) {
+            let children: ContentModelInline[] = [];
+            toArray(node.childNodes).forEach(child => readInlines(child, format, children));
+            inlines.push(
+                removeEmptyFields<ContentModelLink>({
+                    type: 'link',
+                    href: node.getAttribute('href'),
+                    title: node.getAttribute('title'),
+                    target: node.getAttribute('target'),
+                    inlines: children,
+                })
+            );
+        } else {
+            toArray(node.childNodes).forEach(child => readInlines(child, format, inlines));
+        }
+    }
+}
+
+function readTextFormat(
+    element: HTMLElement,
+    inheritedFormat: ContentModelTextFormat,
+    isBlock?: boolean
+): ContentModelTextFormat {
+    let format: ContentModelTextFormat = { ...inheritedFormat };
+    let tag = getTagOfNode(element);
+    let style = element.style;
+    let fontWeight = style.fontWeight;
+    let fontStyle = style.fontStyle;
+    let textDecoration = style.textDecoration;
+
+    if (BOLD_TAGS.indexOf(tag) >= 0) {
+        format.isBold = true;
+    } else if (ITALIC_TAGS.indexOf(tag) >= 0) {
+        format.isItalic = true;
+    } else if (tag == 'U') {
+        format.isUnderline = true;
+    } else if (STRIKE_TAGS.indexOf(tag) >= 0) {
+        format.isStrikeThrough = true;
+    } else if (tag == 'SUB') {
+        format.isSubscript = true;
+        format.isSuperscript = false;
+    } else if (tag == 'SUP') {
+        format.isSuperscript = true;
+        format.isSubscript = false;
+    } else if (tag == 'FONT') {
+        format.fontName = element.getAttribute('face') || format.fontName;
+        format.textColor = element.getAttribute('color') || format.textColor;
+    }
+
+    if (fontWeight) {
+        format.isBold =
+            fontWeight == 'bold' || fontWeight == 'bolder' || parseInt(fontWeight) >= 600;
+    }
+    if (fontStyle) {
+        format.isItalic = fontStyle == 'italic' || fontStyle == 'oblique';
+    }
+    if (textDecoration) {
+        format.isUnderline = textDecoration.indexOf('underline') >= 0;
+        format.isStrikeThrough = textDecoration.indexOf('line-through') >= 0;
+    }
+
+    format.fontName = style.fontFamily || format.fontName;
+    format.fontSize = style.fontSize || format.fontSize;
+    format.textColor = style.color || format.textColor;
+
+    // Background color of a block is kept in the block format
+    if (!isBlock) {
+        format.backgroundColor = style.backgroundColor || format.backgroundColor;
+    }
+
+    return removeEmptyFields(format);
+}
+
+function isSameFormat(format1: ContentModelTextFormat, format2: ContentModelTextFormat): boolean {
+    let keys1 = Object.keys(format1);
+    let keys2 = Object.keys(format2);
+    return (
+        keys1.length == keys2.length &&
+        keys1.every((key: keyof ContentModelTextFormat) => format1[key] === format2[key])
+    );
+}
+
+function removeEmptyFields<T>(obj: T): T {
+    (<(keyof T)[]>Object.keys(obj)).forEach(key => {
+        let value: {} = obj[key];
+        if (value === null || value === undefined || value === '' || value === false) {
+            delete obj[key];
+        }
+    });
+    return obj;
+}
+
+function toArray(nodes: NodeList): Node[] {
+    return [].slice.call(nodes) as Node[];
+}
@@ -0,0 +1,251 @@
+import { CHECKLIST_ATTRIBUTE, setChecked } from '../format/toggleChecklist';
+import { isUrlAllowed } from 'roosterjs-editor-dom';
+import { writeBlockFormat } from './blockFormat';
+import {
+    ContentModelBlock,
+    ContentModelDocument,
+    ContentModelInline,
+    ContentModelList,
+    ContentModelTable,
+    ContentModelTableCell,
+    ContentModelTextFormat,
+} from 'roosterjs-editor-types';
+
+const NUMBER_REGEX = /^\d+$/;
+
+// Tags allowed for paragraphs and groups, other tags in model are written as DIV
+const BLOCK_TAGS = 'ADDRESS,ARTICLE,ASIDE,CENTER,DD,DIV,DL,DT,FIELDSET,FIGCAPTION,FIGURE,FOOTER,H1,H2,H3,H4,H5,H6,HEADER,HR,LI,MAIN,NAV,P,PRE,SECTION'.split(
+    ','
+);
+
+/**
+ * Convert a content model into HTML, which can be set into editor using Editor.setContent().
+ * Converting the HTML back using toModel() results in the same content model.
+ * Model may come from untrusted source, so only known block tags are created, and URLs of links and
+ * images are checked with the URL schemes of the default sanitize policy
+ * @param model The content model to convert
+ * @param doc (Optional) The document object used to create HTML elements. Default value is the
+ * global document object
+ * @returns The HTML string
+ */
+export default function fromModel(
+    model: ContentModelDocument,
+    doc: HTMLDocument = document
+): string {
+    let div = doc.createElement('div');
+    writeBlocks(div, model.blocks);
+    return div.innerHTML;
+}
+
+function writeBlocks(parent: Node, blocks: ContentModelBlock[]) {
+    let doc = parent.ownerDocument;
+
+    blocks.forEach(block => {
+        let element: HTMLElement;
+
+        switch (block.type) {
+            case 'paragraph':
+                if (!block.tagName) {
+                    writeInlines(parent, block.inlines);
+                    return;
+                }
+                element = createBlockElement(doc, block.tagName);
+                writeInlines(element, block.inlines);
+                break;
+
+            case 'group':
+                element = createBlockElement(doc, block.tagName);
+                writeBlocks(element, block.blocks);
+                break;
+
+            case 'quote':
+                element = doc.createElement('blockquote');
+                writeBlocks(element, block.blocks);
+                break;
+
+            case 'code':
+                element = doc.createElement('pre');
+                writeBlocks(element.appendChild(doc.createElement('code')), block.blocks);
+                break;
+
+            case 'list':
+                element = createList(doc, block);
+                block.items.forEach(item => {
+                    let li = doc.createElement('li');
+                    writeBlockFormat(li, item.format);
+                    if (block.isChecklist) {
+                        setChecked(li, !!item.isChecked);
+                    }
+                    writeBlocks(li, item.blocks);
+                    element.appendChild(li);
+                });
+                break;
+
+            case 'table':
+                element = createTable(doc, block);
+                break;
+        }
+
+        writeBlockFormat(element, block.format);
+        parent.appendChild(element);
+    });
+}
+
+function createBlockElement(doc: HTMLDocument, tagName: string): HTMLElement {
+    let isAllowed = tagName && BLOCK_TAGS.indexOf(tagName.toUpperCase()) >= 0;
+    return doc.createElement(isAllowed ? tagName : 'div');
+}
+
+function createList(doc: HTMLDocument, model: ContentModelList): HTMLElement {
+    let list = doc.createElement(model.isNumbering ? 'ol' : 'ul');
+
+    if (model.isNumbering && typeof model.start == 'number') {
+        list.setAttribute('start', '' + model.start);
+    }
+    if (model.listStyleType) {
+        list.style.listStyleType = model.listStyleType;
+    }
+    if (model.isChecklist && !model.isNumbering) {
+        list.setAttribute(CHECKLIST_ATTRIBUTE, 'true');
+    }
+
+    return list;
+}
+
+function createTable(doc: HTMLDocument, model: ContentModelTable): HTMLTableElement {
+    let table = doc.createElement('table');
+    let rows = model.rows;
+
+    rows.forEach((row, r) => {
+        let tr = doc.createElement('tr');
+        writeBlockFormat(tr, row.format);
+        table.appendChild(tr);
+
+        row.cells.forEach((cell, c) => {
+            if (cell.spanLeft || cell.spanAbove) {
+                return;
+            }
+
+            let td = doc.createElement(cell.isHeader ? 'th' : 'td');
+            let colSpan = 1;
+            let rowSpan = 1;
+            while (isSpanned(row.cells[c + colSpan], true /*isLeft*/)) {
+                colSpan++;
+            }
+            while (rows[r + rowSpan] && isSpanned(rows[r + rowSpan].cells[c], false /*isLeft*/)) {
+                rowSpan++;
+            }
+
+            if (colSpan > 1) {
+                td.colSpan = colSpan;
+            }
+            if (rowSpan > 1) {
+                td.rowSpan = rowSpan;
+            }
+            writeBlockFormat(td, cell.format);
+            writeBlocks(td, cell.blocks);
+            tr.appendChild(td);
+        });
+    });
+
+    return table;
+}
+
+function isSpanned(cell: ContentModelTableCell, isLeft: boolean): boolean {
+    return !!cell && (isLeft ? cell.spanLeft && !cell.spanAbove : cell.spanAbove && !cell.spanLeft);
+}
+
+function writeInlines(parent: Node, inlines: ContentModelInline[]) {
+    let doc = parent.ownerDocument;
+
+    inlines.forEach(inline => {
+        switch (inline.type) {
+            case 'text':
+                parent.appendChild(wrapWithFormat(doc.createTextNode(inline.text), inline.format));
+                break;
+
+            case 'br':
+                parent.appendChild(doc.createElement('br'));
+                break;
+
+            case 'image':
+                let img = doc.createElement('img');
+                if (inline.src && isUrlAllowed('IMG', inline.src)) {
+                    img.setAttribute('src', inline.src);
+                }
+                if (inline.alt) {
+                    img.alt = inline.alt;
+                }
+                setImageSize(img, 'width', inline.width);
+                setImageSize(img, 'height', inline.height);
+                img.style.maxWidth = inline.maxWidth || '';
+                parent.appendChild(img);
+                break;
+
+            case 'link':
+                let a = doc.createElement('a');
+                if (inline.href && isUrlAllowed('A', inline.href)) {
+                    a.setAttribute('href', inline.href);
+                }
+                if (inline.title) {
+                    a.title = inline.title;
+                }
+                if (inline.target) {
+                    a.target = inline.target;
+                }
+                writeInlines(a, inline.inlines);
+                parent.appendChild(a);
+                break;
+        }
+    });
+}
+
+function setImageSize(img: HTMLImageElement, name: 'width' | 'height', value: string) {
+    if (!value) {
+        return;
+    } else if (NUMBER_REGEX.test(value)) {
+        // Size without unit comes from width/height attribute
+        img.setAttribute(name, value);
+    } else {
+        img.style.setProperty(name, value);
+    }
+}
+
+function wrapWithFormat(node: Node, format: ContentModelTextFormat): Node {
+    let doc = node.ownerDocument;
+    let wrap = (tag: string) => {
+        let element = doc.createElement(tag);
+        element.appendChild(node);
+        node = element;
+    };
+
+    if (format.isSuperscript) {
+        wrap('sup');
+    }
+    if (format.isSubscript) {
+        wrap('sub');
+    }
+    if (format.isStrikeThrough) {
+        wrap('strike');
+    }
+    if (format.isUnderline) {
+        wrap('u');
+    }
+    if (format.isItalic) {
+        wrap('i');
+    }
+    if (format.isBold) {
+        wrap('b');
+    }
+
+    if (format.fontName || format.fontSize || format.textColor || format.backgroundColor) {
+        wrap('span');
+        let style = (<HTMLElement>node).style;
+        style.fontFamily = format.fontName || '';
+        style.fontSize = format.fontSize || '';
+        style.color = format.textColor || '';
+        style.backgroundColor = format.backgroundColor || '';
+    }
+
+    return node;
+}
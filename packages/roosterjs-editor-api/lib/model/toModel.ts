@@ -0,0 +1,16 @@
+import domToModel from './domToModel';
+import { ContentModelDocument } from 'roosterjs-editor-types';
+import { Editor } from 'roosterjs-editor-core';
+
+/**
+ * Get content of editor as a content model, which can be serialized as JSON.
+ * ExtractContent event will be triggered so that plugins can remove their temporary content before
+ * the content is converted.
+ * @param editor The editor instance
+ * @returns The content model of editor content
+ */
+export default function toModel(editor: Editor): ContentModelDocument {
+    let div = editor.getDocument().createElement('div');
+    div.innerHTML = editor.getContent();
+    return domToModel(div);
+}
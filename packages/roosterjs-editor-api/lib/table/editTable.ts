@@ -1,18 +1,36 @@
 import getNodeAtCursor from '../format/getNodeAtCursor';
+import { getTableSelection, setTableSelection } from './tableSelection';
 import { Editor } from 'roosterjs-editor-core';
 import { TableOperation, ChangeSource } from 'roosterjs-editor-types';
-import { VTable } from 'roosterjs-editor-dom';
+import { getTagOfNode, VCell, VTable } from 'roosterjs-editor-dom';
 
 /**
  * Edit table with given operation. If there is no table at cursor then no op.
+ * When there is a cell selection in the table, delete, merge and clear operations will be applied to
+ * all selected cells.
+ * Rows can't be sorted when any of them is merged with the row below, except the header rows, since
+ * merged cells would be split by sorting. In that case the table is not changed.
  * @param editor The editor instance
  * @param operation Table operation
+ * @returns True if the table is edited, or false if there is no table at cursor or the operation
+ * can't be applied to the table
  */
-export default function editTable(editor: Editor, operation: TableOperation) {
+export default function editTable(editor: Editor, operation: TableOperation): boolean {
     let td = getNodeAtCursor(editor, ['TD', 'TH']) as HTMLTableCellElement;
-    if (td) {
+    let isSort =
+        operation == TableOperation.SortAscending || operation == TableOperation.SortDescending;
+    let canEdit = !!td && (!isSort || !!getRowsToSort(new VTable(td)));
+
+    if (canEdit) {
         editor.addUndoSnapshot((start, end) => {
             let vtable = new VTable(td);
+            vtable.selection = getTableSelection(editor, vtable.table);
+            let range = vtable.getSelectedRange() || {
+                firstRow: vtable.row,
+                firstCol: vtable.col,
+                lastRow: vtable.row,
+                lastCol: vtable.col,
+            };
             let currentRow = vtable.cells[vtable.row];
             let currentCell = currentRow[vtable.col];
             switch (operation) {
@@ -31,22 +49,38 @@ export default function editTable(editor: Editor, operation: TableOperation) {
                     break;
 
                 case TableOperation.DeleteRow:
-                    vtable.forEachCellOfCurrentRow((cell, i) => {
-                        let nextCell = vtable.getCell(vtable.row + 1, i);
-                        if (cell.td && cell.td.rowSpan > 1 && nextCell.spanAbove) {
-                            nextCell.td = cell.td;
+                    for (let col = 0; col < vtable.cells[range.lastRow].length; col++) {
+                        let nextCell = vtable.getCell(range.lastRow + 1, col);
+                        for (
+                            let row = range.lastRow;
+                            nextCell.spanAbove && row >= range.firstRow;
+                            row--
+                        ) {
+                            let cell = vtable.getCell(row, col);
+                            if (cell.td) {
+                                nextCell.td = cell.td;
+                                break;
+                            }
                         }
-                    });
-                    vtable.cells.splice(vtable.row, 1);
+                    }
+                    vtable.cells.splice(range.firstRow, range.lastRow - range.firstRow + 1);
                     break;
 
                 case TableOperation.DeleteColumn:
-                    vtable.forEachCellOfCurrentColumn((cell, row, i) => {
-                        let nextCell = vtable.getCell(i, vtable.col + 1);
-                        if (cell.td && cell.td.colSpan > 1 && nextCell.spanLeft) {
-                            nextCell.td = cell.td;
+                    vtable.cells.forEach((row, i) => {
+                        let nextCell = vtable.getCell(i, range.lastCol + 1);
+                        for (
+                            let col = range.lastCol;
+                            nextCell.spanLeft && col >= range.firstCol;
+                            col--
+                        ) {
+                            let cell = vtable.getCell(i, col);
+                            if (cell.td) {
+                                nextCell.td = cell.td;
+                                break;
+                            }
                         }
-                        row.splice(vtable.col, 1);
+                        row.splice(range.firstCol, range.lastCol - range.firstCol + 1);
                     });
                     break;
 
@@ -130,9 +164,40 @@ export default function editTable(editor: Editor, operation: TableOperation) {
                         });
                     }
                     break;
+
+                case TableOperation.MergeCells:
+                    let firstCell = vtable.getCell(range.firstRow, range.firstCol);
+                    vtable.forEachSelectedCell((cell, row, col) => {
+                        if (cell.td && cell != firstCell) {
+                            VTable.moveChildren(cell.td, firstCell.td);
+                            cell.td = null;
+                        }
+                        cell.spanLeft = col > range.firstCol;
+                        cell.spanAbove = row > range.firstRow;
+                    });
+                    break;
+
+                case TableOperation.ClearCells:
+                    vtable.forEachSelectedCell(cell => {
+                        if (cell.td) {
+                            VTable.moveChildren(cell.td);
+                            cell.td.appendChild(editor.getDocument().createElement('br'));
+                        }
+                    });
+                    break;
+
+                case TableOperation.SortAscending:
+                case TableOperation.SortDescending:
+                    sortRows(vtable, operation == TableOperation.SortDescending);
+                    break;
             }
             vtable.writeBack();
 
+            // Cell indexes are changed by other operations, so the cell selection is no longer valid
+            if (operation != TableOperation.ClearCells) {
+                setTableSelection(editor, null);
+            }
+
             editor.focus();
 
             if (!editor.select(start, end)) {
@@ -140,4 +205,76 @@ export default function editTable(editor: Editor, operation: TableOperation) {
             }
         }, ChangeSource.Format);
     }
+
+    return canEdit;
+}
+
+/**
+ * Sort rows of the table by current column. Leading rows which only contain TH cells are treated as
+ * header rows and are kept in place. Cells are compared as numbers or dates if all non-empty cells
+ * of the column can be parsed so, otherwise as text. Empty cells are always put at the end.
+ * Rows must be checked with getRowsToSort() before calling this function.
+ */
+function sortRows(vtable: VTable, isDescending: boolean) {
+    let rows = getRowsToSort(vtable);
+    let firstRow = vtable.cells.length - rows.length;
+
+    let texts = rows.map(row => getCellText(row, vtable.col));
+    let nonEmptyTexts = texts.filter(text => !!text);
+    let parser = [parseNumber, Date.parse].filter(parse =>
+        nonEmptyTexts.every(text => !isNaN(parse(text)))
+    )[0];
+    let keys = texts.map(text => (text && parser ? parser(text) : text));
+    let indexes = rows.map((_, i) => i);
+
+    indexes.sort((i, j) => {
+        let result =
+            texts[i] && texts[j]
+                ? compare(keys[i], keys[j]) * (isDescending ? -1 : 1)
+                : (texts[i] ? 0 : 1) - (texts[j] ? 0 : 1);
+
+        // Keep the original order of rows with the same value
+        return result || i - j;
+    });
+
+    vtable.cells.splice(firstRow, rows.length, ...indexes.map(i => rows[i]));
+}
+
+/**
+ * Get the rows to sort, which are the rows after leading header rows.
+ * Returns null if any of them is merged, since merged cells would be split by sorting
+ */
+function getRowsToSort(vtable: VTable): VCell[][] {
+    let firstRow = 0;
+    while (firstRow < vtable.cells.length && vtable.cells[firstRow].every(isHeaderCell)) {
+        firstRow++;
+    }
+
+    let rows = vtable.cells.slice(firstRow);
+    return rows.some(row => row.some(cell => cell.spanAbove)) ? null : rows;
+}
+
+function isHeaderCell(cell: VCell): boolean {
+    return !cell.td || getTagOfNode(cell.td) == 'TH';
+}
+
+function getCellText(row: VCell[], col: number): string {
+    // For a cell merged from left, use the text of its root cell
+    for (; col > 0 && row[col] && !row[col].td; col--) {}
+    let td = row[col] && row[col].td;
+    return td ? td.textContent.trim() : '';
+}
+
+function parseNumber(text: string): number {
+    return Number(text.replace(/[\s,$€£¥%]/g, ''));
+}
+
+function compare(value1: number | string, value2: number | string): number {
+    return typeof value1 == 'string' && typeof value2 == 'string'
+        ? value1.localeCompare(value2)
+        : value1 < value2
+            ? -1
+            : value1 > value2
+                ? 1
+                : 0;
 }
@@ -1,10 +1,11 @@
 import getNodeAtCursor from '../format/getNodeAtCursor';
+import { getTableSelection } from './tableSelection';
 import { Editor } from 'roosterjs-editor-core';
 import { VTable } from 'roosterjs-editor-dom';
 import { TableFormat, ChangeSource } from 'roosterjs-editor-types';
 
 /**
- * Format table
+ * Format table. If there is a cell selection in the table, only the selected cells will be formatted
  * @param editor The editor which contains the table to format
  * @param format A TableFormat object contains format information we want to apply to the table
  * @param table The table to format. This is optional. When not passed, the current table (if any) will be formatted
@@ -14,6 +15,7 @@ export default function formatTable(editor: Editor, format: TableFormat, table?:
     if (table) {
         editor.addUndoSnapshot((start, end) => {
             let vtable = new VTable(table);
+            vtable.selection = getTableSelection(editor, table);
             vtable.applyFormat(format);
             vtable.writeBack();
             editor.focus();
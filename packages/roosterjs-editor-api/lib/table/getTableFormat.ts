@@ -0,0 +1,15 @@
+import getNodeAtCursor from '../format/getNodeAtCursor';
+import { Editor } from 'roosterjs-editor-core';
+import { TableFormat } from 'roosterjs-editor-types';
+import { VTable } from 'roosterjs-editor-dom';
+
+/**
+ * Get format of a table. This can be used by a toolbar to show the current table format
+ * @param editor The editor instance
+ * @param table The table to get format from. This is optional. When not passed, the current table (if any) will be used
+ * @returns The table format, or null if there is no table
+ */
+export default function getTableFormat(editor: Editor, table?: HTMLTableElement): TableFormat {
+    table = table || (getNodeAtCursor(editor, 'TABLE') as HTMLTableElement);
+    return table ? new VTable(table).getFormat() : null;
+}
@@ -0,0 +1,51 @@
+import { TableFormat } from 'roosterjs-editor-types';
+
+/**
+ * Predefined table formats which can be passed to formatTable() or insertTable()
+ */
+export const TABLE_FORMAT_PRESETS: { [name: string]: TableFormat } = {
+    Default: createFormat('#FFF', '#FFF', '#ABABAB', '#ABABAB', '#ABABAB'),
+    LightLines: createFormat('#FFF', '#FFF', null, '#92C0E0'),
+    TwoTones: createFormat('#C0E4FF', '#FFF'),
+    LightBands: createFormat('#D8D8D8', '#FFF'),
+    Grid: createFormat('#D8D8D8', '#FFF', '#ABABAB', '#ABABAB', '#ABABAB'),
+    Clear: createFormat('#FFF', '#FFF'),
+    HeaderRow: {
+        ...createFormat('#F2F8FD', '#FFF', '#92C0E0', '#92C0E0', '#92C0E0'),
+        hasHeaderRow: true,
+        headerRowColor: '#C0E4FF',
+        cellPadding: '4px',
+    },
+    FirstColumn: {
+        ...createFormat('#FFF', '#FFF', '#ABABAB', '#ABABAB', '#ABABAB'),
+        hasFirstColumn: true,
+        cellPadding: '4px',
+    },
+    BandedColumns: {
+        ...createFormat('#FFF', '#EAEAEA', '#ABABAB', '#ABABAB', '#ABABAB'),
+        hasHeaderRow: true,
+        headerRowColor: '#D8D8D8',
+        hasBandedColumns: true,
+    },
+    Dashed: {
+        ...createFormat('#FFF', '#FFF', '#666', '#666', '#666'),
+        borderStyle: 'dashed',
+        verticalAlign: 'top',
+    },
+};
+
+function createFormat(
+    bgColorEven: string,
+    bgColorOdd: string,
+    topBorderColor?: string,
+    bottomBorderColor?: string,
+    verticalBorderColor?: string
+): TableFormat {
+    return {
+        bgColorEven,
+        bgColorOdd,
+        topBorderColor,
+        bottomBorderColor,
+        verticalBorderColor,
+    };
+}
@@ -0,0 +1,41 @@
+import { Editor } from 'roosterjs-editor-core';
+import { TableSelection } from 'roosterjs-editor-types';
+
+const TABLE_SELECTION_KEY = 'TableSelection';
+
+interface TableSelectionHolder {
+    table: HTMLTableElement;
+    selection: TableSelection;
+}
+
+/**
+ * Get current cell selection of the given table
+ * @param editor The editor instance
+ * @param table The table to get cell selection from
+ * @returns The cell selection, or null if there is no cell selection in this table
+ */
+export function getTableSelection(editor: Editor, table: HTMLTableElement): TableSelection {
+    let holder = getHolder(editor);
+    return table && holder.table == table && editor.contains(table) ? holder.selection : null;
+}
+
+/**
+ * Set cell selection of a table. There can be only one cell selection in editor at the same time,
+ * so setting a new one will clear the existing one
+ * @param editor The editor instance
+ * @param table The table to set cell selection to. Pass null to clear current cell selection
+ * @param selection The cell selection
+ */
+export function setTableSelection(
+    editor: Editor,
+    table: HTMLTableElement,
+    selection?: TableSelection
+) {
+    let holder = getHolder(editor);
+    holder.table = table && selection ? table : null;
+    holder.selection = holder.table ? selection : null;
+}
+
+function getHolder(editor: Editor): TableSelectionHolder {
+    return editor.getCustomData(TABLE_SELECTION_KEY, () => ({ table: null, selection: null }));
+}
@@ -0,0 +1,114 @@
+import * as TestHelper from '../TestHelper';
+import find, { clearFind, findNext, findPrevious } from '../../find/find';
+import findAll from '../../find/findAll';
+import replace, { replaceAll } from '../../find/replace';
+import { Editor } from 'roosterjs-editor-core';
+import { FindOptions } from 'roosterjs-editor-types';
+
+describe('findAll()', () => {
+    let testID = 'findAll';
+    let editor: Editor;
+
+    beforeEach(() => {
+        editor = TestHelper.initEditor(testID);
+    });
+
+    afterEach(() => {
+        editor.dispose();
+        TestHelper.removeElement(testID);
+    });
+
+    it('finds text across inline elements', () => {
+        runTest('<div>a<b>bc</b>d</div><div>abcd</div>', 'bcd', null, ['bcd', 'bcd']);
+    });
+
+    it('does not find text across blocks', () => {
+        runTest('<div>ab</div><div>cd</div>', 'bc', null, []);
+    });
+
+    it('matches case only when required', () => {
+        runTest('<div>Abc abc</div>', 'abc', null, ['Abc', 'abc']);
+        runTest('<div>Abc abc</div>', 'abc', { matchCase: true }, ['abc']);
+    });
+
+    it('matches whole word', () => {
+        runTest('<div>cat concat cat.</div>', 'cat', { wholeWord: true }, ['cat', 'cat']);
+    });
+
+    it('finds regular expression', () => {
+        runTest('<div>a1 b22 c</div>', '[a-z]\\d+', { useRegex: true }, ['a1', 'b22']);
+    });
+
+    it('returns empty array for invalid regular expression', () => {
+        runTest('<div>abc</div>', '(', { useRegex: true }, []);
+    });
+
+    function runTest(html: string, text: string, options: FindOptions, expected: string[]) {
+        editor.setContent(html);
+        expect(findAll(editor, text, options).map(range => range.toString())).toEqual(expected);
+    }
+});
+
+describe('find() and replace()', () => {
+    let testID = 'findAndReplace';
+    let editor: Editor;
+
+    beforeEach(() => {
+        editor = TestHelper.initEditor(testID);
+        editor.setContent('<div id="div1">one two one two</div>');
+        editor.select(document.getElementById('div1'), 0);
+    });
+
+    afterEach(() => {
+        clearFind(editor);
+        editor.dispose();
+        TestHelper.removeElement(testID);
+    });
+
+    it('does not change content when highlighting', () => {
+        expect(find(editor, 'two')).toBe(2);
+        expect(editor.getContent()).toBe('<div id="div1">one two one two</div>');
+    });
+
+    it('selects next and previous matches with wrapping', () => {
+        find(editor, 'two');
+        expect(findNext(editor)).toBe(true);
+        expect(getSelectionStart()).toBe(4);
+        expect(findNext(editor)).toBe(true);
+        expect(getSelectionStart()).toBe(12);
+        expect(findNext(editor)).toBe(true);
+        expect(getSelectionStart()).toBe(4);
+        expect(findPrevious(editor)).toBe(true);
+        expect(getSelectionStart()).toBe(12);
+    });
+
+    it('replaces current match and selects the next one', () => {
+        find(editor, 'one');
+        findNext(editor);
+        expect(replace(editor, '1')).toBe(true);
+        expect(document.getElementById('div1').textContent).toBe('1 two one two');
+        expect(editor.getSelectionRange().toString()).toBe('one');
+    });
+
+    it('replaces all matches in one undo step', () => {
+        expect(replaceAll(editor, '(o)ne', '$1-', { useRegex: true })).toBe(2);
+        expect(document.getElementById('div1').textContent).toBe('o- two o- two');
+        editor.undo();
+        expect(document.getElementById('div1').textContent).toBe('one two one two');
+    });
+
+    it('replaces regular expression matches which depend on text around them', () => {
+        expect(replaceAll(editor, '\\bt(?=wo$)', '[$&$`$1$$]', { useRegex: true })).toBe(1);
+        expect(document.getElementById('div1').textContent).toBe(
+            'one two one [tone two one $1$]wo'
+        );
+    });
+
+    function getSelectionStart(): number {
+        let range = editor.getSelectionRange();
+        let prefix = document.createRange();
+        prefix.selectNodeContents(document.getElementById('div1'));
+        prefix.setEnd(range.startContainer, range.startOffset);
+        return prefix.toString().length;
+    }
+});
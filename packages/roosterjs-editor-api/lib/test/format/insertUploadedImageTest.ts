@@ -0,0 +1,74 @@
+import * as TestHelper from '../TestHelper';
+import insertUploadedImage, { UPLOADING_IMAGE_ATTRIBUTE } from '../../format/insertUploadedImage';
+import { Editor } from 'roosterjs-editor-core';
+
+describe('insertUploadedImage()', () => {
+    let testID = 'insertUploadedImage';
+    let url = 'http://www.example.com/image.png';
+    let editor: Editor;
+    let file: File;
+
+    beforeEach(() => {
+        editor = TestHelper.initEditor(testID);
+        editor.setContent('<div id="div1">x</div>');
+        TestHelper.setSelection(document.getElementById('div1').firstChild, 1);
+        file = new File([''], 'image.png', { type: 'image/png' });
+    });
+
+    afterEach(() => {
+        editor.dispose();
+        TestHelper.removeElement(testID);
+    });
+
+    it('replaces placeholder with uploaded image without adding undo snapshot', done => {
+        // Upload result is handled asynchronously, so the placeholder can be checked before it
+        let promise = insertUploadedImage(editor, file, () => Promise.resolve(url));
+
+        let placeholder = editor.queryElements('img')[0] as HTMLImageElement;
+        expect(placeholder.getAttribute(UPLOADING_IMAGE_ATTRIBUTE)).toBe('true');
+        expect(placeholder.src).not.toBe(url);
+
+        promise.then(image => {
+            expect(image).toBe(placeholder);
+            expect(image.src).toBe(url);
+            expect(image.hasAttribute(UPLOADING_IMAGE_ATTRIBUTE)).toBe(false);
+
+            editor.undo();
+            expect(editor.queryElements('img').length).toBe(0);
+
+            editor.redo();
+            expect(image.parentNode).toBe(document.getElementById('div1'));
+            expect(image.src).toBe(url);
+            done();
+        });
+    });
+
+    it('removes placeholder when upload fails', done => {
+        insertUploadedImage(editor, file, () => Promise.reject('error')).then(image => {
+            expect(image).toBeNull();
+            expect(editor.queryElements('img').length).toBe(0);
+            done();
+        });
+    });
+
+    it('does not bring back placeholder when undo after upload fails', done => {
+        let revokeObjectURL = spyOn(window.URL, 'revokeObjectURL').and.callThrough();
+
+        insertUploadedImage(editor, file, () => Promise.reject('error')).then(() => {
+            editor.addUndoSnapshot(() => {
+                document.getElementById('div1').appendChild(document.createTextNode('y'));
+            });
+            expect(editor.getContent()).toBe('<div id="div1">xy</div>');
+
+            editor.undo();
+            expect(editor.getContent()).toBe('<div id="div1">x</div>');
+
+            editor.undo();
+            expect(editor.getContent()).toBe('<div id="div1">x</div>');
+
+            // Preview of placeholder is kept until editor is disposed since redo can bring it back
+            expect(revokeObjectURL).not.toHaveBeenCalled();
+            done();
+        });
+    });
+});
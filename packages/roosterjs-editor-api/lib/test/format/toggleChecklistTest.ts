@@ -0,0 +1,48 @@
+import * as TestHelper from '../TestHelper';
+import getFormatState from '../../format/getFormatState';
+import toggleChecklist, { isChecked, isChecklist, setChecked } from '../../format/toggleChecklist';
+import { Editor } from 'roosterjs-editor-core';
+
+describe('toggleChecklist()', () => {
+    let testID = 'toggleChecklist';
+    let editor: Editor;
+
+    beforeEach(() => {
+        editor = TestHelper.initEditor(testID);
+    });
+
+    afterEach(() => {
+        editor.dispose();
+        TestHelper.removeElement(testID);
+    });
+
+    it('converts bullet list into checklist with unchecked items', () => {
+        editor.setContent('<ul id="list"><li id="item1">a</li><li data-checked="true">b</li></ul>');
+        TestHelper.setSelection(document.getElementById('item1').firstChild, 0);
+
+        toggleChecklist(editor);
+
+        let list = document.getElementById('list');
+        expect(isChecklist(list)).toBe(true);
+        expect(isChecked(list.firstChild)).toBe(false);
+        expect(isChecked(list.lastChild)).toBe(true);
+    });
+
+    it('keeps checked state in content and format state', () => {
+        editor.setContent(
+            '<ul data-checklist="true"><li id="item1" data-checked="false">a</li></ul>'
+        );
+        let li = document.getElementById('item1');
+        setChecked(li, true);
+        TestHelper.setSelection(li.firstChild, 0);
+
+        expect(editor.getContent()).toBe(
+            '<ul data-checklist="true"><li id="item1" data-checked="true">a</li></ul>'
+        );
+
+        let state = getFormatState(editor);
+        expect(state.isChecklist).toBe(true);
+        expect(state.isChecked).toBe(true);
+        expect(state.isBullet).toBe(false);
+    });
+});
@@ -0,0 +1,98 @@
+import domToMarkdown from '../../markdown/domToMarkdown';
+import markdownToHtml from '../../markdown/markdownToHtml';
+
+describe('markdownToHtml()', () => {
+    function runTest(markdown: string, html: string) {
+        expect(markdownToHtml(markdown)).toBe(html);
+    }
+
+    it('converts headers and paragraphs', () => {
+        runTest('# Title\n\ntext', '<h1>Title</h1><div>text</div>');
+        runTest('Title\n---', '<h2>Title</h2>');
+    });
+
+    it('converts inline formats', () => {
+        runTest(
+            '**bold** *italic* ~~strike~~ `code`',
+            '<div><strong>bold</strong> <em>italic</em> <del>strike</del> <code>code</code></div>'
+        );
+        runTest(
+            '[link](http://www.example.com "title") ![alt](image.png)',
+            '<div><a href="http://www.example.com" title="title">link</a> <img src="image.png" alt="alt"></div>'
+        );
+    });
+
+    it('converts lists and task lists', () => {
+        runTest('- a\n- b\n    - c', '<ul><li>a</li><li>b<ul><li>c</li></ul></li></ul>');
+        runTest('3. a\n4. b', '<ol start="3"><li>a</li><li>b</li></ol>');
+        runTest(
+            '- [x] done\n- [ ] todo',
+            '<ul><li><input type="checkbox" checked="">done</li><li><input type="checkbox">todo</li></ul>'
+        );
+    });
+
+    it('converts blockquote, code block and table', () => {
+        runTest('> a\n>\n> b', '<blockquote><div>a</div><div>b</div></blockquote>');
+        runTest('```js\na < b\n```', '<pre><code class="language-js">a &lt; b</code></pre>');
+        runTest(
+            '| a | b |\n| --- | ---: |\n| 1 | 2 |',
+            '<table><thead><tr><th>a</th><th style="text-align:right">b</th></tr></thead><tbody><tr><td>1</td><td style="text-align:right">2</td></tr></tbody></table>'
+        );
+    });
+
+    it('sanitizes inline HTML', () => {
+        runTest('a<script>alert(1)</script>', '<div>a</div>');
+        runTest('[a](javascript:alert(1))', '<div><a>a</a></div>');
+    });
+});
+
+describe('domToMarkdown()', () => {
+    function runTest(html: string, markdown: string) {
+        let div = document.createElement('div');
+        div.innerHTML = html;
+        expect(domToMarkdown(div)).toBe(markdown);
+    }
+
+    it('converts blocks', () => {
+        runTest('<div>line 1</div><div>line 2</div>', 'line 1\n\nline 2');
+        runTest('<h2>Title</h2><div>text<br>more</div>', '## Title\n\ntext\\\nmore');
+        runTest('<blockquote><div>a</div><div>b</div></blockquote>', '> a\n>\n> b');
+        runTest('<pre><code>a\n`b`</code></pre>', '```\na\n`b`\n```');
+    });
+
+    it('converts inline formats', () => {
+        runTest(
+            '<div><b>bold</b> <i>italic </i><strike>strike</strike> <code>code</code></div>',
+            '**bold** *italic* ~~strike~~ `code`'
+        );
+        runTest(
+            '<div><a href="http://www.example.com">link</a><img src="image.png" alt="alt"></div>',
+            '[link](http://www.example.com)![alt](image.png)'
+        );
+        runTest('<div>1. not a list *</div>', '1\\. not a list \\*');
+    });
+
+    it('converts lists', () => {
+        runTest('<ul><li>a</li><li>b<ul><li>c</li></ul></li></ul>', '- a\n- b\n  - c');
+        runTest('<ol start="3"><li>a</li><ol><li>b</li></ol></ol>', '3. a\n    1. b');
+        runTest(
+            '<ul><li><input type="checkbox" checked>done</li><li><input type="checkbox">todo</li></ul>',
+            '- [x] done\n- [ ] todo'
+        );
+    });
+
+    it('converts table', () => {
+        runTest(
+            '<table><tr><td>a</td><td style="text-align:center">b|c</td></tr><tr><td>1</td><td><div>2</div></td></tr></table>',
+            '| a | b\\|c |\n| --- | :---: |\n| 1 | 2 |'
+        );
+        runTest('<table><tr><td><code>a|b</code></td></tr></table>', '| `a\\|b` |\n| --- |');
+    });
+
+    it('round trips', () => {
+        let markdown = '# Title\n\n- **a**\n- [b](http://b.com)\n\n> quote\n\n```\ncode\n```';
+        let div = document.createElement('div');
+        div.innerHTML = markdownToHtml(markdown);
+        expect(domToMarkdown(div)).toBe(markdown);
+    });
+});
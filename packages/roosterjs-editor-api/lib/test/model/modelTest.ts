@@ -0,0 +1,231 @@
+import domToModel from '../../model/domToModel';
+import fromModel from '../../model/fromModel';
+import { ContentModelDocument } from 'roosterjs-editor-types';
+
+describe('domToModel()', () => {
+    it('reads inline formats and merges text runs with same format', () => {
+        expect(
+            toModel('<div>a<b>b<i>c</i></b><span style="font-weight: bold">d</span><br></div>')
+        ).toEqual({
+            blocks: [
+                {
+                    type: 'paragraph',
+                    tagName: 'DIV',
+                    format: {},
+                    inlines: [
+                        { type: 'text', text: 'a', format: {} },
+                        { type: 'text', text: 'b', format: { isBold: true } },
+                        { type: 'text', text: 'c', format: { isBold: true, isItalic: true } },
+                        { type: 'text', text: 'd', format: { isBold: true } },
+                        { type: 'br' },
+                    ],
+                },
+            ],
+        });
+    });
+
+    it('reads links, images and text directly under root', () => {
+        expect(
+            toModel('<a href="http://a.com" title="t">x</a><img src="a.png" width="10">')
+        ).toEqual({
+            blocks: [
+                {
+                    type: 'paragraph',
+                    format: {},
+                    inlines: [
+                        {
+                            type: 'link',
+                            href: 'http://a.com',
+                            title: 't',
+                            inlines: [{ type: 'text', text: 'x', format: {} }],
+                        },
+                        { type: 'image', src: 'a.png', width: '10' },
+                    ],
+                },
+            ],
+        });
+    });
+
+    it('reads lists with nested list outside of list item', () => {
+        expect(toModel('<ol><li>a</li><ul><li>b</li></ul></ol>')).toEqual({
+            blocks: [
+                {
+                    type: 'list',
+                    isNumbering: true,
+                    format: {},
+                    items: [
+                        {
+                            format: {},
+                            blocks: [
+                                {
+                                    type: 'paragraph',
+                                    format: {},
+                                    inlines: [{ type: 'text', text: 'a', format: {} }],
+                                },
+                                {
+                                    type: 'list',
+                                    isNumbering: false,
+                                    format: {},
+                                    items: [
+                                        {
+                                            format: {},
+                                            blocks: [
+                                                {
+                                                    type: 'paragraph',
+                                                    format: {},
+                                                    inlines: [
+                                                        { type: 'text', text: 'b', format: {} },
+                                                    ],
+                                                },
+                                            ],
+                                        },
+                                    ],
+                                },
+                            ],
+                        },
+                    ],
+                },
+            ],
+        });
+    });
+
+    it('reads tables as virtual cells', () => {
+        let model = toModel(
+            '<table><tr><td colspan="2">a</td></tr><tr><th>b</th><td></td></tr></table>'
+        );
+        let table = model.blocks[0];
+        expect(table.type).toBe('table');
+        if (table.type == 'table') {
+            expect(
+                table.rows.map(row => row.cells.map(cell => [cell.spanLeft, cell.isHeader]))
+            ).toEqual([[[false, false], [true, false]], [[false, true], [false, false]]]);
+        }
+    });
+});
+
+describe('fromModel()', () => {
+    function runRoundTripTest(html: string) {
+        let model = toModel(html);
+        expect(toModel(fromModel(model))).toEqual(model);
+        expect(JSON.parse(JSON.stringify(model))).toEqual(model);
+    }
+
+    it('round trips text formats', () => {
+        runRoundTripTest(
+            '<div style="font-family: Arial; font-size: 12pt; color: red">' +
+                '<b>a</b><i>b</i><u>c</u><strike>d</strike><sub>e</sub><sup>f</sup>' +
+                '<span style="background-color: yellow">g</span></div>'
+        );
+    });
+
+    it('round trips block formats, headers, quotes and code', () => {
+        runRoundTripTest(
+            '<h1 dir="rtl" style="text-align: right">a</h1>' +
+                '<blockquote style="border-left: 3px solid #C8C8C8; padding-left: 10px"><div>b</div></blockquote>' +
+                '<pre><code>c<br>d</code></pre>'
+        );
+    });
+
+    it('round trips lists, links and images', () => {
+        runRoundTripTest(
+            '<ul><li>a<ol><li><a href="#b" target="_blank">b</a></li></ol></li></ul>' +
+                '<div><img src="a.png" alt="a" style="width: 10px; max-width: 100%"></div>'
+        );
+    });
+
+    it('round trips checklists and numbering list styles', () => {
+        let html =
+            '<ol start="3" style="list-style-type: lower-alpha;"><li>a</li></ol>' +
+            '<ul data-checklist="true"><li data-checked="true">b</li><li data-checked="false">c</li></ul>';
+        let model = toModel(html);
+
+        expect(model.blocks.map(list => list.type == 'list' && list.items.length)).toEqual([1, 2]);
+        expect(model.blocks[0]).toEqual(
+            jasmine.objectContaining({ start: 3, listStyleType: 'lower-alpha' })
+        );
+        expect(model.blocks[1]).toEqual(jasmine.objectContaining({ isChecklist: true }));
+        expect(fromModel(model)).toBe(html);
+        runRoundTripTest(html);
+    });
+
+    it('round trips tables with merged cells', () => {
+        runRoundTripTest(
+            '<table style="border-collapse: collapse"><tr style="background-color: red">' +
+                '<th rowspan="2" colspan="2">a</th><td>b</td></tr><tr><td style="vertical-align: top">c</td></tr>' +
+                '<tr><td>d</td><td>e</td><td>f</td></tr></table>'
+        );
+    });
+
+    it('creates HTML from model', () => {
+        let model: ContentModelDocument = {
+            blocks: [
+                {
+                    type: 'paragraph',
+                    tagName: 'DIV',
+                    format: { textAlign: 'center' },
+                    inlines: [
+                        { type: 'text', text: 'a', format: { isBold: true, textColor: 'red' } },
+                    ],
+                },
+            ],
+        };
+        expect(fromModel(model)).toBe(
+            '<div style="text-align: center;"><span style="color: red;"><b>a</b></span></div>'
+        );
+    });
+
+    it('does not create unknown tags or unsafe URLs from model', () => {
+        let model: ContentModelDocument = {
+            blocks: [
+                {
+                    type: 'paragraph',
+                    tagName: 'script',
+                    format: {},
+                    inlines: [
+                        {
+                            type: 'link',
+                            href: 'javascr\nipt:alert(1)',
+                            inlines: [{ type: 'text', text: 'a', format: {} }],
+                        },
+                        { type: 'image', src: ' javascript:alert(1)' },
+                    ],
+                },
+                {
+                    type: 'group',
+                    tagName: 'iframe',
+                    format: {},
+                    blocks: [
+                        {
+                            type: 'paragraph',
+                            tagName: 'P',
+                            format: {},
+                            inlines: [
+                                { type: 'link', href: 'http://a.com', inlines: [] },
+                                { type: 'image', src: 'a.png' },
+                            ],
+                        },
+                    ],
+                },
+            ],
+        };
+        expect(fromModel(model)).toBe(
+            '<div><a>a</a><img></div><div><p><a href="http://a.com"></a><img src="a.png"></p></div>'
+        );
+    });
+
+    it('creates links and images without URL from model', () => {
+        // Model may come from JSON which doesn't have all the required properties
+        let model: ContentModelDocument = JSON.parse(
+            '{"blocks":[{"type":"paragraph","tagName":"DIV","format":{},"inlines":[' +
+                '{"type":"link","inlines":[{"type":"text","text":"a","format":{}}]},' +
+                '{"type":"image"}]}]}'
+        );
+        expect(fromModel(model)).toBe('<div><a>a</a><img></div>');
+    });
+});
+
+function toModel(html: string): ContentModelDocument {
+    let div = document.createElement('div');
+    div.innerHTML = html;
+    return domToModel(div);
+}
@@ -0,0 +1,69 @@
+import * as TestHelper from '../TestHelper';
+import editTable from '../../table/editTable';
+import { Editor } from 'roosterjs-editor-core';
+import { TableOperation } from 'roosterjs-editor-types';
+
+describe('editTable() sort', () => {
+    let testID = 'editTableSort';
+    let editor: Editor;
+
+    beforeEach(() => {
+        editor = TestHelper.initEditor(testID);
+    });
+
+    afterEach(() => {
+        editor.dispose();
+        TestHelper.removeElement(testID);
+    });
+
+    it('sorts text ascending and keeps header row', () => {
+        runTest(['<th>Name</th>', 'b', 'c', 'a'], TableOperation.SortAscending, [
+            'Name',
+            'a',
+            'b',
+            'c',
+        ]);
+    });
+
+    it('sorts numbers descending and puts empty cells at the end', () => {
+        runTest(['10', '', '9', '1,000'], TableOperation.SortDescending, ['1,000', '10', '9', '']);
+    });
+
+    it('sorts dates', () => {
+        runTest(['2019/03/01', '2018/12/31', '2019/01/15'], TableOperation.SortAscending, [
+            '2018/12/31',
+            '2019/01/15',
+            '2019/03/01',
+        ]);
+    });
+
+    it('does not sort when rows are merged', () => {
+        editor.setContent(
+            '<table><tr><td id="cell">b</td><td rowspan="2">x</td></tr><tr><td>a</td></tr></table>'
+        );
+        editor.select(document.getElementById('cell'), 0);
+        expect(editTable(editor, TableOperation.SortAscending)).toBe(false);
+        expect(getColumnTexts()).toEqual(['b', 'a']);
+    });
+
+    function runTest(cells: string[], operation: TableOperation, expected: string[]) {
+        editor.setContent(
+            '<table>' +
+                cells
+                    .map(
+                        (cell, i) =>
+                            `<tr>${cell[0] == '<' ? cell : `<td id="cell${i}">${cell}</td>`}</tr>`
+                    )
+                    .join('') +
+                '</table>'
+        );
+        editor.select(document.getElementById('cell1'), 0);
+        expect(editTable(editor, operation)).toBe(true);
+        expect(getColumnTexts()).toEqual(expected);
+    }
+
+    function getColumnTexts() {
+        let table = document.getElementById(testID).querySelector('table');
+        return [].map.call(table.rows, (row: HTMLTableRowElement) => row.cells[0].textContent);
+    }
+});
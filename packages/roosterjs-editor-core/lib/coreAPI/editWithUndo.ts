@@ -1,20 +1,28 @@
 import EditorCore, { EditWithUndo } from '../editor/EditorCore';
 import { ChangeSource, ContentChangedEvent, PluginEventType } from 'roosterjs-editor-types';
-import { Position } from 'roosterjs-editor-dom';
+import { Browser, Position, markSelection, removeMarker } from 'roosterjs-editor-dom';
 
 const editWithUndo: EditWithUndo = (
     core: EditorCore,
     callback: (start: Position, end: Position, snapshotBeforeCallback: string) => any,
-    changeSource: ChangeSource | string
+    changeSource: ChangeSource | string,
+    getSnapshotBeforeCallback?: boolean
 ) => {
     let isNested = core.currentUndoSnapshot !== null;
 
     if (!isNested) {
-        core.currentUndoSnapshot = core.undo.addUndoSnapshot();
+        core.currentUndoSnapshot = core.undo.addUndoSnapshot() || '';
     }
 
     try {
         if (callback) {
+            // Serializing the whole content is expensive, only do it when it is requested and the
+            // undo service doesn't provide it. For a nested call this is the content when the nested
+            // callback is invoked
+            if (!core.currentUndoSnapshot && getSnapshotBeforeCallback) {
+                core.currentUndoSnapshot = getContentWithSelectionMarker(core);
+            }
+
             let range = core.api.getSelectionRange(core, true /*tryGetFromCache*/);
             let data = callback(
                 range && Position.getStart(range).normalize(),
@@ -42,4 +50,34 @@ const editWithUndo: EditWithUndo = (
     }
 };
 
+function getContentWithSelectionMarker(core: EditorCore): string {
+    let content: string;
+    let getContent = () => {
+        let range = core.api.getSelectionRange(core, true /*tryGetFromCache*/);
+        let selectionMarked = markSelection(core.contentDiv, range, false /*useInlineMarker*/);
+
+        content = core.contentDiv.innerHTML;
+
+        if (selectionMarked) {
+            // In safari the selection will be lost after inserting markers, so need to restore it
+            core.api.select(
+                core,
+                removeMarker(
+                    core.contentDiv,
+                    Browser.isSafari || Browser.isChrome /*applySelection*/
+                )
+            );
+        }
+    };
+
+    // Selection markers are only added temporarily, they should not be recorded as content changes
+    if (core.undo.ignoreChanges) {
+        core.undo.ignoreChanges(getContent);
+    } else {
+        getContent();
+    }
+
+    return content;
+}
+
 export default editWithUndo;
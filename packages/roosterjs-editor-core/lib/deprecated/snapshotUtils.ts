@@ -13,5 +13,5 @@ export function buildSnapshot(editor: Editor): string {
  * Restore a snapshot
  */
 export function restoreSnapshot(editor: Editor, snapshot: string): void {
-    editor.setContent(snapshot);
+    editor.setContent(snapshot, true /*triggerContentChangedEvent*/, false /*sanitize*/);
 }
@@ -20,12 +20,14 @@ import {
 } from 'roosterjs-editor-dom';
 
 const KEY_BACKSPACE = 8;
+const DEFAULT_IDLE_EVENT_TIME_SPAN = 1000;
 
 /**
  * Provides core editing feature for editor:
  * 1. AutoComplete
  * 2. Ensure typing under HTMLElement
  * 3. IME state
+ * 4. Idle event
  */
 export default class CorePlugin implements EditorPlugin {
     public name = 'CorePlugin';
@@ -34,15 +36,18 @@ export default class CorePlugin implements EditorPlugin {
     private inIME: boolean;
     private disposers: (() => void)[] = null;
     private mouseUpEventListerAdded: boolean;
+    private idleTimer: number;
 
     /**
      * Creates an instance of Core plugin
      * @param contentDiv The DIV HTML element which will be the container element of editor
      * @param disableRestoreSelectionOnFocus Whether auto restore previous selection when focus to editor
+     * @param idleEventTimeSpan Time span in milliseconds of no user input before triggering Idle event
      */
     constructor(
         private contentDiv: HTMLDivElement,
-        private disableRestoreSelectionOnFocus: boolean
+        private disableRestoreSelectionOnFocus: boolean,
+        private idleEventTimeSpan: number = DEFAULT_IDLE_EVENT_TIME_SPAN
     ) {}
 
     /**
@@ -75,6 +80,7 @@ export default class CorePlugin implements EditorPlugin {
      */
     public dispose() {
         this.removeMouseUpEventListener();
+        this.stopIdleTimer();
 
         if (this.disposers) {
             this.disposers.forEach(disposer => disposer && disposer());
@@ -99,11 +105,15 @@ export default class CorePlugin implements EditorPlugin {
      * @param changeSource Chagne source of ContentChangedEvent. If not passed, no ContentChangedEvent will be  triggered
      */
     public performAutoComplete(callback: () => any, changeSource?: ChangeSource) {
-        this.editor.addUndoSnapshot((start, end, snapshot) => {
-            let data = callback();
-            this.snapshotBeforeAutoComplete = snapshot;
-            return data;
-        }, changeSource);
+        this.editor.addUndoSnapshot(
+            (start, end, snapshot) => {
+                let data = callback();
+                this.snapshotBeforeAutoComplete = snapshot;
+                return data;
+            },
+            changeSource,
+            true /*getSnapshotBeforeCallback*/
+        );
     }
 
     /**
@@ -151,12 +161,20 @@ export default class CorePlugin implements EditorPlugin {
             case PluginEventType.ContentChanged:
             case PluginEventType.MouseDown:
                 this.onContentChanged();
+                this.startIdleTimer();
                 break;
             case PluginEventType.KeyDown:
                 this.onContentChanged(event.rawEvent);
+                this.startIdleTimer();
                 break;
             case PluginEventType.KeyPress:
                 this.onKeyPress();
+                this.startIdleTimer();
+                break;
+            case PluginEventType.KeyUp:
+            case PluginEventType.MouseUp:
+            case PluginEventType.CompositionEnd:
+                this.startIdleTimer();
                 break;
         }
     }
@@ -182,7 +200,8 @@ export default class CorePlugin implements EditorPlugin {
             event.preventDefault();
             this.editor.setContent(
                 this.snapshotBeforeAutoComplete,
-                false /*triggerContentChangedEvent*/
+                false /*triggerContentChangedEvent*/,
+                false /*sanitize*/
             );
         }
         this.snapshotBeforeAutoComplete = null;
@@ -223,6 +242,29 @@ export default class CorePlugin implements EditorPlugin {
         }
     };
 
+    private startIdleTimer() {
+        this.stopIdleTimer();
+        if (this.idleEventTimeSpan > 0) {
+            this.idleTimer = this.editor
+                .getDocument()
+                .defaultView.setTimeout(this.onIdle, this.idleEventTimeSpan);
+        }
+    }
+
+    private stopIdleTimer() {
+        if (this.idleTimer) {
+            this.editor.getDocument().defaultView.clearTimeout(this.idleTimer);
+            this.idleTimer = null;
+        }
+    }
+
+    private onIdle = () => {
+        this.idleTimer = null;
+        if (this.editor && !this.editor.isDisposed()) {
+            this.editor.triggerEvent({ eventType: PluginEventType.Idle });
+        }
+    };
+
     private removeMouseUpEventListener() {
         if (this.mouseUpEventListerAdded) {
             this.mouseUpEventListerAdded = false;
@@ -5,6 +5,7 @@ import {
     BlockElement,
     ChangeSource,
     ContentPosition,
+    ContentSanitizedEvent,
     ContentScope,
     DefaultFormat,
     DocumentCommand,
@@ -17,6 +18,7 @@ import {
     QueryScope,
     Rect,
     NodeType,
+    SanitizeRemovedItem,
 } from 'roosterjs-editor-types';
 import {
     Browser,
@@ -33,6 +35,7 @@ import {
     queryElements,
     removeMarker,
     collapseNodes,
+    sanitizeHtml,
     wrap,
 } from 'roosterjs-editor-dom';
 
@@ -64,7 +67,14 @@ export default class Editor {
         this.core.plugins.forEach(plugin => plugin.initialize(this));
 
         // 4. Ensure initial content and its format
-        this.setContent(options.initialContent || contentDiv.innerHTML || '');
+        this.setContent(
+            this.sanitizeContent(
+                options.initialContent || contentDiv.innerHTML || '',
+                'initialContent'
+            ),
+            true /*triggerContentChangedEvent*/,
+            false /*sanitize*/
+        );
         this.core.corePlugin.ensureTypeInElement(new Position(contentDiv, PositionType.Begin));
 
         // 5. Create event handler to bind DOM events
@@ -354,8 +364,18 @@ export default class Editor {
      * Set HTML content to this editor. All existing content will be replaced. A ContentChanged event will be triggered
      * @param content HTML content to set in
      * @param triggerContentChangedEvent True to trigger a ContentChanged event. Default value is true
+     * @param sanitize Whether sanitize the content with EditorOptions.sanitizePolicy if it is specified.
+     * Set to false when restoring a snapshot taken from this editor. Default value is true
      */
-    public setContent(content: string, triggerContentChangedEvent: boolean = true) {
+    public setContent(
+        content: string,
+        triggerContentChangedEvent: boolean = true,
+        sanitize: boolean = true
+    ) {
+        if (sanitize) {
+            content = this.sanitizeContent(content, 'setContent');
+        }
+
         if (this.core.contentDiv.innerHTML != content) {
             this.core.contentDiv.innerHTML = content || '';
 
@@ -377,6 +397,7 @@ export default class Editor {
      *  insertOnNewLine: false
      */
     public insertContent(content: string, option?: InsertOption) {
+        content = this.sanitizeContent(content, 'insertContent');
         if (content) {
             let allNodes = fromHtml(content, this.core.document);
             // If it is to insert on new line, and there are more than one node in the collection, wrap all nodes with
@@ -391,6 +412,38 @@ export default class Editor {
         }
     }
 
+    private sanitizeContent(content: string, source: string): string {
+        let policy = this.core.sanitizePolicy;
+        if (!policy || !content) {
+            return content;
+        }
+
+        let removedItems: SanitizeRemovedItem[] = [];
+        let result = sanitizeHtml(
+            content,
+            null /*additionalStyleNodes*/,
+            false /*convertInlineCssOnly*/,
+            null /*propertyCallbacks*/,
+            false /*preserveFragmentOnly*/,
+            null /*currentStyle*/,
+            policy,
+            removedItems
+        );
+
+        if (removedItems.length > 0) {
+            let event: ContentSanitizedEvent = {
+                eventType: PluginEventType.ContentSanitized,
+                source: source,
+                originalContent: content,
+                content: result,
+                removedItems: removedItems,
+            };
+            this.triggerEvent(event, true /*broadcast*/);
+        }
+
+        return result;
+    }
+
     //#endregion
 
     //#region Focus and Selection
@@ -555,6 +608,22 @@ export default class Editor {
         );
     }
 
+    /**
+     * Observe DOM changes inside editor using a MutationObserver.
+     * Caller need to take the responsibility to disconnect the observer properly
+     * @param callback The callback to receive mutation records
+     * @param options Options of the observer, e.g. what kind of changes to observe
+     * @returns The MutationObserver object which is already observing the content of editor
+     */
+    public observeMutations(
+        callback: (records: MutationRecord[]) => void,
+        options: MutationObserverInit
+    ): MutationObserver {
+        let observer = new MutationObserver(callback);
+        observer.observe(this.core.contentDiv, options);
+        return observer;
+    }
+
     /**
      * Trigger an event to be dispatched to all plugins
      * @param pluginEvent The event object to trigger
@@ -609,12 +678,51 @@ export default class Editor {
      * the data field in ContentChangedEvent if changeSource is not null.
      * @param changeSource The change source to use when fire ContentChangedEvent. When the value is not null,
      * a ContentChangedEvent will be fired with change source equal to this value
+     * @param getSnapshotBeforeCallback True to pass the content with selection markers before callback is
+     * invoked as the snapshotBeforeCallback parameter of callback. Otherwise the parameter can be an empty
+     * string, since undo snapshots may not keep the whole content. Default value is false
      */
     public addUndoSnapshot(
         callback?: (start: Position, end: Position, snapshotBeforeCallback: string) => any,
-        changeSource?: ChangeSource | string
+        changeSource?: ChangeSource | string,
+        getSnapshotBeforeCallback?: boolean
     ) {
-        this.core.api.editWithUndo(this.core, callback, changeSource);
+        this.core.api.editWithUndo(this.core, callback, changeSource, getSnapshotBeforeCallback);
+    }
+
+    /**
+     * Execute a callback function to change content, and merge the changes into the last undo snapshot
+     * instead of adding a new one, then trigger ContentChangedEvent with given change source. This is
+     * used to adjust the result of the last edit operation, e.g. replacing the content just pasted with
+     * another paste option, so that they can be undone together.
+     * If this function is called nested inside addUndoSnapshot(), or the undo service doesn't support
+     * merging changes, it works in the same way as addUndoSnapshot()
+     * @param callback The callback function to change content, returns a data object which will be used
+     * as the data field in ContentChangedEvent if changeSource is not null.
+     * @param changeSource The change source to use when fire ContentChangedEvent. When the value is not null,
+     * a ContentChangedEvent will be fired with change source equal to this value
+     */
+    public editInLastUndoSnapshot(callback: () => any, changeSource?: ChangeSource | string) {
+        if (!this.core.undo.mergeChanges || this.core.currentUndoSnapshot !== null) {
+            this.addUndoSnapshot(callback, changeSource);
+            return;
+        }
+
+        let data: any;
+
+        try {
+            // Let nested addUndoSnapshot() calls know that undo snapshot is already handled
+            this.core.currentUndoSnapshot = '';
+            this.core.undo.mergeChanges(() => {
+                data = callback();
+            });
+        } finally {
+            this.core.currentUndoSnapshot = null;
+        }
+
+        if (changeSource) {
+            this.triggerContentChangedEvent(changeSource, data);
+        }
     }
 
     /**
@@ -627,6 +735,22 @@ export default class Editor {
         this.core.corePlugin.performAutoComplete(callback, changeSource);
     }
 
+    /**
+     * Change content without recording the changes into undo snapshots, so that the changes are kept
+     * when undo or redo, e.g. replacing the source of a placeholder image once it is uploaded.
+     * Only use this for changes which don't depend on content changed by other undo snapshots,
+     * such as attributes of an existing element, otherwise undo and redo may not work correctly.
+     * If the undo service doesn't support this, the changes will be recorded as normal
+     * @param callback The callback to change content
+     */
+    public editWithoutUndo(callback: () => void) {
+        if (this.core.undo.ignoreChanges) {
+            this.core.undo.ignoreChanges(callback);
+        } else {
+            callback();
+        }
+    }
+
     /**
      * Whether there is an available undo snapshot
      */
@@ -7,6 +7,7 @@ import {
     InsertOption,
     PluginEvent,
     PluginEventType,
+    SanitizePolicy,
 } from 'roosterjs-editor-types';
 import { Position } from 'roosterjs-editor-dom';
 
@@ -34,6 +35,11 @@ interface EditorCore {
      */
     readonly defaultFormat: DefaultFormat;
 
+    /**
+     * The policy to sanitize HTML passed into editor, or null if it is not sanitized
+     */
+    readonly sanitizePolicy: SanitizePolicy;
+
     /**
      * Core plugin of this editor
      */
@@ -66,6 +72,8 @@ interface EditorCore {
 
     /**
      * The undo snapshot taken by addUndoSnapshot() before callback function is invoked.
+     * It is null when addUndoSnapshot() is not running, and an empty string when the undo service
+     * doesn't return content and no callback has asked for the content yet
      */
     currentUndoSnapshot: string;
 
@@ -86,7 +94,8 @@ export type AttachDomEvent = (
 export type EditWithUndo = (
     core: EditorCore,
     callback: (start: Position, end: Position, snapshotBeforeCallback: string) => any,
-    changeSource: ChangeSource | string
+    changeSource: ChangeSource | string,
+    getSnapshotBeforeCallback?: boolean
 ) => void;
 export type Focus = (core: EditorCore) => void;
 export type GetCustomData = <T>(
@@ -117,6 +126,8 @@ export interface CoreApiMap {
      * @param core The EditorCore object
      * @param callback The editing callback, accepting current selection start and end position, returns an optional object used as the data field of ContentChangedEvent.
      * @param changeSource The ChangeSource string of ContentChangedEvent. @default ChangeSource.Format. Set to null to avoid triggering ContentChangedEvent
+     * @param getSnapshotBeforeCallback True to pass the content with selection markers before callback is invoked as the snapshotBeforeCallback parameter of callback.
+     * Otherwise the parameter can be an empty string, since undo snapshots may not keep the whole content
      */
     editWithUndo: EditWithUndo;
 
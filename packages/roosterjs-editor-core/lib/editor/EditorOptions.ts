@@ -1,7 +1,7 @@
 import EditorPlugin from './EditorPlugin';
 import UndoService from './UndoService';
 import { CoreApiMap } from './EditorCore';
-import { DefaultFormat } from 'roosterjs-editor-types';
+import { DefaultFormat, SanitizePolicy } from 'roosterjs-editor-types';
 
 /**
  * The options to specify parameters customizing an editor, used by ctor of Editor class
@@ -34,6 +34,14 @@ interface EditorOptions {
      */
     initialContent?: string;
 
+    /**
+     * The policy to sanitize HTML passed into editor by initialContent, setContent() and insertContent().
+     * A ContentSanitized event is triggered when anything is removed. Snapshots restored by setContent()
+     * with sanitize set to false are not sanitized. Use createSanitizePolicy() to get a predefined policy.
+     * Default value is null, which means HTML is not sanitized
+     */
+    sanitizePolicy?: SanitizePolicy;
+
     /**
      * Whether auto restore previous selection when focus to editor
      * Default value is false
@@ -46,6 +54,13 @@ interface EditorOptions {
      */
     omitContentEditableAttributeChanges?: boolean;
 
+    /**
+     * Time span in milliseconds of no user input before an Idle event is triggered.
+     * Set to 0 to disable Idle event.
+     * Default value is 1000
+     */
+    idleEventTimeSpan?: number;
+
     /**
      * A function map to override default core API implementation
      * Default value is null
@@ -18,6 +18,8 @@ interface UndoService extends EditorPlugin {
      * Add an undo snapshot for current content inside editor
      * This method will not trigger ExtractContent event, so any temporary content will be
      * added into undo snapshot
+     * @returns The HTML content with selection markers of the snapshot, or null if the snapshot
+     * doesn't keep the whole content. Editor will get the content itself when it is needed
      */
     addUndoSnapshot: () => string;
 
@@ -35,6 +37,18 @@ interface UndoService extends EditorPlugin {
      * Clear all existing undo snapshots
      */
     clear: () => void;
+
+    /**
+     * (Optional) Run a callback to change content, the changes made by the callback are not
+     * recorded into any undo snapshot, so they will be kept when undo or redo
+     */
+    ignoreChanges?: (callback: () => void) => void;
+
+    /**
+     * (Optional) Run a callback to change content, the changes made by the callback are merged into
+     * the current undo snapshot instead of a new one, so they will be undone together with it
+     */
+    mergeChanges?: (callback: () => void) => void;
 }
 
 export default UndoService;
@@ -19,11 +19,16 @@ export default function createEditorCore(
     options: EditorOptions
 ): EditorCore {
     let undo = options.undo || new Undo();
-    let corePlugin = new CorePlugin(contentDiv, options.disableRestoreSelectionOnFocus);
+    let corePlugin = new CorePlugin(
+        contentDiv,
+        options.disableRestoreSelectionOnFocus,
+        options.idleEventTimeSpan
+    );
     return {
         contentDiv,
         document: contentDiv.ownerDocument,
         defaultFormat: calcDefaultFormat(contentDiv, options.defaultFormat),
+        sanitizePolicy: options.sanitizePolicy || null,
         corePlugin,
         undo,
         currentUndoSnapshot: null,
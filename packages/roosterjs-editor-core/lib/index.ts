@@ -16,7 +16,8 @@ export {
 export { default as EditorOptions } from './editor/EditorOptions';
 export { default as EditorPlugin } from './editor/EditorPlugin';
 export { default as Undo } from './undo/Undo';
-export { default as UndoSnapshotsService } from './undo/UndoSnapshots';
+export { default as UndoSnapshotsService, UndoSnapshot } from './undo/UndoSnapshots';
+export { DomChange } from './undo/DomChanges';
 export { default as UndoService } from './editor/UndoService';
 export { default as browserData, BrowserData } from './deprecated/BrowserData';
 export { default as cacheGetEventData } from './eventApi/cacheGetEventData';
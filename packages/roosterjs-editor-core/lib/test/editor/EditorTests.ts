@@ -1,6 +1,12 @@
 import Editor from '../../editor/Editor';
 import * as TestHelper from '../TestHelper';
-import { ContentPosition } from 'roosterjs-editor-types';
+import {
+    ContentPosition,
+    ContentSanitizedEvent,
+    PluginEvent,
+    PluginEventType,
+} from 'roosterjs-editor-types';
+import { createSanitizePolicy } from 'roosterjs-editor-dom';
 import * as getSelectionRange from '../../coreAPI/getSelectionRange';
 
 let editor: Editor;
@@ -66,6 +72,91 @@ describe('Editor setContent()', () => {
     });
 });
 
+describe('Editor sanitizePolicy', () => {
+    let events: ContentSanitizedEvent[];
+
+    beforeEach(() => {
+        let node = document.createElement('div');
+        node.id = testID;
+        document.body.insertBefore(node, document.body.childNodes[0]);
+
+        events = [];
+        editor = new Editor(node, {
+            initialContent: '<div id="div1">initial</div>',
+            sanitizePolicy: createSanitizePolicy(),
+            plugins: [
+                {
+                    initialize: () => {},
+                    dispose: () => {},
+                    onPluginEvent: (event: PluginEvent) => {
+                        if (event.eventType == PluginEventType.ContentSanitized) {
+                            events.push(event);
+                        }
+                    },
+                },
+            ],
+        });
+    });
+
+    afterEach(() => {
+        editor.dispose();
+        TestHelper.removeElement(testID);
+    });
+
+    it('sanitizes initial content', () => {
+        expect(editor.getContent()).toBe('<div>initial</div>');
+        expect(events.length).toBe(1);
+        expect(events[0].source).toBe('initialContent');
+        expect(events[0].removedItems).toEqual([
+            { tag: 'DIV', attribute: 'id', cssProperty: null, value: 'div1' },
+        ]);
+    });
+
+    it('sanitizes content of setContent() and reports removed items', () => {
+        events = [];
+        editor.setContent('<div onclick="alert(1)">a<script>b</script></div>');
+
+        expect(editor.getContent()).toBe('<div>a</div>');
+        expect(events.length).toBe(1);
+        expect(events[0].source).toBe('setContent');
+        expect(events[0].originalContent).toBe('<div onclick="alert(1)">a<script>b</script></div>');
+        expect(events[0].content).toBe('<div>a</div>');
+        expect(events[0].removedItems).toEqual([
+            { tag: 'DIV', attribute: 'onclick', cssProperty: null, value: 'alert(1)' },
+            { tag: 'SCRIPT', attribute: null, cssProperty: null, value: null },
+        ]);
+    });
+
+    it('does not sanitize snapshot', () => {
+        events = [];
+        editor.setContent(
+            '<div id="div2">a</div>',
+            true /*triggerContentChangedEvent*/,
+            false /*sanitize*/
+        );
+
+        expect(editor.getContent()).toBe('<div id="div2">a</div>');
+        expect(events.length).toBe(0);
+    });
+
+    it('sanitizes content of insertContent()', () => {
+        events = [];
+        editor.insertContent('<span style="position:absolute">b</span>', {
+            position: ContentPosition.End,
+            updateCursor: false,
+            replaceSelection: false,
+            insertOnNewLine: false,
+        });
+
+        expect(editor.getContent()).toContain('<span>b</span>');
+        expect(events.length).toBe(1);
+        expect(events[0].source).toBe('insertContent');
+        expect(events[0].removedItems).toEqual([
+            { tag: 'SPAN', attribute: null, cssProperty: 'position', value: 'absolute' },
+        ]);
+    });
+});
+
 describe('Editor insertContent()', () => {
     let originalContent = '<div id="text">text</div>';
 
@@ -427,3 +518,72 @@ describe('Editor contains()', () => {
         expect(containsNode).toBe(false);
     });
 });
+
+describe('Editor addUndoSnapshot()', () => {
+    beforeEach(() => {
+        editor = TestHelper.initEditor(testID);
+        editor.setContent('<div id="div1">text</div>');
+        editor.focus();
+        editor.select(document.getElementById('div1').firstChild, 2);
+    });
+
+    afterEach(() => {
+        editor.dispose();
+        TestHelper.removeElement(testID);
+    });
+
+    it('does not get content when snapshot is not requested', () => {
+        // Arrange
+        let getContent = spyOn(editor, 'getContent').and.callThrough();
+        let snapshot: string = null;
+
+        // Act
+        editor.addUndoSnapshot((start, end, snapshotBeforeCallback) => {
+            snapshot = snapshotBeforeCallback;
+            document.getElementById('div1').textContent = 'changed';
+        });
+
+        // Assert
+        expect(getContent).not.toHaveBeenCalled();
+        expect(snapshot).toBe('');
+        expect(document.getElementById('div1').textContent).toBe('changed');
+    });
+
+    it('passes snapshot with selection markers to callback and keeps content unchanged', () => {
+        // Arrange
+        let snapshot: string = null;
+
+        // Act
+        editor.addUndoSnapshot(
+            (start, end, snapshotBeforeCallback) => {
+                snapshot = snapshotBeforeCallback;
+                document.getElementById('div1').textContent = 'changed';
+            },
+            null /*changeSource*/,
+            true /*getSnapshotBeforeCallback*/
+        );
+
+        // Assert
+        expect(snapshot).toContain('text');
+        expect(snapshot).toContain('cursor-single');
+        expect(editor.queryElements('#cursor-single').length).toBe(0);
+
+        editor.undo();
+        expect(document.getElementById('div1').textContent).toBe('text');
+        expect(editor.queryElements('#cursor-single').length).toBe(0);
+    });
+
+    it('passes snapshot when requested even if callback does not declare the parameter', () => {
+        // Arrange
+        let snapshot: string = null;
+        let callback = (...args: any[]) => {
+            snapshot = args[2];
+        };
+
+        // Act
+        editor.addUndoSnapshot(callback.bind(null), null /*changeSource*/, true);
+
+        // Assert
+        expect(snapshot).toContain('cursor-single');
+    });
+});
@@ -0,0 +1,88 @@
+import {
+    DOM_CHANGES_OBSERVER_INIT,
+    createDomChanges,
+    replayDomChanges,
+    revertDomChanges,
+} from '../../undo/DomChanges';
+
+describe('DomChanges', () => {
+    let root: HTMLDivElement;
+    let observer: MutationObserver;
+
+    beforeEach(() => {
+        root = document.createElement('div');
+        root.innerHTML = '<div id="a" title="t">text1</div><div>text2</div>';
+        document.body.appendChild(root);
+        observer = new MutationObserver(() => {});
+        observer.observe(root, DOM_CHANGES_OBSERVER_INIT);
+    });
+
+    afterEach(() => {
+        observer.disconnect();
+        document.body.removeChild(root);
+    });
+
+    function runTest(change: () => void) {
+        let before = root.innerHTML;
+        change();
+        let after = root.innerHTML;
+        let changes = createDomChanges(observer.takeRecords());
+
+        revertDomChanges(changes);
+        expect(root.innerHTML).toBe(before);
+
+        replayDomChanges(changes);
+        expect(root.innerHTML).toBe(after);
+    }
+
+    it('reverts and replays text changes', () => {
+        runTest(() => {
+            let text = root.firstChild.firstChild;
+            text.nodeValue = 'text11';
+            text.nodeValue = 'text111';
+        });
+    });
+
+    it('reverts and replays attribute changes', () => {
+        runTest(() => {
+            let div = <HTMLElement>root.firstChild;
+            div.id = 'b';
+            div.style.color = 'red';
+            div.removeAttribute('title');
+        });
+    });
+
+    it('reverts and replays child list changes', () => {
+        runTest(() => {
+            let div = root.firstChild;
+            let span = document.createElement('span');
+            span.textContent = 'span';
+            div.insertBefore(span, div.firstChild);
+            root.removeChild(root.lastChild);
+            root.appendChild(document.createElement('br'));
+        });
+    });
+
+    it('reverts and replays mixed changes', () => {
+        runTest(() => {
+            let text = <Text>root.firstChild.firstChild;
+            text.splitText(2);
+            text.nodeValue = 'x';
+            root.innerHTML = '<b>new</b>' + root.innerHTML;
+        });
+    });
+
+    it('inserts nodes at the beginning when next sibling is moved', () => {
+        let span = document.createElement('span');
+        root.insertBefore(span, root.firstChild);
+        let changes = createDomChanges(observer.takeRecords());
+
+        revertDomChanges(changes);
+        expect(root.innerHTML).toBe('<div id="a" title="t">text1</div><div>text2</div>');
+
+        // Next sibling of the inserted node is no longer under root
+        root.removeChild(root.firstChild);
+        replayDomChanges(changes);
+        expect(root.innerHTML).toBe('<span></span><div>text2</div>');
+    });
+});
@@ -1,65 +1,107 @@
-import UndoSnapshots from '../../undo/UndoSnapshots';
+import UndoSnapshots, { UndoSnapshot } from '../../undo/UndoSnapshots';
 
 describe('SnapshotsManager', () => {
     let snapshots: UndoSnapshots;
+    let s0: UndoSnapshot;
+
+    function createSnapshot(text: string): UndoSnapshot {
+        let node = document.createTextNode(text);
+        return {
+            changes: [{ type: 'characterData', target: node, oldValue: '', newValue: text }],
+            size: text.length,
+            start: null,
+            end: null,
+        };
+    }
+
     beforeEach(() => {
         snapshots = new UndoSnapshots();
-        snapshots.addSnapshot('');
+        s0 = createSnapshot('');
+        snapshots.addSnapshot(s0);
     });
 
     it('canMove', () => {
-        expect(snapshots.canMove(-1)).toBeFalsy(); // snapshots: ('')
-        expect(snapshots.canMove(1)).toBeFalsy(); // snapshots: ('')
+        expect(snapshots.canMove(-1)).toBeFalsy(); // snapshots: (s0)
+        expect(snapshots.canMove(1)).toBeFalsy(); // snapshots: (s0)
 
-        snapshots.addSnapshot('1'); // snapshots: '', ('1')
-        expect(snapshots.canMove(-1)).toBeTruthy(); // snapshots: '', ('1')
-        expect(snapshots.canMove(1)).toBeFalsy(); // snapshots: '', ('1')
+        snapshots.addSnapshot(createSnapshot('1')); // snapshots: s0, (s1)
+        expect(snapshots.canMove(-1)).toBeTruthy(); // snapshots: s0, (s1)
+        expect(snapshots.canMove(1)).toBeFalsy(); // snapshots: s0, (s1)
     });
 
     it('move', () => {
-        expect(snapshots.move(-1)).toBeNull(); // snapshots: (''), =>null
-        expect(snapshots.move(1)).toBeNull(); // snapshots: (''), =>null
+        expect(snapshots.move(-1)).toBeNull(); // snapshots: (s0), =>null
+        expect(snapshots.move(1)).toBeNull(); // snapshots: (s0), =>null
 
-        snapshots.addSnapshot('1'); // snapshots: '', ('1')
-        expect(snapshots.move(-1)).toBe(''); // snapshots: (''), '1'
-        expect(snapshots.move(1)).toBe('1'); // snapshots: '', ('1')
-        expect(snapshots.move(1)).toBe(null); // snapshots: '', ('1') =>null
+        let s1 = createSnapshot('1');
+        let s2 = createSnapshot('2');
+        snapshots.addSnapshot(s1); // snapshots: s0, (s1)
+        snapshots.addSnapshot(s2); // snapshots: s0, s1, (s2)
+        expect(snapshots.move(-1)).toEqual([s2]); // snapshots: s0, (s1), s2
+        expect(snapshots.getCurrent()).toBe(s1);
+        expect(snapshots.move(1)).toEqual([s2]); // snapshots: s0, s1, (s2)
+        expect(snapshots.move(1)).toBe(null); // snapshots: s0, s1, (s2) =>null
+        expect(snapshots.move(-2)).toEqual([s2, s1]); // snapshots: (s0), s1, s2
+        expect(snapshots.getCurrent()).toBe(s0);
+        expect(snapshots.move(2)).toEqual([s1, s2]); // snapshots: s0, s1, (s2)
     });
 
     it('addSnapshot', () => {
-        snapshots = new UndoSnapshots(3); // snapshots: '1'
-        snapshots.addSnapshot('1');
-        snapshots.addSnapshot('23'); // snapshots: '1', ('23')
-        expect(snapshots.canMove(-1)).toBeTruthy(); // snapshots: '1', ('23')
-        expect(snapshots.move(-1)).toBe('1'); // snapshots: ('1'), '23'
-        expect(snapshots.canMove(1)).toBeTruthy(); // snapshots: ('1'), '23'
-
-        snapshots.addSnapshot('1'); // snapshots: ('1'), '23'
-        expect(snapshots.canMove(-1)).toBeFalsy(); // snapshots: ('1'), '23'
-        expect(snapshots.canMove(1)).toBeTruthy(); // snapshots: ('1'), '23'
-
-        snapshots.addSnapshot('2'); // snapshots: '1', ('2')
-        expect(snapshots.canMove(-1)).toBeTruthy(); // snapshots: ('1'), '2'
-        expect(snapshots.canMove(1)).toBeFalsy(); // snapshots: ('1'), '2'
-
-        snapshots.move(1); // snapshots: '1', ('2')
-        snapshots.addSnapshot('34'); // snapshots: '2', ('34')
-        expect(snapshots.canMove(1)).toBeFalsy(); // snapshots: '2', ('34')
-        expect(snapshots.canMove(-1)).toBeTruthy(); // snapshots: '2', ('34')
-        expect(snapshots.canMove(-2)).toBeFalsy(); // snapshots: '2', ('34')
+        snapshots = new UndoSnapshots(3);
+        let s1 = createSnapshot('1');
+        snapshots.addSnapshot(s1); // snapshots: (s1)
+        expect(s1.changes).toEqual([]); // Changes of first snapshot are not needed
+
+        snapshots.addSnapshot(createSnapshot('23')); // snapshots: s1, (s23)
+        expect(snapshots.canMove(-1)).toBeTruthy(); // snapshots: s1, (s23)
+        snapshots.move(-1); // snapshots: (s1), s23
+        expect(snapshots.canMove(1)).toBeTruthy(); // snapshots: (s1), s23
+
+        let emptySnapshot = createSnapshot('');
+        emptySnapshot.changes = [];
+        snapshots.addSnapshot(emptySnapshot); // No change, snapshots: (s1), s23
+        expect(snapshots.getCurrent()).toBe(s1);
+        expect(snapshots.canMove(-1)).toBeFalsy(); // snapshots: (s1), s23
+        expect(snapshots.canMove(1)).toBeTruthy(); // snapshots: (s1), s23
+
+        snapshots.addSnapshot(createSnapshot('2')); // snapshots: s1, (s2)
+        expect(snapshots.canMove(-1)).toBeTruthy(); // snapshots: s1, (s2)
+        expect(snapshots.canMove(1)).toBeFalsy(); // snapshots: s1, (s2)
+
+        snapshots.addSnapshot(createSnapshot('345')); // Exceeds max size, snapshots: s2, (s345)
+        expect(snapshots.canMove(1)).toBeFalsy(); // snapshots: s2, (s345)
+        expect(snapshots.canMove(-1)).toBeTruthy(); // snapshots: s2, (s345)
+        expect(snapshots.canMove(-2)).toBeFalsy(); // snapshots: s2, (s345)
+    });
+
+    it('mergeSnapshot', () => {
+        let s1 = createSnapshot('1');
+        let s2 = createSnapshot('2');
+        let s3 = createSnapshot('3');
+        snapshots.addSnapshot(s1); // snapshots: s0, (s1)
+        snapshots.addSnapshot(s2); // snapshots: s0, s1, (s2)
+        snapshots.move(-1); // snapshots: s0, (s1), s2
+
+        let change1 = s1.changes[0];
+        snapshots.mergeSnapshot(s3); // snapshots: s0, (s1+s3)
+        expect(snapshots.getCurrent()).toBe(s1);
+        expect(snapshots.canMove(1)).toBeFalsy();
+        expect(s1.changes).toEqual([change1, s3.changes[0]]);
+        expect(s1.size).toBe(2);
+        expect(snapshots.move(-1)).toEqual([s1]); // snapshots: (s0), s1+s3
     });
 
     it('clearSnapshotsOnRight', () => {
-        snapshots.addSnapshot('2'); // snapshots: '', ('2')
-        snapshots.addSnapshot('3'); // snapshots: '', '2', ('3')
-        snapshots.move(-1); // snapshots: '', ('2'), '3'
+        snapshots.addSnapshot(createSnapshot('2')); // snapshots: s0, (s2)
+        snapshots.addSnapshot(createSnapshot('3')); // snapshots: s0, s2, (s3)
+        snapshots.move(-1); // snapshots: s0, (s2), s3
 
-        expect(snapshots.canMove(-1)).toBeTruthy(); // snapshots: '', ('2'), '3'
-        expect(snapshots.canMove(1)).toBeTruthy(); // snapshots: '', ('2'), '3'
-        expect(snapshots.canMove(2)).toBeFalsy(); // snapshots: '', ('2'), '3'
+        expect(snapshots.canMove(-1)).toBeTruthy(); // snapshots: s0, (s2), s3
+        expect(snapshots.canMove(1)).toBeTruthy(); // snapshots: s0, (s2), s3
+        expect(snapshots.canMove(2)).toBeFalsy(); // snapshots: s0, (s2), s3
 
-        snapshots.clearRedo(); // snapshots: '', ('2')
-        expect(snapshots.canMove(-1)).toBeTruthy(); // snapshots: '', ('2')
-        expect(snapshots.canMove(1)).toBeFalsy(); // snapshots: '', ('2')
+        snapshots.clearRedo(); // snapshots: s0, (s2)
+        expect(snapshots.canMove(-1)).toBeTruthy(); // snapshots: s0, (s2)
+        expect(snapshots.canMove(1)).toBeFalsy(); // snapshots: s0, (s2)
     });
 });
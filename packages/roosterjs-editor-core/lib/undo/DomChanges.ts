@@ -0,0 +1,193 @@
+/**
+ * A recorded change of child nodes
+ */
+export interface ChildListChange {
+    type: 'childList';
+    target: Node;
+    addedNodes: Node[];
+    removedNodes: Node[];
+    previousSibling: Node;
+    nextSibling: Node;
+}
+
+/**
+ * A recorded change of an attribute
+ */
+export interface AttributeChange {
+    type: 'attributes';
+    target: Element;
+    name: string;
+    namespace: string;
+    oldValue: string;
+    newValue: string;
+}
+
+/**
+ * A recorded change of text or comment content
+ */
+export interface CharacterDataChange {
+    type: 'characterData';
+    target: Node;
+    oldValue: string;
+    newValue: string;
+}
+
+/**
+ * A recorded DOM change which can be reverted and replayed
+ */
+export type DomChange = ChildListChange | AttributeChange | CharacterDataChange;
+
+/**
+ * Options of MutationObserver to record all changes which can be reverted and replayed
+ */
+export const DOM_CHANGES_OBSERVER_INIT: MutationObserverInit = {
+    childList: true,
+    attributes: true,
+    attributeOldValue: true,
+    characterData: true,
+    characterDataOldValue: true,
+    subtree: true,
+};
+
+/**
+ * Create DOM changes from mutation records.
+ * MutationRecord only has the old value of an attribute or text, so the new values are calculated from
+ * the next record of the same target, or the current DOM if there isn't. So this function must be
+ * called before any further change happens to the DOM.
+ * @param records Mutation records in the order they are recorded
+ * @returns DOM changes in the same order
+ */
+export function createDomChanges(records: MutationRecord[]): DomChange[] {
+    let changes: DomChange[] = [];
+    let values: { target: Node; name: string; value: string }[] = [];
+    let getNewValue = (
+        target: Node,
+        name: string,
+        oldValue: string,
+        currentValue: () => string
+    ) => {
+        let item = values.filter(v => v.target == target && v.name == name)[0];
+        if (!item) {
+            item = { target, name, value: currentValue() };
+            values.push(item);
+        }
+        let newValue = item.value;
+        item.value = oldValue;
+        return newValue;
+    };
+
+    for (let i = records.length - 1; i >= 0; i--) {
+        let record = records[i];
+        let target = record.target;
+
+        if (record.type == 'childList') {
+            changes.unshift({
+                type: 'childList',
+                target,
+                addedNodes: toArray(record.addedNodes),
+                removedNodes: toArray(record.removedNodes),
+                previousSibling: record.previousSibling,
+                nextSibling: record.nextSibling,
+            });
+        } else if (record.type == 'attributes') {
+            let element = <Element>target;
+            let name = record.attributeName;
+            let namespace = record.attributeNamespace;
+            changes.unshift({
+                type: 'attributes',
+                target: element,
+                name,
+                namespace,
+                oldValue: record.oldValue,
+                newValue: getNewValue(element, name, record.oldValue, () =>
+                    element.getAttributeNS(namespace, name)
+                ),
+            });
+        } else if (record.type == 'characterData') {
+            changes.unshift({
+                type: 'characterData',
+                target,
+                oldValue: record.oldValue,
+                newValue: getNewValue(target, null, record.oldValue, () => target.nodeValue),
+            });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Revert the given DOM changes, from the last one to the first one.
+ * DOM must be in the state right after these changes happened
+ * @param changes The changes to revert
+ */
+export function revertDomChanges(changes: DomChange[]) {
+    for (let i = changes.length - 1; i >= 0; i--) {
+        applyDomChange(changes[i], true /*isRevert*/);
+    }
+}
+
+/**
+ * Replay the given DOM changes, from the first one to the last one.
+ * DOM must be in the state right before these changes happened
+ * @param changes The changes to replay
+ */
+export function replayDomChanges(changes: DomChange[]) {
+    for (let i = 0; i < changes.length; i++) {
+        applyDomChange(changes[i], false /*isRevert*/);
+    }
+}
+
+/**
+ * Get an estimated size of the given DOM changes, that is the length of text kept by the changes
+ * @param changes The changes to calculate size
+ */
+export function getDomChangesSize(changes: DomChange[]): number {
+    let size = 0;
+    changes.forEach(change => {
+        if (change.type == 'childList') {
+            change.removedNodes.forEach(node => (size += (node.textContent || '').length));
+        } else {
+            size += (change.oldValue || '').length + (change.newValue || '').length;
+        }
+    });
+    return size;
+}
+
+function applyDomChange(change: DomChange, isRevert: boolean) {
+    if (change.type == 'childList') {
+        let { target, previousSibling, nextSibling } = change;
+        let nodesToRemove = isRevert ? change.addedNodes : change.removedNodes;
+        let nodesToInsert = isRevert ? change.removedNodes : change.addedNodes;
+
+        nodesToRemove.forEach(node => {
+            if (node.parentNode == target) {
+                target.removeChild(node);
+            }
+        });
+
+        let refNode: Node;
+        if (nextSibling && nextSibling.parentNode == target) {
+            refNode = nextSibling;
+        } else if (!previousSibling) {
+            // Nodes were at the beginning of target
+            refNode = target.firstChild;
+        } else {
+            refNode = previousSibling.parentNode == target ? previousSibling.nextSibling : null;
+        }
+        nodesToInsert.forEach(node => target.insertBefore(node, refNode));
+    } else if (change.type == 'attributes') {
+        let value = isRevert ? change.oldValue : change.newValue;
+        if (value == null) {
+            change.target.removeAttributeNS(change.namespace, change.name);
+        } else {
+            change.target.setAttributeNS(change.namespace, change.name, value);
+        }
+    } else {
+        change.target.nodeValue = isRevert ? change.oldValue : change.newValue;
+    }
+}
+
+function toArray(nodes: NodeList): Node[] {
+    return [].slice.call(nodes) as Node[];
+}
@@ -1,7 +1,16 @@
-import UndoSnapshots, { UndoSnapshotsService } from './UndoSnapshots';
+import UndoSnapshots, { UndoSnapshot, UndoSnapshotsService } from './UndoSnapshots';
 import { ChangeSource, PluginEvent, PluginEventType } from 'roosterjs-editor-types';
 import Editor from '../editor/Editor';
 import UndoService from '../editor/UndoService';
+import { Position } from 'roosterjs-editor-dom';
+import {
+    DOM_CHANGES_OBSERVER_INIT,
+    DomChange,
+    createDomChanges,
+    getDomChangesSize,
+    replayDomChanges,
+    revertDomChanges,
+} from './DomChanges';
 
 const KEY_BACKSPACE = 8;
 const KEY_DELETE = 46;
@@ -11,7 +20,9 @@ const KEY_PAGEUP = 33;
 const KEY_DOWN = 40;
 
 /**
- * Provides snapshot based undo service for Editor
+ * Provides undo service for Editor.
+ * Changes of content are recorded by a MutationObserver, each undo snapshot only keeps the DOM changes
+ * since the previous snapshot, and undo/redo is done by reverting/replaying these changes
  */
 export default class Undo implements UndoService {
     private editor: Editor;
@@ -20,6 +31,8 @@ export default class Undo implements UndoService {
     private lastKeyPress: number;
     private onDropDisposer: () => void;
     private onCutDisposer: () => void;
+    private observer: MutationObserver;
+    private pendingRecords: MutationRecord[] = [];
     public name = 'Undo';
 
     protected undoSnapshots: UndoSnapshotsService;
@@ -27,8 +40,9 @@ export default class Undo implements UndoService {
     /**
      * Create an instance of Undo
      * @param preserveSnapshots True to preserve the snapshots after dispose, this allows
-     * this object to be reused when editor is disposed and created again
-     * @param maxBufferSize The max buffer size for snapshots. Default value is 10MB
+     * this object to be reused when editor is disposed and created again. Since snapshots keep
+     * the changes of DOM nodes, they can only be reused when the content nodes are not recreated
+     * @param maxBufferSize The max buffer size for text kept by snapshots. Default value is 10MB
      */
     constructor(private preserveSnapshots?: boolean, private maxBufferSize: number = 1e7) {}
 
@@ -40,6 +54,7 @@ export default class Undo implements UndoService {
         this.editor = editor;
         this.onDropDisposer = this.editor.addDomEventHandler('drop', this.onNativeEvent);
         this.onCutDisposer = this.editor.addDomEventHandler('cut', this.onNativeEvent);
+        this.observer = this.editor.observeMutations(this.onMutation, DOM_CHANGES_OBSERVER_INIT);
     }
 
     /**
@@ -50,6 +65,9 @@ export default class Undo implements UndoService {
         this.onCutDisposer();
         this.onDropDisposer = null;
         this.onCutDisposer = null;
+        this.observer.disconnect();
+        this.observer = null;
+        this.pendingRecords = [];
         this.editor = null;
 
         if (!this.preserveSnapshots) {
@@ -130,15 +148,41 @@ export default class Undo implements UndoService {
 
     /**
      * Add an undo snapshot
+     * @returns Always null, since snapshots only keep the DOM changes rather than the whole content
      */
     public addUndoSnapshot(): string {
-        let snapshot = this.editor.getContent(
-            false /*triggerExtractContentEvent*/,
-            true /*markSelection*/
-        );
-        this.getSnapshotsManager().addSnapshot(snapshot);
+        this.getSnapshotsManager().addSnapshot(this.createSnapshot());
         this.hasNewContent = false;
-        return snapshot;
+        return null;
+    }
+
+    /**
+     * Run a callback to change content, the changes are not recorded into any undo snapshot
+     * @param callback The callback to change content
+     */
+    public ignoreChanges(callback: () => void) {
+        // Keep the changes before the callback, and drop the changes made by the callback
+        this.pendingRecords = this.pendingRecords.concat(this.observer.takeRecords());
+
+        try {
+            callback();
+        } finally {
+            this.observer.takeRecords();
+        }
+    }
+
+    /**
+     * Run a callback to change content, the changes made by the callback, together with the changes
+     * not recorded yet, are merged into the current undo snapshot
+     * @param callback The callback to change content
+     */
+    public mergeChanges(callback: () => void) {
+        try {
+            callback();
+        } finally {
+            this.getSnapshotsManager().mergeSnapshot(this.createSnapshot());
+            this.hasNewContent = false;
+        }
     }
 
     protected getSnapshotsManager(): UndoSnapshotsService {
@@ -149,18 +193,65 @@ export default class Undo implements UndoService {
     }
 
     private restoreSnapshot(delta: number) {
-        let snapshot = this.getSnapshotsManager().move(delta);
+        let snapshotsManager = this.getSnapshotsManager();
+
+        if (snapshotsManager.canMove(delta)) {
+            // Changes after the last snapshot are not recorded by any snapshot, revert them first
+            let changes = this.takeChanges();
+            let snapshots = snapshotsManager.move(delta);
 
-        if (snapshot != null) {
             try {
                 this.isRestoring = true;
-                this.editor.setContent(snapshot);
+                revertDomChanges(changes);
+                snapshots.forEach(
+                    snapshot =>
+                        delta < 0
+                            ? revertDomChanges(snapshot.changes)
+                            : replayDomChanges(snapshot.changes)
+                );
+
+                // Drop the changes made by restoring since they are already in snapshots
+                this.takeChanges();
+
+                let current = snapshotsManager.getCurrent();
+                if (current.start && this.editor.contains(current.start.node)) {
+                    this.editor.select(current.start, current.end);
+                }
+
+                this.editor.triggerContentChangedEvent();
             } finally {
                 this.isRestoring = false;
             }
         }
     }
 
+    private createSnapshot(): UndoSnapshot {
+        let changes = this.takeChanges();
+        let range = this.editor.getSelectionRange();
+        return {
+            changes: changes,
+            size: getDomChangesSize(changes),
+            start: range && Position.getStart(range),
+            end: range && Position.getEnd(range),
+        };
+    }
+
+    private takeChanges(): DomChange[] {
+        let records = this.pendingRecords.concat(this.observer.takeRecords());
+        this.pendingRecords = [];
+
+        // Attribute changes of editor content DIV itself are not part of content
+        return createDomChanges(
+            records.filter(
+                record => record.type != 'attributes' || this.editor.contains(record.target)
+            )
+        );
+    }
+
+    private onMutation = (records: MutationRecord[]) => {
+        this.pendingRecords = this.pendingRecords.concat(records);
+    };
+
     private onKeyDown(evt: KeyboardEvent): void {
         // Handle backspace/delete when there is a selection to take a snapshot
         // since we want the state prior to deletion restorable
@@ -234,6 +325,11 @@ export default class Undo implements UndoService {
 
     private onNativeEvent = (e: UIEvent) => {
         this.editor.runAsync(() => {
+            // Event is handled by other plugin, which should have taken care of undo snapshot
+            if (e.defaultPrevented) {
+                return;
+            }
+
             this.addUndoSnapshot();
             this.editor.triggerContentChangedEvent(
                 e.type == 'cut' ? ChangeSource.Cut : ChangeSource.Drop
@@ -1,16 +1,60 @@
+import { DomChange } from './DomChanges';
+import { Position } from 'roosterjs-editor-dom';
+
 // Max stack size that cannot be exceeded. When exceeded, old undo history will be dropped
 // to keep size under limit. This is kept at 10MB
 const MAXSIZELIMIT = 10000000;
 
+/**
+ * An undo snapshot. Instead of the whole content, a snapshot only keeps the DOM changes
+ * from its previous snapshot, and the selection when it is taken
+ */
+export interface UndoSnapshot {
+    /**
+     * DOM changes from previous snapshot to this one
+     */
+    changes: DomChange[];
+
+    /**
+     * Estimated size of the changes
+     */
+    size: number;
+
+    /**
+     * Start position of selection when this snapshot is taken
+     */
+    start: Position;
+
+    /**
+     * End position of selection when this snapshot is taken
+     */
+    end: Position;
+}
+
+/**
+ * Manages the undo snapshots of Undo plugin.
+ *
+ * Breaking change: snapshots used to be HTML strings of the whole content, so move() returned the
+ * HTML string to restore and addSnapshot() accepted an HTML string. Now a snapshot is an UndoSnapshot
+ * object with the DOM changes from its previous snapshot, move() returns all snapshots between the
+ * current one and the target one so Undo can revert or replay them in order, getCurrent() is
+ * added to get the selection to restore, and mergeSnapshot() is added to append changes to the
+ * current snapshot.
+ * To migrate a custom implementation, store UndoSnapshot objects instead of strings, and let move()
+ * return the snapshots to revert or replay instead of a single one. Content of editor can no longer be restored by setting an HTML
+ * string from a snapshot, use Editor.undo() and Editor.redo() instead
+ */
 export interface UndoSnapshotsService {
     canMove: (delta: number) => boolean;
-    move: (delta: number) => string;
-    addSnapshot: (snapshot: string) => void;
+    move: (delta: number) => UndoSnapshot[];
+    getCurrent: () => UndoSnapshot;
+    addSnapshot: (snapshot: UndoSnapshot) => void;
+    mergeSnapshot: (snapshot: UndoSnapshot) => void;
     clearRedo: () => void;
 }
 
 export default class UndoSnapshots implements UndoSnapshotsService {
-    private snapshots: string[];
+    private snapshots: UndoSnapshot[];
     private totalSize: number;
     private currentIndex: number;
 
@@ -25,43 +69,97 @@ export default class UndoSnapshots implements UndoSnapshotsService {
         return newIndex >= 0 && newIndex < this.snapshots.length;
     }
 
-    public move(delta: number): string {
+    /**
+     * Move to another snapshot
+     * @param delta The distance to move, negative value means undo, positive value means redo
+     * @returns The snapshots whose changes need to be reverted (when undo) or replayed (when redo),
+     * in the order of reverting/replaying. Or null if it can't move
+     */
+    public move(delta: number): UndoSnapshot[] {
         if (this.canMove(delta)) {
-            this.currentIndex += delta;
-            return this.snapshots[this.currentIndex];
+            let newIndex = this.currentIndex + delta;
+            let result =
+                delta < 0
+                    ? this.snapshots.slice(newIndex + 1, this.currentIndex + 1).reverse()
+                    : this.snapshots.slice(this.currentIndex + 1, newIndex + 1);
+            this.currentIndex = newIndex;
+            return result;
         } else {
             return null;
         }
     }
 
-    public addSnapshot(snapshot: string) {
-        if (this.currentIndex < 0 || snapshot != this.snapshots[this.currentIndex]) {
-            this.clearRedo();
-            this.snapshots.push(snapshot);
-            this.currentIndex++;
-            this.totalSize += snapshot.length;
-
-            let removeCount = 0;
-            while (removeCount < this.snapshots.length && this.totalSize > this.maxSize) {
-                this.totalSize -= this.snapshots[removeCount].length;
-                removeCount++;
-            }
+    public getCurrent(): UndoSnapshot {
+        return this.snapshots[this.currentIndex] || null;
+    }
 
-            if (removeCount > 0) {
-                this.snapshots.splice(0, removeCount);
-                this.currentIndex -= removeCount;
-            }
+    public addSnapshot(snapshot: UndoSnapshot) {
+        if (this.currentIndex < 0) {
+            // There is nothing before the first snapshot, so no need to keep its changes
+            snapshot.changes = [];
+            snapshot.size = 0;
+        } else if (snapshot.changes.length == 0) {
+            // Nothing changed, just update the selection
+            let current = this.snapshots[this.currentIndex];
+            current.start = snapshot.start;
+            current.end = snapshot.end;
+            return;
+        }
+
+        this.clearRedo();
+        this.snapshots.push(snapshot);
+        this.currentIndex++;
+        this.totalSize += snapshot.size;
+        this.trim();
+    }
+
+    /**
+     * Merge the changes and selection of the given snapshot into the current snapshot, so that they
+     * are reverted or replayed together with it
+     * @param snapshot The snapshot with the changes after the current snapshot
+     */
+    public mergeSnapshot(snapshot: UndoSnapshot) {
+        let current = this.snapshots[this.currentIndex];
+
+        if (!current) {
+            this.addSnapshot(snapshot);
+            return;
+        }
+
+        this.clearRedo();
+
+        // There is nothing before the first snapshot, so its changes are not kept either
+        if (this.currentIndex > 0) {
+            current.changes = current.changes.concat(snapshot.changes);
+            current.size += snapshot.size;
+            this.totalSize += snapshot.size;
         }
+
+        current.start = snapshot.start;
+        current.end = snapshot.end;
+        this.trim();
     }
 
     public clearRedo() {
         if (this.canMove(1)) {
             let removedSize = 0;
             for (let i = this.currentIndex + 1; i < this.snapshots.length; i++) {
-                removedSize += this.snapshots[i].length;
+                removedSize += this.snapshots[i].size;
             }
             this.snapshots.splice(this.currentIndex + 1);
             this.totalSize -= removedSize;
         }
     }
+
+    private trim() {
+        while (this.currentIndex > 0 && this.totalSize > this.maxSize) {
+            this.snapshots.shift();
+            this.currentIndex--;
+
+            let first = this.snapshots[0];
+            this.totalSize -= first.size;
+            first.changes = [];
+            first.size = 0;
+        }
+    }
 }
@@ -35,6 +35,7 @@ export { default as changeElementTag } from './utils/changeElementTag';
 export { default as collapseNodes } from './utils/collapseNodes';
 export { default as contains } from './utils/contains';
 export { default as convertInlineCss } from './utils/convertInlineCss';
+export { default as createSanitizePolicy } from './utils/createSanitizePolicy';
 export {
     default as sanitizeHtml,
     SanitizeHtmlPropertyCallback,
@@ -48,6 +49,7 @@ export { default as isBlockElement } from './utils/isBlockElement';
 export { default as isDocumentPosition } from './utils/isDocumentPosition';
 export { default as isEditorPointAfter } from './utils/isEditorPointAfter';
 export { default as isNodeEmpty } from './utils/isNodeEmpty';
+export { default as isUrlAllowed, isSrcsetAllowed } from './utils/isUrlAllowed';
 export { default as isVoidHtmlElement } from './utils/isVoidHtmlElement';
 export { default as matchLink } from './utils/matchLink';
 export { default as matchWhiteSpaces } from './utils/matchWhiteSpaces';
@@ -56,7 +58,9 @@ export { default as splitParentNode, splitBalancedNodeRange } from './utils/spli
 export { default as unwrap } from './utils/unwrap';
 export { default as wrap } from './utils/wrap';
 
-export { default as VTable, VCell } from './table/VTable';
+export { default as VTable, VCell, VCellRange } from './table/VTable';
+export { default as VList, BULLET_STYLE_TYPES } from './list/VList';
+export { default as setListItemIndentation } from './list/setListItemIndentation';
 
 export { default as Position } from './selection/Position';
 export { default as createRange } from './selection/createRange';
@@ -0,0 +1,147 @@
+import changeElementTag from '../utils/changeElementTag';
+import getTagOfNode from '../utils/getTagOfNode';
+import { getComputedStyle } from '../utils/getComputedStyles';
+import { ListState } from 'roosterjs-editor-types';
+
+/**
+ * Bullet list style types. Other style types are treated as numbering, except custom string values
+ * such as '"- "' which can be used by both bullet and numbering list
+ */
+export const BULLET_STYLE_TYPES = ['disc', 'circle', 'square', 'none'];
+
+// Map from value of legacy "type" attribute of OL/UL to list style type
+const TYPE_ATTRIBUTE_MAP: { [type: string]: string } = {
+    '1': 'decimal',
+    a: 'lower-alpha',
+    A: 'upper-alpha',
+    i: 'lower-roman',
+    I: 'upper-roman',
+    disc: 'disc',
+    circle: 'circle',
+    square: 'square',
+};
+
+/**
+ * A virtual list class, represent one level of an HTML list (OL or UL) and its items
+ */
+export default class VList {
+    /**
+     * The HTML list element, or null if the node used to create this object is not in a list
+     */
+    list: HTMLOListElement | HTMLUListElement;
+
+    /**
+     * Create a new instance of VList object using a list element or a node inside a list
+     * @param node The list element, or any node inside a list. The nearest list will be used
+     * @param root (Optional) The root node to stop searching for list
+     */
+    constructor(node: Node, root?: Node) {
+        for (; node && node != root; node = node.parentNode) {
+            let tag = getTagOfNode(node);
+            if (tag == 'OL' || tag == 'UL') {
+                this.list = <HTMLOListElement | HTMLUListElement>node;
+                break;
+            }
+        }
+    }
+
+    /**
+     * Get the list state of this list
+     */
+    getListState(): ListState {
+        let tag = getTagOfNode(this.list);
+        return tag == 'OL' ? ListState.Numbering : tag == 'UL' ? ListState.Bullets : ListState.None;
+    }
+
+    /**
+     * Get direct list item children of this list
+     */
+    getItems(): HTMLLIElement[] {
+        return <HTMLLIElement[]>(
+            [].slice
+                .call(this.list ? this.list.childNodes : [])
+                .filter((node: Node) => getTagOfNode(node) == 'LI')
+        );
+    }
+
+    /**
+     * Get list style type of this list, e.g. 'disc', 'decimal', 'lower-roman'.
+     * If no style type is specified on the list, the computed style type is returned
+     */
+    getStyleType(): string {
+        if (!this.list) {
+            return null;
+        }
+
+        let typeAttribute = this.list.getAttribute('type');
+        return (
+            this.list.style.listStyleType ||
+            TYPE_ATTRIBUTE_MAP[typeAttribute] ||
+            getComputedStyle(this.list, 'list-style-type') ||
+            null
+        );
+    }
+
+    /**
+     * Set list style type of this list. If the style type is a bullet style but this is a numbering
+     * list, or vice versa, the list will be changed to the matching list type
+     * @param styleType The CSS list style type, e.g. 'circle', 'upper-alpha', or a custom string
+     * value such as '"- "'
+     */
+    setStyleType(styleType: string) {
+        if (!this.list) {
+            return;
+        }
+
+        let isCustom = /^['"]/.test(styleType);
+        let newTag = isCustom
+            ? getTagOfNode(this.list)
+            : BULLET_STYLE_TYPES.indexOf(styleType) >= 0
+                ? 'UL'
+                : 'OL';
+
+        if (newTag != getTagOfNode(this.list)) {
+            this.list = <HTMLOListElement | HTMLUListElement>changeElementTag(this.list, newTag);
+            if (newTag == 'UL') {
+                this.list.removeAttribute('start');
+            }
+        }
+
+        this.list.removeAttribute('type');
+        this.list.style.listStyleType = styleType;
+    }
+
+    /**
+     * Get the number of the first item of this list. For bullet list, this is always 1
+     */
+    getStartNumber(): number {
+        return this.list instanceof HTMLOListElement && this.list.hasAttribute('start')
+            ? this.list.start
+            : 1;
+    }
+
+    /**
+     * Set the number of the first item of this list. This only takes effect for numbering list
+     * @param startNumber The number of the first item
+     */
+    setStartNumber(startNumber: number) {
+        if (this.list instanceof HTMLOListElement) {
+            if (startNumber == 1) {
+                this.list.removeAttribute('start');
+            } else {
+                this.list.start = startNumber;
+            }
+        }
+    }
+
+    /**
+     * Get the number of the last item of this list, considering value attribute of list items
+     */
+    getLastNumber(): number {
+        let number = this.getStartNumber() - 1;
+        this.getItems().forEach(li => {
+            number = li.hasAttribute('value') ? li.value : number + 1;
+        });
+        return number;
+    }
+}
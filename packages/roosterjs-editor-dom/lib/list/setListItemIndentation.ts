@@ -0,0 +1,149 @@
+import contains from '../utils/contains';
+import getTagOfNode from '../utils/getTagOfNode';
+import { Indentation, NodeType } from 'roosterjs-editor-types';
+
+const LIST_TAGS = ['OL', 'UL'];
+
+/**
+ * Increase or decrease list level of the given list items by changing DOM tree directly, without
+ * using browser execCommand, so that the result is the same across browsers.
+ * A sub list is always put inside the list item it belongs to, e.g.
+ * &lt;ol>&lt;li>1&lt;ol>&lt;li>1.1&lt;/li>&lt;/ol>&lt;/li>&lt;/ol>.
+ * Items inside other given items are moved together with their ancestor item.
+ * Decreasing level of a top level item will change it into a DIV.
+ * @param items The list items to change level
+ * @param indentation Indentation.Increase to increase list level, Indentation.Decrease to decrease
+ * @returns The first new list created when increasing list level, or null if no list is created
+ */
+export default function setListItemIndentation(
+    items: HTMLLIElement[],
+    indentation: Indentation
+): HTMLOListElement | HTMLUListElement {
+    let newList: HTMLOListElement | HTMLUListElement = null;
+    items = items.filter(li => !items.some(item => item != li && contains(item, li)));
+
+    if (indentation == Indentation.Increase) {
+        items.forEach(li => {
+            let list = indentItem(li);
+            newList = newList || list;
+        });
+    } else {
+        // Outdent from the last item so that the following items of an item are all processed
+        // before they are moved into the sub list of the item
+        items.reverse().forEach(outdentItem);
+    }
+
+    return newList;
+}
+
+function indentItem(li: HTMLLIElement): HTMLOListElement | HTMLUListElement {
+    let list = li.parentNode as HTMLElement;
+    let previousItem = getSiblingElement(li, false /*isNext*/);
+    let newList: HTMLOListElement | HTMLUListElement = null;
+    let subList: Node;
+
+    if (isList(previousItem)) {
+        // Previous sibling is a sub list created by browser, reuse it
+        subList = previousItem;
+    } else {
+        if (getTagOfNode(previousItem) != 'LI') {
+            // There is no item to put the sub list in, create an invisible one
+            previousItem = li.ownerDocument.createElement('li');
+            previousItem.style.listStyleType = 'none';
+            list.insertBefore(previousItem, li);
+        }
+
+        subList = previousItem.lastChild;
+        if (!isList(subList)) {
+            subList = newList = createSubList(list);
+            previousItem.appendChild(subList);
+        }
+    }
+
+    subList.appendChild(li);
+    return newList;
+}
+
+function outdentItem(li: HTMLLIElement) {
+    let list = li.parentNode as HTMLElement;
+    let parentItem = list.parentNode as HTMLElement;
+    let isSubListInItem = getTagOfNode(parentItem) == 'LI';
+    let followingItems: Node[] = [];
+
+    for (let node = li.nextSibling; node; node = node.nextSibling) {
+        followingItems.push(node);
+    }
+
+    if (isSubListInItem || isList(parentItem)) {
+        // Following items become sub items of this item
+        if (followingItems.length > 0) {
+            let subList = createSubList(list);
+            followingItems.forEach(node => subList.appendChild(node));
+            li.appendChild(subList);
+            mergeAdjacentLists(li);
+        }
+
+        let refNode = isSubListInItem ? parentItem : list;
+        refNode.parentNode.insertBefore(li, refNode.nextSibling);
+        removeIfEmpty(list);
+
+        if (isSubListInItem && parentItem.style.listStyleType == 'none') {
+            removeIfEmpty(parentItem);
+        }
+        mergeAdjacentLists(li.parentNode);
+    } else {
+        // Top level item, split the list and change the item into a DIV
+        if (followingItems.length > 0) {
+            let newList = list.cloneNode(false /*deep*/) as HTMLElement;
+            newList.removeAttribute('id');
+            followingItems.forEach(node => newList.appendChild(node));
+            list.parentNode.insertBefore(newList, list.nextSibling);
+        }
+
+        let div = li.ownerDocument.createElement('div');
+        while (li.firstChild) {
+            div.appendChild(li.firstChild);
+        }
+        list.parentNode.insertBefore(div, list.nextSibling);
+        list.removeChild(li);
+        removeIfEmpty(list);
+    }
+}
+
+function createSubList(list: HTMLElement): HTMLOListElement | HTMLUListElement {
+    let subList = list.cloneNode(false /*deep*/) as HTMLOListElement | HTMLUListElement;
+    subList.removeAttribute('id');
+    subList.removeAttribute('start');
+    return subList;
+}
+
+function mergeAdjacentLists(container: Node) {
+    for (let node = container.firstChild; node; node = node.nextSibling) {
+        let next = getSiblingElement(node, true /*isNext*/);
+        while (isList(node) && getTagOfNode(next) == getTagOfNode(node)) {
+            while (next.firstChild) {
+                node.appendChild(next.firstChild);
+            }
+            container.removeChild(next);
+            next = getSiblingElement(node, true /*isNext*/);
+        }
+    }
+}
+
+function removeIfEmpty(node: HTMLElement) {
+    // Whitespaces between list items are not content
+    if (node.parentNode && !node.querySelector('*') && !node.textContent.trim()) {
+        node.parentNode.removeChild(node);
+    }
+}
+
+function getSiblingElement(node: Node, isNext: boolean): HTMLElement {
+    do {
+        node = isNext ? node.nextSibling : node.previousSibling;
+    } while (node && node.nodeType != NodeType.Element);
+    return node as HTMLElement;
+}
+
+function isList(node: Node): node is HTMLOListElement | HTMLUListElement {
+    return LIST_TAGS.indexOf(getTagOfNode(node)) >= 0;
+}
@@ -1,4 +1,9 @@
-import { TableFormat } from 'roosterjs-editor-types';
+import changeElementTag from '../utils/changeElementTag';
+import getTagOfNode from '../utils/getTagOfNode';
+import { TableFormat, TableSelection } from 'roosterjs-editor-types';
+
+// Banded columns can't be told from colors of cells once some of them are formatted separately
+const BANDED_COLUMNS_ATTRIBUTE = 'data-banded-columns';
 
 /**
  * Represent a virtual cell of a virtual table
@@ -20,6 +25,31 @@ export interface VCell {
     spanAbove?: boolean;
 }
 
+/**
+ * A rectangle range of virtual cells, represented by the row and column indexes of its boundaries
+ */
+export interface VCellRange {
+    /**
+     * Index of the first row
+     */
+    firstRow: number;
+
+    /**
+     * Index of the first column
+     */
+    firstCol: number;
+
+    /**
+     * Index of the last row
+     */
+    lastRow: number;
+
+    /**
+     * Index of the last column
+     */
+    lastCol: number;
+}
+
 /**
  * A virtual table class, represent an HTML table, by expand all merged cells to each separated cells
  */
@@ -44,6 +74,11 @@ export default class VTable {
      */
     col: number;
 
+    /**
+     * Selected cells of this table, or null if there is no cell selection
+     */
+    selection: TableSelection;
+
     private trs: HTMLTableRowElement[] = [];
 
     /**
@@ -105,22 +140,82 @@ export default class VTable {
     }
 
     /**
-     * Apply the given table format to this virtual table
+     * Apply the given table format to this virtual table. If there is a cell selection, only the
+     * selected cells will be formatted
      * @param format Table format to apply
      */
     applyFormat(format: TableFormat) {
-        this.trs[0].style.backgroundColor = format.bgColorOdd || 'transparent';
-        if (this.trs[1]) {
-            this.trs[1].style.backgroundColor = format.bgColorEven || 'transparent';
+        let isPartial = !!this.getSelectedRange();
+
+        if (!isPartial) {
+            // Banded rows are applied to TR so that new rows cloned from them can keep the banding
+            let evenColor = format.hasBandedColumns ? format.bgColorOdd : format.bgColorEven;
+            this.trs[0].style.backgroundColor = format.bgColorOdd || 'transparent';
+            if (this.trs[1]) {
+                this.trs[1].style.backgroundColor = evenColor || 'transparent';
+            }
+
+            if (format.hasBandedColumns) {
+                this.table.setAttribute(BANDED_COLUMNS_ATTRIBUTE, 'true');
+            } else {
+                this.table.removeAttribute(BANDED_COLUMNS_ATTRIBUTE);
+            }
+
+            (this.cells[0] || []).forEach(cell => {
+                let tag = format.hasHeaderRow ? 'TH' : 'TD';
+                if (cell.td && getTagOfNode(cell.td) != tag) {
+                    cell.td = <HTMLTableCellElement>changeElementTag(cell.td, tag);
+                }
+            });
+        }
+
+        let callback = (cell: VCell, row: number, col: number) => {
+            if (cell.td) {
+                applyCellFormat(cell.td, format, row, col, isPartial);
+            }
+        };
+
+        if (isPartial) {
+            this.forEachSelectedCell(callback);
+        } else {
+            this.cells.forEach((row, i) => row.forEach((cell, j) => callback(cell, i, j)));
         }
-        this.cells.forEach(row =>
-            row.filter(cell => cell.td).forEach(cell => {
-                cell.td.style.borderTop = getBorderStyle(format.topBorderColor);
-                cell.td.style.borderBottom = getBorderStyle(format.bottomBorderColor);
-                cell.td.style.borderLeft = getBorderStyle(format.verticalBorderColor);
-                cell.td.style.borderRight = getBorderStyle(format.verticalBorderColor);
-            })
-        );
+    }
+
+    /**
+     * Get format of this table. This can be used to show the current table format.
+     * Colors are returned in the format reported by browser, e.g. "rgb(255, 255, 255)"
+     */
+    getFormat(): TableFormat {
+        let hasHeaderRow =
+            this.cells.length > 0 &&
+            this.cells[0].every(cell => !cell.td || getTagOfNode(cell.td) == 'TH');
+        let headerTd = hasHeaderRow ? this.getCell(0, 0).td : null;
+        let td = this.getCell(hasHeaderRow ? 1 : 0, 0).td || headerTd;
+        let style = td ? td.style : ({} as CSSStyleDeclaration);
+        let hasBandedColumns = this.table.getAttribute(BANDED_COLUMNS_ATTRIBUTE) == 'true';
+        let rows = this.table.rows;
+        let bgColorOdd = rows[0] && rows[0].style.backgroundColor;
+        let evenTd = hasBandedColumns ? this.getCell(hasHeaderRow ? 1 : 0, 1).td : null;
+        let bgColorEven = hasBandedColumns
+            ? evenTd && evenTd.style.backgroundColor
+            : rows[1] && rows[1].style.backgroundColor;
+
+        return {
+            bgColorOdd: bgColorOdd || null,
+            bgColorEven: bgColorEven || bgColorOdd || null,
+            topBorderColor: style.borderTopColor || null,
+            bottomBorderColor: style.borderBottomColor || null,
+            verticalBorderColor: style.borderLeftColor || null,
+            hasHeaderRow,
+            headerRowColor: (headerTd && headerTd.style.backgroundColor) || null,
+            hasFirstColumn: style.fontWeight == 'bold' || style.fontWeight == '700',
+            hasBandedColumns,
+            borderWidth: style.borderTopWidth || null,
+            borderStyle: style.borderTopStyle || null,
+            cellPadding: style.padding || null,
+            verticalAlign: style.verticalAlign || null,
+        };
     }
 
     /**
@@ -143,6 +238,74 @@ export default class VTable {
         }
     }
 
+    /**
+     * Get the range of selected cells. The range is expanded to cover all merged cells which are
+     * partially selected, so that it is always a rectangle of whole table cells.
+     * @returns The selected range, or null if there is no cell selection
+     */
+    getSelectedRange(): VCellRange {
+        let selection = this.selection;
+        if (!this.cells || !selection) {
+            return null;
+        }
+
+        let range: VCellRange = {
+            firstRow: Math.max(Math.min(selection.anchorRow, selection.focusRow), 0),
+            firstCol: Math.max(Math.min(selection.anchorCol, selection.focusCol), 0),
+            lastRow: Math.min(
+                Math.max(selection.anchorRow, selection.focusRow),
+                this.cells.length - 1
+            ),
+            lastCol: Math.max(selection.anchorCol, selection.focusCol),
+        };
+
+        for (let changed = true; changed; ) {
+            changed = false;
+            for (let row = range.firstRow; row <= range.lastRow; row++) {
+                for (let col = range.firstCol; col <= range.lastCol; col++) {
+                    let cell = this.getCell(row, col);
+                    if (col == range.firstCol && cell.spanLeft) {
+                        range.firstCol--;
+                        changed = true;
+                    }
+                    if (row == range.firstRow && cell.spanAbove) {
+                        range.firstRow--;
+                        changed = true;
+                    }
+                    if (col == range.lastCol && this.getCell(row, col + 1).spanLeft) {
+                        range.lastCol++;
+                        changed = true;
+                    }
+                    if (row == range.lastRow && this.getCell(row + 1, col).spanAbove) {
+                        range.lastRow++;
+                        changed = true;
+                    }
+                }
+            }
+        }
+
+        return range;
+    }
+
+    /**
+     * Loop each selected cell and invoke a callback function. If there is no cell selection,
+     * only the current cell will be passed to the callback
+     * @param callback The callback function to invoke
+     */
+    forEachSelectedCell(callback: (cell: VCell, row: number, col: number) => void) {
+        let range = this.getSelectedRange() || {
+            firstRow: this.row,
+            firstCol: this.col,
+            lastRow: this.row,
+            lastCol: this.col,
+        };
+        for (let row = range.firstRow; row <= range.lastRow; row++) {
+            for (let col = range.firstCol; col <= range.lastCol; col++) {
+                callback(this.getCell(row, col), row, col);
+            }
+        }
+    }
+
     /**
      * Get a table cell using its row and column index. This function will always return an object
      * even if the given indexes don't exist in table.
@@ -245,6 +408,40 @@ function getTableFromTd(td: HTMLTableCellElement) {
     return <HTMLTableElement>result;
 }
 
-function getBorderStyle(style: string): string {
-    return 'solid 1px ' + (style || 'transparent');
+function applyCellFormat(
+    td: HTMLTableCellElement,
+    format: TableFormat,
+    row: number,
+    col: number,
+    isPartial: boolean
+) {
+    let isHeader = format.hasHeaderRow && row == 0;
+    let bgColor: string;
+
+    if (isHeader && format.headerRowColor) {
+        bgColor = format.headerRowColor;
+    } else if (format.hasBandedColumns || isPartial) {
+        let index = format.hasBandedColumns ? col : row;
+        bgColor = (index % 2 == 0 ? format.bgColorOdd : format.bgColorEven) || 'transparent';
+    } else {
+        // Use background color of the row
+        bgColor = '';
+    }
+
+    td.style.backgroundColor = bgColor;
+    td.style.fontWeight = format.hasFirstColumn && col == 0 && !isHeader ? 'bold' : '';
+    td.style.padding = format.cellPadding || '';
+    td.style.verticalAlign = format.verticalAlign || '';
+    td.style.borderTop = getBorderStyle(format.topBorderColor, format);
+    td.style.borderBottom = getBorderStyle(format.bottomBorderColor, format);
+    td.style.borderLeft = getBorderStyle(format.verticalBorderColor, format);
+    td.style.borderRight = getBorderStyle(format.verticalBorderColor, format);
+}
+
+function getBorderStyle(color: string, format: TableFormat): string {
+    return [
+        format.borderStyle || 'solid',
+        format.borderWidth || '1px',
+        color || 'transparent',
+    ].join(' ');
 }
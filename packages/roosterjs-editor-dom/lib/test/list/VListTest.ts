@@ -0,0 +1,55 @@
+import VList from '../../list/VList';
+import { ListState } from 'roosterjs-editor-types';
+
+describe('VList', () => {
+    function createList(html: string): HTMLElement {
+        let div = document.createElement('div');
+        div.innerHTML = html;
+        return div;
+    }
+
+    it('finds the nearest list', () => {
+        let div = createList('<ol><li>1<ul><li id="inner">2</li></ul></li></ol>');
+        let vList = new VList(div.querySelector('#inner').firstChild);
+        expect(vList.getListState()).toBe(ListState.Bullets);
+        expect(new VList(div).list).toBeUndefined();
+        expect(new VList(div).getListState()).toBe(ListState.None);
+    });
+
+    it('gets style type from style or type attribute', () => {
+        let div = createList(
+            '<ol style="list-style-type: upper-roman"><li>1</li></ol><ol type="a"><li>2</li></ol>'
+        );
+        expect(new VList(div.childNodes[0]).getStyleType()).toBe('upper-roman');
+        expect(new VList(div.childNodes[1]).getStyleType()).toBe('lower-alpha');
+    });
+
+    it('changes list type with style type', () => {
+        let div = createList('<ol start="3" type="i"><li>1</li></ol>');
+        let vList = new VList(div.firstChild);
+
+        vList.setStyleType('square');
+        expect(div.innerHTML).toBe('<ul style="list-style-type: square;"><li>1</li></ul>');
+
+        vList.setStyleType('lower-alpha');
+        expect(div.innerHTML).toBe('<ol style="list-style-type: lower-alpha;"><li>1</li></ol>');
+        expect(vList.getListState()).toBe(ListState.Numbering);
+    });
+
+    it('calculates start and last number', () => {
+        let div = createList('<ol><li>1</li><li>2</li></ol>');
+        let vList = new VList(div.firstChild);
+        expect(vList.getStartNumber()).toBe(1);
+        expect(vList.getLastNumber()).toBe(2);
+
+        vList.setStartNumber(5);
+        expect(vList.getStartNumber()).toBe(5);
+        expect(vList.getLastNumber()).toBe(6);
+
+        vList.getItems()[0].value = 10;
+        expect(vList.getLastNumber()).toBe(11);
+
+        vList.setStartNumber(1);
+        expect(vList.list.hasAttribute('start')).toBe(false);
+    });
+});
@@ -0,0 +1,109 @@
+import setListItemIndentation from '../../list/setListItemIndentation';
+import { Indentation } from 'roosterjs-editor-types';
+
+describe('setListItemIndentation()', () => {
+    function runTest(
+        html: string,
+        itemIds: string[],
+        indentation: Indentation,
+        expectedHtml: string
+    ) {
+        let div = document.createElement('div');
+        div.innerHTML = html;
+        let items = itemIds.map(id => div.querySelector('#' + id) as HTMLLIElement);
+
+        setListItemIndentation(items, indentation);
+
+        expect(div.innerHTML).toBe(expectedHtml);
+    }
+
+    it('indents item into a new sub list of previous item', () => {
+        runTest(
+            '<ol><li>1</li><li id="a">2</li><li>3</li></ol>',
+            ['a'],
+            Indentation.Increase,
+            '<ol><li>1<ol><li id="a">2</li></ol></li><li>3</li></ol>'
+        );
+    });
+
+    it('indents item into existing sub list of previous item', () => {
+        runTest(
+            '<ul><li>1<ul><li>1.1</li></ul></li><li id="a">2<ul><li>2.1</li></ul></li></ul>',
+            ['a'],
+            Indentation.Increase,
+            '<ul><li>1<ul><li>1.1</li><li id="a">2<ul><li>2.1</li></ul></li></ul></li></ul>'
+        );
+    });
+
+    it('indents multiple items and skips items inside selected items', () => {
+        runTest(
+            '<ol><li>1</li><li id="a">2<ol><li id="b">2.1</li></ol></li><li id="c">3</li></ol>',
+            ['a', 'b', 'c'],
+            Indentation.Increase,
+            '<ol><li>1<ol><li id="a">2<ol><li id="b">2.1</li></ol></li><li id="c">3</li></ol></li></ol>'
+        );
+    });
+
+    it('indents first item into an invisible item', () => {
+        runTest(
+            '<ol><li id="a">1</li></ol>',
+            ['a'],
+            Indentation.Increase,
+            '<ol><li style="list-style-type: none;"><ol><li id="a">1</li></ol></li></ol>'
+        );
+    });
+
+    it('outdents item and moves following items into its sub list', () => {
+        runTest(
+            '<ol><li>1<ol><li id="a">1.1</li><li>1.2</li></ol></li><li>2</li></ol>',
+            ['a'],
+            Indentation.Decrease,
+            '<ol><li>1</li><li id="a">1.1<ol><li>1.2</li></ol></li><li>2</li></ol>'
+        );
+    });
+
+    it('outdents item and merges adjacent sub lists', () => {
+        runTest(
+            '<ol><li>1<ol><li id="a">1.1<ol><li>1.1.1</li></ol></li><li>1.2</li></ol></li></ol>',
+            ['a'],
+            Indentation.Decrease,
+            '<ol><li>1</li><li id="a">1.1<ol><li>1.1.1</li><li>1.2</li></ol></li></ol>'
+        );
+    });
+
+    it('outdents multiple items in order', () => {
+        runTest(
+            '<ul><li>1<ul><li id="a">1.1</li><li id="b">1.2</li></ul></li></ul>',
+            ['a', 'b'],
+            Indentation.Decrease,
+            '<ul><li>1</li><li id="a">1.1</li><li id="b">1.2</li></ul>'
+        );
+    });
+
+    it('outdents browser created sub list', () => {
+        runTest(
+            '<ol><li>1</li><ol><li id="a">1.1</li></ol><li>2</li></ol>',
+            ['a'],
+            Indentation.Decrease,
+            '<ol><li>1</li><li id="a">1.1</li><li>2</li></ol>'
+        );
+    });
+
+    it('outdents top level item into a DIV and splits the list', () => {
+        runTest(
+            '<ul><li>1</li><li id="a">2</li><li>3</li></ul>',
+            ['a'],
+            Indentation.Decrease,
+            '<ul><li>1</li></ul><div>2</div><ul><li>3</li></ul>'
+        );
+    });
+
+    it('removes invisible item after outdent', () => {
+        runTest(
+            '<ol><li style="list-style-type: none;"><ol><li id="a">1</li></ol></li></ol>',
+            ['a'],
+            Indentation.Decrease,
+            '<ol><li id="a">1</li></ol>'
+        );
+    });
+});
@@ -0,0 +1,148 @@
+import VTable from '../../table/VTable';
+
+describe('VTable.getSelectedRange()', () => {
+    function runTest(
+        html: string,
+        selection: [number, number, number, number],
+        expected: [number, number, number, number]
+    ) {
+        let div = document.createElement('div');
+        div.innerHTML = html;
+        let vtable = new VTable(div.firstChild as HTMLTableElement);
+        vtable.selection = selection
+            ? {
+                  anchorRow: selection[0],
+                  anchorCol: selection[1],
+                  focusRow: selection[2],
+                  focusCol: selection[3],
+              }
+            : null;
+        let range = vtable.getSelectedRange();
+        expect(
+            range ? [range.firstRow, range.firstCol, range.lastRow, range.lastCol] : null
+        ).toEqual(expected);
+    }
+
+    const TABLE_2X2 = '<table><tr><td>1</td><td>2</td></tr><tr><td>3</td><td>4</td></tr></table>';
+    const TABLE_MERGED =
+        '<table><tr><td colspan="2">1</td><td>2</td></tr>' +
+        '<tr><td>3</td><td rowspan="2">4</td><td>5</td></tr>' +
+        '<tr><td>6</td><td>7</td></tr></table>';
+
+    it('no selection', () => {
+        runTest(TABLE_2X2, null, null);
+    });
+
+    it('normalizes anchor and focus', () => {
+        runTest(TABLE_2X2, [1, 1, 0, 0], [0, 0, 1, 1]);
+        runTest(TABLE_2X2, [0, 1, 1, 1], [0, 1, 1, 1]);
+    });
+
+    it('expands to merged cells', () => {
+        runTest(TABLE_MERGED, [0, 1, 0, 1], [0, 0, 0, 1]);
+        runTest(TABLE_MERGED, [1, 0, 1, 1], [1, 0, 2, 1]);
+        runTest(TABLE_MERGED, [2, 2, 2, 1], [1, 1, 2, 2]);
+    });
+});
+
+describe('VTable.applyFormat()', () => {
+    function createVTable() {
+        let div = document.createElement('div');
+        div.innerHTML =
+            '<table><tr><td>1</td><td>2</td></tr><tr><td>3</td><td>4</td></tr>' +
+            '<tr><td>5</td><td>6</td></tr></table>';
+        return new VTable(div.firstChild as HTMLTableElement);
+    }
+
+    it('applies header row and first column', () => {
+        let vtable = createVTable();
+        vtable.applyFormat({
+            bgColorOdd: 'red',
+            bgColorEven: 'blue',
+            topBorderColor: 'green',
+            bottomBorderColor: 'green',
+            verticalBorderColor: 'green',
+            hasHeaderRow: true,
+            headerRowColor: 'yellow',
+            hasFirstColumn: true,
+            borderWidth: '2px',
+            borderStyle: 'dashed',
+            cellPadding: '3px',
+            verticalAlign: 'top',
+        });
+        vtable.writeBack();
+
+        let table = vtable.table;
+        expect(table.rows[0].cells[0].tagName).toBe('TH');
+        expect(table.rows[0].cells[0].style.backgroundColor).toBe('yellow');
+        expect(table.rows[1].cells[0].tagName).toBe('TD');
+        expect(table.rows[1].cells[0].style.fontWeight).toBe('bold');
+        expect(table.rows[1].cells[1].style.fontWeight).toBe('');
+        expect(table.rows[1].style.backgroundColor).toBe('blue');
+        expect(table.rows[2].style.backgroundColor).toBe('red');
+        expect(table.rows[2].cells[1].style.borderTop).toBe('2px dashed green');
+
+        let format = new VTable(table).getFormat();
+        expect(format.hasHeaderRow).toBe(true);
+        expect(format.headerRowColor).toBe('yellow');
+        expect(format.hasFirstColumn).toBe(true);
+        expect(format.hasBandedColumns).toBe(false);
+        expect(format.bgColorOdd).toBe('red');
+        expect(format.bgColorEven).toBe('blue');
+        expect(format.topBorderColor).toBe('green');
+        expect(format.borderWidth).toBe('2px');
+        expect(format.borderStyle).toBe('dashed');
+        expect(format.cellPadding).toBe('3px');
+        expect(format.verticalAlign).toBe('top');
+    });
+
+    it('applies banded columns', () => {
+        let vtable = createVTable();
+        vtable.applyFormat({
+            bgColorOdd: 'red',
+            bgColorEven: 'blue',
+            topBorderColor: null,
+            bottomBorderColor: null,
+            verticalBorderColor: null,
+            hasBandedColumns: true,
+        });
+        vtable.writeBack();
+
+        let table = vtable.table;
+        expect(table.rows[1].cells[0].style.backgroundColor).toBe('red');
+        expect(table.rows[1].cells[1].style.backgroundColor).toBe('blue');
+
+        let format = new VTable(table).getFormat();
+        expect(format.hasBandedColumns).toBe(true);
+        expect(format.bgColorOdd).toBe('red');
+        expect(format.bgColorEven).toBe('blue');
+    });
+
+    it('gets table format after formatting selected cells', () => {
+        let vtable = createVTable();
+        vtable.applyFormat({
+            bgColorOdd: 'red',
+            bgColorEven: 'blue',
+            topBorderColor: null,
+            bottomBorderColor: null,
+            verticalBorderColor: null,
+        });
+        vtable.selection = { anchorRow: 0, anchorCol: 0, focusRow: 1, focusCol: 0 };
+        vtable.applyFormat({
+            bgColorOdd: 'green',
+            bgColorEven: 'yellow',
+            topBorderColor: null,
+            bottomBorderColor: null,
+            verticalBorderColor: null,
+        });
+        vtable.writeBack();
+
+        let table = vtable.table;
+        expect(table.rows[0].cells[0].style.backgroundColor).toBe('green');
+
+        let format = new VTable(table).getFormat();
+        expect(format.hasBandedColumns).toBe(false);
+        expect(format.bgColorOdd).toBe('red');
+        expect(format.bgColorEven).toBe('blue');
+    });
+});
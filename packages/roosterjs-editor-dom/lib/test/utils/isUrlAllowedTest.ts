@@ -0,0 +1,54 @@
+import createSanitizePolicy from '../../utils/createSanitizePolicy';
+import isUrlAllowed, { isSrcsetAllowed } from '../../utils/isUrlAllowed';
+import { SanitizePolicyPreset } from 'roosterjs-editor-types';
+
+describe('isUrlAllowed()', () => {
+    let strictPolicy = createSanitizePolicy(SanitizePolicyPreset.Strict);
+
+    it('allows relative URLs', () => {
+        expect(isUrlAllowed('A', '/a/b', strictPolicy)).toBe(true);
+        expect(isUrlAllowed('A', 'a/b:c', strictPolicy)).toBe(true);
+        expect(isUrlAllowed('A', '?a:b', strictPolicy)).toBe(true);
+        expect(isUrlAllowed('A', '#a:b', strictPolicy)).toBe(true);
+    });
+
+    it('checks schemes with the policy', () => {
+        expect(isUrlAllowed('A', 'http://a.com', strictPolicy)).toBe(true);
+        expect(isUrlAllowed('A', 'HTTPS://a.com', strictPolicy)).toBe(true);
+        expect(isUrlAllowed('A', 'ftp://a.com', strictPolicy)).toBe(false);
+        expect(isUrlAllowed('A', 'a b:c', strictPolicy)).toBe(false);
+        expect(isUrlAllowed('A', 'ftp://a.com')).toBe(true);
+    });
+
+    it('never allows script URLs', () => {
+        expect(isUrlAllowed('A', 'javascript:alert(1)')).toBe(false);
+        expect(isUrlAllowed('A', 'VBScript:alert(1)')).toBe(false);
+    });
+
+    it('normalizes URLs before checking schemes', () => {
+        expect(isUrlAllowed('A', 'javascr\nipt:alert(1)')).toBe(false);
+        expect(isUrlAllowed('A', 'java\tscript:alert(1)')).toBe(false);
+        expect(isUrlAllowed('A', 'javascript\r:alert(1)')).toBe(false);
+        expect(isUrlAllowed('A', '\x01\x1f javascript:alert(1)')).toBe(false);
+        expect(isUrlAllowed('A', ' ftp://a.com \x00', strictPolicy)).toBe(false);
+    });
+
+    it('only allows data URLs of images', () => {
+        let policy = createSanitizePolicy(SanitizePolicyPreset.EmailSafe);
+        expect(isUrlAllowed('IMG', 'data:image/png;base64,AA', policy)).toBe(true);
+        expect(isUrlAllowed('IMG', '\tdata:image/png;base64,AA', policy)).toBe(true);
+        expect(isUrlAllowed('IMG', 'data:text/html,x', policy)).toBe(false);
+        expect(isUrlAllowed('A', 'data:image/png;base64,AA', policy)).toBe(false);
+    });
+});
+
+describe('isSrcsetAllowed()', () => {
+    let policy = createSanitizePolicy();
+    policy.allowedUrlSchemes = ['http', 'https'];
+
+    it('checks every URL in srcset', () => {
+        expect(isSrcsetAllowed('IMG', 'a.png, http://a.com/b.png 2x', policy)).toBe(true);
+        expect(isSrcsetAllowed('IMG', 'a.png 1x, ftp://a.com/b.png 2x', policy)).toBe(false);
+        expect(isSrcsetAllowed('IMG', 'a.png 1x,\njava\nscript:alert(1) 2x')).toBe(false);
+    });
+});
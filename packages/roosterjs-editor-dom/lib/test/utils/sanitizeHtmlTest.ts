@@ -1,4 +1,6 @@
+import createSanitizePolicy from '../../utils/createSanitizePolicy';
 import sanitizeHtml from '../../utils/sanitizeHtml';
+import { SanitizePolicy, SanitizePolicyPreset } from 'roosterjs-editor-types';
 
 describe('sanitizeHtml', () => {
     function runTest(source: string, exp: string) {
@@ -44,6 +46,17 @@ describe('sanitizeHtml', () => {
         runTest('aa<a href=javascript:alert("test")>cc</a>bb', 'aa<a>cc</a>bb');
         runTest('aa<form action=/>cc</form>bb', 'aa<form>cc</form>bb');
     });
+    it('Html contains script URLs with tabs, newlines and control characters', () => {
+        runTest('<a href="javascr&#10;ipt:alert(1)">a</a>', '<a>a</a>');
+        runTest('<a href="java&#9;script:alert(1)">a</a>', '<a>a</a>');
+        runTest('<a href="&#1;&#31;vbscr&#13;ipt:alert(1)">a</a>', '<a>a</a>');
+        runTest('<img srcset="a.png 1x, javascr&#10;ipt:alert(1) 2x">', '<img>');
+        runTest(
+            '<blockquote cite="javascr&#10;ipt:alert(1)">a</blockquote>',
+            '<blockquote>a</blockquote>'
+        );
+        runTest('<a href="/a/b:c">a</a>', '<a href="/a/b:c">a</a>');
+    });
     it('Html contains unnecessary CSS', () => {
         runTest(
             '<span style="color:red">aa<span style="color:red">bb</span>cc</span>',
@@ -71,3 +84,69 @@ describe('sanitizeHtml', () => {
         );
     });
 });
+
+describe('sanitizeHtml with policy', () => {
+    function runTest(source: string, exp: string, policy: SanitizePolicy) {
+        let result = sanitizeHtml(source, null, false, null, false, { color: '' }, policy);
+        expect(result).toBe(exp);
+    }
+
+    it('Strict policy', () => {
+        let policy = createSanitizePolicy(SanitizePolicyPreset.Strict);
+        runTest(
+            '<div class="c" id="i"><font color="red">a</font><span style="color:red;font-size:20px">b</span><script>x</script></div>',
+            '<div>a<span style="color:red">b</span></div>',
+            policy
+        );
+        runTest(
+            '<a href="http://a.com">a</a><a href="ftp://b">b</a><a href="/c">c</a><img src="data:image/png;base64,AA">',
+            '<a href="http://a.com">a</a><a>b</a><a href="/c">c</a><img>',
+            policy
+        );
+    });
+
+    it('Email safe policy', () => {
+        let policy = createSanitizePolicy(SanitizePolicyPreset.EmailSafe);
+        runTest(
+            '<img src="data:image/png;base64,AA"><a href="data:text/html,x">d</a>',
+            '<img src="data:image/png;base64,AA"><a>d</a>',
+            policy
+        );
+        runTest(
+            '<table width="100%"><tr><td style="width:100px;height:url(x)">a</td></tr></table>',
+            '<table width="100%"><tbody><tr><td style="width:100px">a</td></tr></tbody></table>',
+            policy
+        );
+    });
+
+    it('URL schemes of srcset and other URL attributes', () => {
+        let policy = createSanitizePolicy();
+        policy.allowedUrlSchemes = ['http', 'https'];
+        runTest(
+            '<img srcset="a.png 1x, http://a.com/b.png 2x"><img srcset="a.png 1x, ftp://a.com/b.png 2x">',
+            '<img srcset="a.png 1x, http://a.com/b.png 2x"><img>',
+            policy
+        );
+        runTest(
+            '<blockquote cite="http://a.com">a</blockquote><blockquote cite="ftp://a.com">b</blockquote>',
+            '<blockquote cite="http://a.com">a</blockquote><blockquote>b</blockquote>',
+            policy
+        );
+    });
+
+    it('Default policy keeps checklist attributes', () => {
+        runTest(
+            '<ul data-checklist="true" data-x="1"><li data-checked="true">a</li></ul><div data-checked="true">b</div>',
+            '<ul data-checklist="true"><li data-checked="true">a</li></ul><div>b</div>',
+            createSanitizePolicy()
+        );
+    });
+
+    it('Keep class and id', () => {
+        let policy = createSanitizePolicy();
+        policy.keepClass = true;
+        runTest('<span class="c" id="i">a</span>', '<span class="c">a</span>', policy);
+        policy.keepId = true;
+        runTest('<span class="c" id="i">a</span>', '<span class="c" id="i">a</span>', policy);
+    });
+});
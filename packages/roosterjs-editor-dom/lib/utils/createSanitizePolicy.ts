@@ -0,0 +1,105 @@
+import { SanitizePolicy, SanitizePolicyPreset, UnknownTagBehavior } from 'roosterjs-editor-types';
+
+const DEFAULT_ALLOWED_TAGS =
+    'BODY,H1,H2,H3,H4,H5,H6,FORM,P,BR,NOBR,HR,ACRONYM,ABBR,ADDRESS,B,BDI,BDO,BIG,BLOCKQUOTE,CENTER,CITE,CODE,DEL,DFN,EM,FONT,I,INS,KBD,MARK,METER,PRE,PROGRESS,Q,RP,RT,RUBY,S,SAMP,SMALL,STRIKE,STRONG,SUB,SUP,TEMPLATE,TIME,TT,U,VAR,WBR,XMP,INPUT,TEXTAREA,BUTTON,SELECT,OPTGROUP,OPTION,LABEL,FIELDSET,LEGEND,DATALIST,OUTPUT,IMG,MAP,AREA,CANVAS,FIGCAPTION,FIGURE,PICTURE,A,NAV,UL,OL,LI,DIR,UL,DL,DT,DD,MENU,MENUITEM,TABLE,CAPTION,TH,TR,TD,THEAD,TBODY,TFOOT,COL,COLGROUP,DIV,SPAN,HEADER,FOOTER,MAIN,SECTION,ARTICLE,ASIDE,DETAILS,DIALOG,SUMMARY,DATA';
+const DEFAULT_ALLOWED_ATTRIBUTES =
+    'accept,align,alt,checked,cite,color,cols,colspan,contextmenu,coords,datetime,default,dir,dirname,disabled,download,face,headers,height,hidden,high,href,hreflang,ismap,kind,label,lang,list,low,max,maxlength,media,min,multiple,open,optimum,pattern,placeholder,readonly,rel,required,reversed,rows,rowspan,scope,selected,shape,size,sizes,span,spellcheck,src,srclang,srcset,start,step,style,tabindex,target,title,translate,type,usemap,value,width,wrap';
+
+const EMAIL_SAFE_ALLOWED_TAGS =
+    'H1,H2,H3,H4,H5,H6,P,BR,HR,ABBR,ADDRESS,B,BDI,BDO,BIG,BLOCKQUOTE,CENTER,CITE,CODE,DEL,EM,FONT,I,INS,KBD,MARK,PRE,Q,S,SMALL,STRIKE,STRONG,SUB,SUP,TT,U,IMG,A,UL,OL,LI,DL,DT,DD,TABLE,CAPTION,TH,TR,TD,THEAD,TBODY,TFOOT,COL,COLGROUP,DIV,SPAN';
+const EMAIL_SAFE_ALLOWED_CSS =
+    'background-color,border,border-bottom,border-collapse,border-color,border-left,border-right,border-spacing,border-style,border-top,border-width,color,direction,font-family,font-size,font-style,font-weight,height,letter-spacing,line-height,list-style-type,margin,margin-bottom,margin-left,margin-right,margin-top,padding,padding-bottom,padding-left,padding-right,padding-top,text-align,text-decoration,text-indent,text-transform,vertical-align,width';
+
+const STRICT_ALLOWED_TAGS =
+    'H1,H2,H3,H4,H5,H6,P,BR,HR,B,BLOCKQUOTE,CODE,DEL,EM,I,PRE,S,STRIKE,STRONG,SUB,SUP,U,IMG,A,UL,OL,LI,TABLE,TH,TR,TD,THEAD,TBODY,TFOOT,DIV,SPAN';
+const STRICT_ALLOWED_CSS =
+    'background-color,color,font-style,font-weight,text-align,text-decoration';
+
+// CSS values which can't load resources or run expressions
+const LENGTH_REGEX = /^(auto|0|[\d.]+(px|pt|em|rem|%))$/;
+const COLOR_REGEX = /^(#[0-9a-f]{3,8}|rgba?\([\d\s,.%]+\)|[a-z]+)$/;
+
+/**
+ * Create a sanitize policy from a preset. A new object is returned every time, so it can be
+ * changed without affecting other policies
+ * @param preset The preset of the policy. Default value is SanitizePolicyPreset.Default
+ * @returns The sanitize policy
+ */
+export default function createSanitizePolicy(
+    preset: SanitizePolicyPreset = SanitizePolicyPreset.Default
+): SanitizePolicy {
+    switch (preset) {
+        case SanitizePolicyPreset.EmailSafe:
+            return {
+                allowedTags: EMAIL_SAFE_ALLOWED_TAGS.split(','),
+                allowedAttributes: {
+                    '*': ['align', 'dir', 'lang', 'style', 'title'],
+                    A: ['href', 'target', 'rel'],
+                    IMG: ['src', 'alt', 'width', 'height', 'border'],
+                    FONT: ['color', 'face', 'size'],
+                    OL: ['start', 'type'],
+                    UL: ['type'],
+                    TABLE: ['border', 'cellpadding', 'cellspacing', 'width', 'bgcolor'],
+                    TD: ['colspan', 'rowspan', 'width', 'height', 'valign', 'bgcolor'],
+                    TH: ['colspan', 'rowspan', 'width', 'height', 'valign', 'bgcolor'],
+                    TR: ['valign', 'bgcolor'],
+                    COL: ['span', 'width'],
+                    COLGROUP: ['span', 'width'],
+                },
+                allowedCssProperties: EMAIL_SAFE_ALLOWED_CSS.split(','),
+                cssValuePatterns: {
+                    width: LENGTH_REGEX,
+                    height: LENGTH_REGEX,
+                    color: COLOR_REGEX,
+                    'background-color': COLOR_REGEX,
+                },
+                allowedUrlSchemes: ['http', 'https', 'mailto', 'cid', 'data'],
+                keepClass: false,
+                keepId: false,
+                unknownTagBehavior: UnknownTagBehavior.Unwrap,
+            };
+
+        case SanitizePolicyPreset.Strict:
+            return {
+                allowedTags: STRICT_ALLOWED_TAGS.split(','),
+                allowedAttributes: {
+                    '*': ['style'],
+                    A: ['href', 'title'],
+                    IMG: ['src', 'alt', 'width', 'height'],
+                    OL: ['start'],
+                    TD: ['colspan', 'rowspan'],
+                    TH: ['colspan', 'rowspan'],
+                },
+                allowedCssProperties: STRICT_ALLOWED_CSS.split(','),
+                cssValuePatterns: {
+                    color: COLOR_REGEX,
+                    'background-color': COLOR_REGEX,
+                },
+                allowedUrlSchemes: ['http', 'https', 'mailto'],
+                keepClass: false,
+                keepId: false,
+                unknownTagBehavior: UnknownTagBehavior.Unwrap,
+            };
+
+        default:
+            return {
+                allowedTags: DEFAULT_ALLOWED_TAGS.split(','),
+                allowedAttributes: {
+                    '*': DEFAULT_ALLOWED_ATTRIBUTES.split(','),
+
+                    // Checklist created by toggleChecklist()
+                    UL: ['data-checklist'],
+                    LI: ['data-checked'],
+
+                    // Banded columns format set by VTable.applyFormat()
+                    TABLE: ['data-banded-columns'],
+                },
+                allowedCssProperties: null,
+                cssValuePatterns: {},
+                allowedUrlSchemes: null,
+                keepClass: false,
+                keepId: false,
+                unknownTagBehavior: UnknownTagBehavior.Drop,
+            };
+    }
+}
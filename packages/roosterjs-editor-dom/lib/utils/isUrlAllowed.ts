@@ -0,0 +1,74 @@
+import createSanitizePolicy from './createSanitizePolicy';
+import { SanitizePolicy } from 'roosterjs-editor-types';
+
+// These schemes can run script, so they are never allowed even if the policy allows all schemes
+const DANGEROUS_SCHEMES = ['javascript', 'vbscript'];
+const DEFAULT_POLICY = createSanitizePolicy();
+
+// C0 control characters and space
+const MAX_TRIMMED_CHAR_CODE = 0x20;
+
+/**
+ * Check if a URL in href, src or other URL attributes is allowed by the URL schemes of a sanitize policy.
+ * URL is normalized in the same way as browsers do before its scheme is checked, so scheme with
+ * tabs or newlines in it, or leading control characters before it can't bypass the check
+ * @param tag Tag of the element which the URL belongs to, in upper case
+ * @param url The URL to check
+ * @param policy (Optional) The sanitize policy. Default value is the policy of SanitizePolicyPreset.Default
+ * @returns True if the URL is allowed, otherwise false
+ */
+export default function isUrlAllowed(tag: string, url: string, policy?: SanitizePolicy): boolean {
+    url = normalizeUrl(url);
+
+    let scheme = getUrlScheme(url);
+    let allowedSchemes = (policy || DEFAULT_POLICY).allowedUrlSchemes;
+
+    // Relative URLs don't have a scheme
+    if (!scheme) {
+        return true;
+    }
+
+    return (
+        DANGEROUS_SCHEMES.indexOf(scheme) < 0 &&
+        (!allowedSchemes || allowedSchemes.indexOf(scheme) >= 0) &&
+        (scheme != 'data' || (tag == 'IMG' && /^data:image\//i.test(url)))
+    );
+}
+
+/**
+ * Check if all URLs in a srcset attribute are allowed by the URL schemes of a sanitize policy
+ * @param tag Tag of the element which the srcset attribute belongs to, in upper case
+ * @param srcset Value of the srcset attribute
+ * @param policy (Optional) The sanitize policy. Default value is the policy of SanitizePolicyPreset.Default
+ * @returns True if all the URLs are allowed, otherwise false
+ */
+export function isSrcsetAllowed(tag: string, srcset: string, policy?: SanitizePolicy): boolean {
+    // Each candidate is a URL followed by an optional descriptor, separated by comma
+    return srcset
+        .split(',')
+        .every(candidate => isUrlAllowed(tag, normalizeUrl(candidate).split(/\s/)[0], policy));
+}
+
+function normalizeUrl(url: string): string {
+    // Browsers remove tabs and newlines from URL and trim leading and trailing C0 controls and spaces
+    url = url.replace(/[\t\n\r]/g, '');
+
+    let start = 0;
+    let end = url.length;
+    while (start < end && url.charCodeAt(start) <= MAX_TRIMMED_CHAR_CODE) {
+        start++;
+    }
+    while (end > start && url.charCodeAt(end - 1) <= MAX_TRIMMED_CHAR_CODE) {
+        end--;
+    }
+    return url.substring(start, end);
+}
+
+function getUrlScheme(url: string): string {
+    // A colon before any of '/', '?' or '#' ends a scheme
+    let colonIndex = url.indexOf(':');
+    let pathIndex = url.search(/[\/?#]/);
+    return colonIndex > 0 && (pathIndex < 0 || colonIndex < pathIndex)
+        ? url.substr(0, colonIndex).toLowerCase()
+        : null;
+}
@@ -1,6 +1,14 @@
-import { NodeType } from 'roosterjs-editor-types';
-import { convertInlineCssInDom } from './convertInlineCss';
+import createSanitizePolicy from './createSanitizePolicy';
 import getTagOfNode from './getTagOfNode';
+import isUrlAllowed, { isSrcsetAllowed } from './isUrlAllowed';
+import unwrap from './unwrap';
+import {
+    NodeType,
+    SanitizePolicy,
+    SanitizeRemovedItem,
+    UnknownTagBehavior,
+} from 'roosterjs-editor-types';
+import { convertInlineCssInDom } from './convertInlineCss';
 
 const HTML_REGEX = /<html[^>]*>[\s\S]*<\/html>/i;
 const START_FRAGMENT = '<!--StartFragment-->';
@@ -9,6 +17,22 @@ const LAST_TD_END_REGEX = /<\/\s*td\s*>((?!<\/\s*tr\s*>)[\s\S])*$/i;
 const LAST_TR_END_REGEX = /<\/\s*tr\s*>((?!<\/\s*table\s*>)[\s\S])*$/i;
 const LAST_TR_REGEX = /<tr[^>]*>[^<]*/i;
 const LAST_TABLE_REGEX = /<table[^>]*>[^<]*/i;
+const DEFAULT_POLICY = createSanitizePolicy();
+
+// Content of these elements is not visible, so they are dropped even if unknown tags are unwrapped
+const ALWAYS_DROPPED_TAGS = 'SCRIPT,STYLE,TITLE,META,LINK,IFRAME,OBJECT,EMBED'.split(',');
+const URL_ATTRIBUTES = [
+    'href',
+    'src',
+    'action',
+    'formaction',
+    'background',
+    'poster',
+    'cite',
+    'longdesc',
+    'usemap',
+    'xlink:href',
+];
 
 /**
  * Callback function set for sanitizeHtml().
@@ -34,6 +58,11 @@ export type StyleMap = { [name: string]: string };
  * @param convertInlineCssOnly Whether only convert inline css and skip html content sanitizing
  * @param propertyCallbacks A callback function map to handle HTML properties
  * @param preserveFragmentOnly If set to true, only preserve the html content between <!--StartFragment--> and <!--Endfragment-->
+ * @param currentStyle Inheritable styles of the position where the HTML will be put, styles with the same value are removed
+ * @param policy (Optional) The rules of allowed tags, attributes, CSS and URLs.
+ * Default value is the policy of SanitizePolicyPreset.Default
+ * @param removedItems (Optional) An array to receive the elements, attributes and CSS properties which
+ * are removed because they are not allowed by the policy or dangerous
  */
 export default function sanitizeHtml(
     html: string,
@@ -41,7 +70,9 @@ export default function sanitizeHtml(
     convertInlineCssOnly?: boolean,
     propertyCallbacks?: SanitizeHtmlPropertyCallback,
     preserveFragmentOnly?: boolean,
-    currentStyle?: StyleMap
+    currentStyle?: StyleMap,
+    policy?: SanitizePolicy,
+    removedItems?: SanitizeRemovedItem[]
 ): string {
     let parser = new DOMParser();
     let matches = HTML_REGEX.exec(html);
@@ -76,19 +107,15 @@ export default function sanitizeHtml(
             doc.body,
             callbackPropertyNames,
             propertyCallbacks,
-            currentStyle || {}
+            currentStyle || {},
+            policy || DEFAULT_POLICY,
+            removedItems
         );
     }
 
     return doc.body.innerHTML;
 }
 
-const ALLOWED_HTML_TAGS = 'BODY,H1,H2,H3,H4,H5,H6,FORM,P,BR,NOBR,HR,ACRONYM,ABBR,ADDRESS,B,BDI,BDO,BIG,BLOCKQUOTE,CENTER,CITE,CODE,DEL,DFN,EM,FONT,I,INS,KBD,MARK,METER,PRE,PROGRESS,Q,RP,RT,RUBY,S,SAMP,SMALL,STRIKE,STRONG,SUB,SUP,TEMPLATE,TIME,TT,U,VAR,WBR,XMP,INPUT,TEXTAREA,BUTTON,SELECT,OPTGROUP,OPTION,LABEL,FIELDSET,LEGEND,DATALIST,OUTPUT,IMG,MAP,AREA,CANVAS,FIGCAPTION,FIGURE,PICTURE,A,NAV,UL,OL,LI,DIR,UL,DL,DT,DD,MENU,MENUITEM,TABLE,CAPTION,TH,TR,TD,THEAD,TBODY,TFOOT,COL,COLGROUP,DIV,SPAN,HEADER,FOOTER,MAIN,SECTION,ARTICLE,ASIDE,DETAILS,DIALOG,SUMMARY,DATA'.split(
-    ','
-);
-const ALLOWED_HTML_ATTRIBUTES = 'accept,align,alt,checked,cite,color,cols,colspan,contextmenu,coords,datetime,default,dir,dirname,disabled,download,face,headers,height,hidden,high,href,hreflang,ismap,kind,label,lang,list,low,max,maxlength,media,min,multiple,open,optimum,pattern,placeholder,readonly,rel,required,reversed,rows,rowspan,scope,selected,shape,size,sizes,span,spellcheck,src,srclang,srcset,start,step,style,tabindex,target,title,translate,type,usemap,value,width,wrap'.split(
-    ','
-);
 const DROPPED_STYLE = ['white-space'];
 
 const DEFAULT_STYLE_VALUES: { [name: string]: string } = {
@@ -153,21 +180,35 @@ function removeUnusedCssAndDangerousContent(
     node: Node,
     callbackPropertyNames: string[],
     propertyCallbacks: SanitizeHtmlPropertyCallback,
-    currentStyle: StyleMap
+    currentStyle: StyleMap,
+    policy: SanitizePolicy,
+    removedItems: SanitizeRemovedItem[]
 ) {
     let thisStyle = assign(currentStyle);
     let nodeType = node.nodeType;
     let tag = getTagOfNode(node) || '';
     let isElement = nodeType == NodeType.Element;
     let isText = nodeType == NodeType.Text;
+    let isUnknownTag =
+        isElement && tag != 'BODY' && policy.allowedTags.indexOf(tag) < 0 && tag.indexOf(':') < 0;
+    let shouldUnwrap =
+        isUnknownTag &&
+        policy.unknownTagBehavior == UnknownTagBehavior.Unwrap &&
+        ALWAYS_DROPPED_TAGS.indexOf(tag) < 0;
+
+    if (isUnknownTag) {
+        reportRemovedItem(removedItems, tag, null, null, null);
+    }
 
     if (
-        (isElement && ALLOWED_HTML_TAGS.indexOf(tag) < 0 && tag.indexOf(':') < 0) ||
+        (isUnknownTag && !shouldUnwrap) ||
         (isText && /^[\r\n]*$/g.test(node.nodeValue)) ||
         (!isElement && !isText)
     ) {
         node.parentNode.removeChild(node);
+        return;
     }
+
     if (isText && currentStyle['white-space'] == 'pre') {
         let text = node.nodeValue;
         let nbsp = '\u00A0';
@@ -177,10 +218,16 @@ function removeUnusedCssAndDangerousContent(
     } else if (nodeType == NodeType.Element) {
         let element = <HTMLElement>node;
         if (element.hasAttribute('style')) {
-            removeUnusedCss(element, thisStyle);
+            removeUnusedCss(element, thisStyle, policy, removedItems);
         }
 
-        removeDisallowedAttributes(element, callbackPropertyNames, propertyCallbacks);
+        removeDisallowedAttributes(
+            element,
+            callbackPropertyNames,
+            propertyCallbacks,
+            policy,
+            removedItems
+        );
 
         let child = element.firstChild;
         let next: Node;
@@ -190,13 +237,24 @@ function removeUnusedCssAndDangerousContent(
                 child,
                 callbackPropertyNames,
                 propertyCallbacks,
-                thisStyle
+                thisStyle,
+                policy,
+                removedItems
             );
         }
+
+        if (shouldUnwrap) {
+            unwrap(element);
+        }
     }
 }
 
-function removeUnusedCss(element: HTMLElement, thisStyle: StyleMap) {
+function removeUnusedCss(
+    element: HTMLElement,
+    thisStyle: StyleMap,
+    policy: SanitizePolicy,
+    removedItems: SanitizeRemovedItem[]
+) {
     let tag = getTagOfNode(element);
     let source = element
         .getAttribute('style')
@@ -208,13 +266,17 @@ function removeUnusedCss(element: HTMLElement, thisStyle: StyleMap) {
             let name = pair[0].trim().toLowerCase();
             let value = pair[1].trim().toLowerCase();
             let isInheritable = thisStyle[name] != undefined;
+            let isAllowed = !shouldRemove(tag, name, value) && isCssAllowed(name, value, policy);
             let keep =
                 value != 'inherit' &&
                 name.substr(0, 1) != '-' &&
                 DEFAULT_STYLE_VALUES[name] != value &&
                 ((isInheritable && value != thisStyle[name]) ||
                     (!isInheritable && value != 'initial' && value != 'normal')) &&
-                !shouldRemove(tag, name, value);
+                isAllowed;
+            if (!isAllowed) {
+                reportRemovedItem(removedItems, tag, null, name, value);
+            }
             if (keep && isInheritable) {
                 thisStyle[name] = value;
             }
@@ -248,11 +310,22 @@ function shouldRemove(tag: string, name: string, value: string) {
     return false;
 }
 
+function isCssAllowed(name: string, value: string, policy: SanitizePolicy): boolean {
+    let pattern = policy.cssValuePatterns[name];
+    return (
+        (!policy.allowedCssProperties || policy.allowedCssProperties.indexOf(name) >= 0) &&
+        (!pattern || pattern.test(value))
+    );
+}
+
 function removeDisallowedAttributes(
     element: HTMLElement,
     callbackPropertyNames: string[],
-    propertyCallbacks: SanitizeHtmlPropertyCallback
+    propertyCallbacks: SanitizeHtmlPropertyCallback,
+    policy: SanitizePolicy,
+    removedItems: SanitizeRemovedItem[]
 ) {
+    let tag = getTagOfNode(element);
     for (let i = element.attributes.length - 1; i >= 0; i--) {
         let attribute = element.attributes[i];
         let name = attribute.name.toLowerCase().trim();
@@ -265,14 +338,40 @@ function removeDisallowedAttributes(
                 element.removeAttribute(name);
             }
         } else if (
-            ALLOWED_HTML_ATTRIBUTES.indexOf(name) < 0 ||
-            value.toLowerCase().indexOf('script:') >= 0
+            !isAttributeAllowed(tag, name, policy) ||
+            value.toLowerCase().indexOf('script:') >= 0 ||
+            (URL_ATTRIBUTES.indexOf(name) >= 0 && !isUrlAllowed(tag, value, policy)) ||
+            (name == 'srcset' && !isSrcsetAllowed(tag, value, policy))
         ) {
             element.removeAttribute(attribute.name);
+            reportRemovedItem(removedItems, tag, name, null, value);
         }
     }
 }
 
+function isAttributeAllowed(tag: string, name: string, policy: SanitizePolicy): boolean {
+    let tagAttributes = policy.allowedAttributes[tag] || [];
+    let commonAttributes = policy.allowedAttributes['*'] || [];
+    return (
+        (name == 'class' && policy.keepClass) ||
+        (name == 'id' && policy.keepId) ||
+        commonAttributes.indexOf(name) >= 0 ||
+        tagAttributes.indexOf(name) >= 0
+    );
+}
+
+function reportRemovedItem(
+    removedItems: SanitizeRemovedItem[],
+    tag: string,
+    attribute: string,
+    cssProperty: string,
+    value: string
+) {
+    if (removedItems) {
+        removedItems.push({ tag, attribute, cssProperty, value });
+    }
+}
+
 function trimWithFragment(html: string): string {
     let startIndex = html.indexOf(START_FRAGMENT);
     let endIndex = html.lastIndexOf(END_FRAGMENT);
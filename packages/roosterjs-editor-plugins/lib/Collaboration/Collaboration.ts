@@ -0,0 +1,390 @@
+import CollaborationOperation from './CollaborationOperation';
+import CollaborationTransport from './CollaborationTransport';
+import { Editor, EditorPlugin } from 'roosterjs-editor-core';
+import { PluginEvent, PluginEventType, SanitizePolicy } from 'roosterjs-editor-types';
+import { Position, fromHtml, sanitizeHtml } from 'roosterjs-editor-dom';
+import {
+    BlockAnchor,
+    anchorToPosition,
+    findContentRoot,
+    getBlock,
+    getNodeAtPath,
+    getPath,
+    getTextNodes,
+    getTextOffset,
+    positionToAnchor,
+} from './blockPath';
+
+/**
+ * Source of ContentChangedEvent triggered when remote operations are applied
+ */
+export const COLLABORATION_CHANGE_SOURCE = 'Collaboration';
+
+const MUTATION_OBSERVER_INIT: MutationObserverInit = {
+    childList: true,
+    attributes: true,
+    characterData: true,
+    characterDataOldValue: true,
+    subtree: true,
+};
+
+/**
+ * An editor plugin to support collaborative editing.
+ * It sends local changes to other editors as a stream of serializable operations through the given
+ * transport, and applies operations from other editors while keeping local selection.
+ * Text changes are sent as insert/delete operations anchored by block path and text offset,
+ * all other changes are sent as format operations which replace the changed top level nodes.
+ * HTML of format operations from other editors is sanitized before it is put into editor.
+ */
+export default class Collaboration implements EditorPlugin {
+    private editor: Editor;
+    private root: Node;
+    private topNodes: Node[];
+    private observer: MutationObserver;
+    private disposer: () => void;
+    public name: 'Collaboration';
+
+    /**
+     * Create a new instance of Collaboration class
+     * @param transport The transport to send and receive operations
+     * @param sanitizePolicy (Optional) The policy used to sanitize HTML of format operations from
+     * other editors. Default value is the policy of SanitizePolicyPreset.Default
+     */
+    constructor(
+        private transport: CollaborationTransport,
+        private sanitizePolicy?: SanitizePolicy
+    ) {}
+
+    /**
+     * Initialize this plugin
+     * @param editor The editor instance
+     */
+    public initialize(editor: Editor): void {
+        this.editor = editor;
+        this.topNodes = this.getTopNodes();
+        this.observer = editor.observeMutations(this.onMutation, MUTATION_OBSERVER_INIT);
+        this.disposer = this.transport.onReceive(this.applyOperations);
+    }
+
+    /**
+     * Dispose this plugin
+     */
+    public dispose(): void {
+        this.disposer();
+        this.observer.disconnect();
+        this.disposer = null;
+        this.observer = null;
+        this.topNodes = null;
+        this.root = null;
+        this.editor = null;
+    }
+
+    /**
+     * Handle plugin events
+     * @param event The event object
+     */
+    public onPluginEvent(event: PluginEvent): void {
+        if (event.eventType == PluginEventType.ContentChanged) {
+            this.onMutation(this.observer.takeRecords());
+        }
+    }
+
+    /**
+     * Send the whole content of editor to other editors, this can be used to bring a newly joined
+     * editor to the same state
+     */
+    public syncContent() {
+        this.onMutation(this.observer.takeRecords());
+        this.transport.send([
+            {
+                type: 'format',
+                index: 0,
+                removeCount: -1,
+                html: this.editor.getContent(false /*triggerExtractContentEvent*/),
+            },
+        ]);
+    }
+
+    private onMutation = (records: MutationRecord[]) => {
+        let operations = this.createOperations(records);
+        if (operations.length > 0) {
+            this.transport.send(operations);
+        }
+    };
+
+    private applyOperations = (operations: CollaborationOperation[]) => {
+        // Send out pending local changes first, so that remote editors can stay in sync with us
+        this.onMutation(this.observer.takeRecords());
+
+        let root = this.getRoot();
+        let range = this.editor.getSelectionRange();
+        let anchors: BlockAnchor[] =
+            root && range
+                ? [Position.getStart(range), Position.getEnd(range)].map(position =>
+                      positionToAnchor(root, position.normalize())
+                  )
+                : [];
+
+        // Changes from other editors are not local edits, they should not be reverted by local undo
+        this.editor.editWithoutUndo(() =>
+            operations.forEach(operation => this.applyOperation(root, operation, anchors))
+        );
+
+        // Changes made by remote operations should not be sent again
+        this.observer.takeRecords();
+        this.topNodes = this.getTopNodes();
+
+        let positions = anchors.map(anchor => anchorToPosition(root, anchor));
+        if (positions.length == 2 && positions[0] && positions[1] && this.editor.hasFocus()) {
+            this.editor.select(positions[0], positions[1]);
+        }
+
+        this.editor.triggerContentChangedEvent(COLLABORATION_CHANGE_SOURCE, operations);
+    };
+
+    private applyOperation(root: Node, operation: CollaborationOperation, anchors: BlockAnchor[]) {
+        if (operation.type == 'format') {
+            let addedCount = this.applyFormat(
+                operation.index,
+                operation.removeCount,
+                operation.html
+            );
+            anchors.forEach(anchor =>
+                transformAnchorForFormat(anchor, operation.index, operation.removeCount, addedCount)
+            );
+        } else if (root) {
+            let block = getNodeAtPath(root, operation.path);
+            if (block) {
+                if (operation.type == 'insert') {
+                    insertText(block, operation.offset, operation.text);
+                } else {
+                    deleteText(block, operation.offset, operation.length);
+                }
+                anchors.forEach(anchor => transformAnchorForText(anchor, operation));
+            }
+        }
+    }
+
+    private applyFormat(index: number, removeCount: number, html: string): number {
+        // Operations come from other editors and can't be trusted, so HTML is always sanitized,
+        // no matter if there is sanitize policy in editor options
+        html = sanitizeHtml(
+            html,
+            null /*additionalStyleNodes*/,
+            false /*convertInlineCssOnly*/,
+            null /*propertyCallbacks*/,
+            false /*preserveFragmentOnly*/,
+            null /*currentStyle*/,
+            this.sanitizePolicy
+        );
+
+        let root = this.getRoot();
+        if (!root) {
+            this.editor.setContent(html, false /*triggerContentChangedEvent*/);
+            return this.getTopNodes().length;
+        }
+
+        let children = this.getTopNodes();
+        removeCount = removeCount < 0 ? children.length - index : removeCount;
+        children.slice(index, index + removeCount).forEach(node => root.removeChild(node));
+
+        let nodes = fromHtml(html, root.ownerDocument);
+        let refNode = children[index + removeCount] || null;
+        nodes.forEach(node => root.insertBefore(node, refNode));
+        return nodes.length;
+    }
+
+    private createOperations(records: MutationRecord[]): CollaborationOperation[] {
+        let root = this.getRoot(records);
+        if (!root || records.length == 0) {
+            return [];
+        }
+
+        let dirtyNodes: Node[] = [];
+        let textChanges: { node: Text; oldValue: string }[] = [];
+
+        records.forEach(record => {
+            let topNode = this.getTopNode(record.target);
+            if (!topNode) {
+                return;
+            }
+
+            if (record.type == 'characterData' && topNode != record.target) {
+                if (textChanges.filter(change => change.node == record.target).length == 0) {
+                    textChanges.push({ node: <Text>record.target, oldValue: record.oldValue });
+                }
+            } else if (dirtyNodes.indexOf(topNode) < 0) {
+                dirtyNodes.push(topNode);
+            }
+        });
+
+        let oldNodes = this.topNodes;
+        let newNodes = this.getTopNodes();
+        let isClean = (i: number, j: number) =>
+            oldNodes[i] == newNodes[j] && dirtyNodes.indexOf(newNodes[j]) < 0;
+        let start = 0;
+        let end = 0;
+
+        while (start < oldNodes.length && start < newNodes.length && isClean(start, start)) {
+            start++;
+        }
+        while (
+            end < oldNodes.length - start &&
+            end < newNodes.length - start &&
+            isClean(oldNodes.length - end - 1, newNodes.length - end - 1)
+        ) {
+            end++;
+        }
+
+        let operations: CollaborationOperation[] = [];
+        let changedNodes = newNodes.slice(start, newNodes.length - end);
+        let removeCount = oldNodes.length - start - end;
+
+        if (removeCount > 0 || changedNodes.length > 0) {
+            let div = root.ownerDocument.createElement('div');
+            changedNodes.forEach(node => div.appendChild(node.cloneNode(true /*deep*/)));
+            operations.push({
+                type: 'format',
+                index: start,
+                removeCount,
+                html: div.innerHTML,
+            });
+        }
+
+        textChanges
+            .filter(change => changedNodes.indexOf(this.getTopNode(change.node)) < 0)
+            .sort((change1, change2) => compareNodes(change1.node, change2.node))
+            .forEach(change => {
+                let block = getBlock(root, change.node);
+                let path = getPath(root, block);
+                let offset = getTextOffset(block, change.node, 0);
+                let oldValue = change.oldValue || '';
+                let newValue = change.node.nodeValue || '';
+                let prefix = 0;
+                let suffix = 0;
+
+                while (
+                    prefix < oldValue.length &&
+                    prefix < newValue.length &&
+                    oldValue[prefix] == newValue[prefix]
+                ) {
+                    prefix++;
+                }
+                while (
+                    suffix < oldValue.length - prefix &&
+                    suffix < newValue.length - prefix &&
+                    oldValue[oldValue.length - suffix - 1] == newValue[newValue.length - suffix - 1]
+                ) {
+                    suffix++;
+                }
+
+                let deleteLength = oldValue.length - prefix - suffix;
+                let insertText = newValue.substring(prefix, newValue.length - suffix);
+
+                if (deleteLength > 0) {
+                    operations.push({
+                        type: 'delete',
+                        path,
+                        offset: offset + prefix,
+                        length: deleteLength,
+                    });
+                }
+                if (insertText) {
+                    operations.push({
+                        type: 'insert',
+                        path,
+                        offset: offset + prefix,
+                        text: insertText,
+                    });
+                }
+            });
+
+        this.topNodes = newNodes;
+        return operations;
+    }
+
+    private getRoot(records?: MutationRecord[]): Node {
+        if (!this.root) {
+            this.root = findContentRoot(this.editor, (records || []).map(record => record.target));
+        }
+        return this.root;
+    }
+
+    private getTopNodes(): Node[] {
+        let root = this.getRoot();
+        return root ? [].slice.call(root.childNodes) : [];
+    }
+
+    private getTopNode(node: Node): Node {
+        let root = this.getRoot();
+        while (node && node.parentNode != root) {
+            node = node.parentNode;
+        }
+        return node;
+    }
+}
+
+function insertText(block: Node, offset: number, text: string) {
+    let texts = getTextNodes(block);
+    for (let i = 0; i < texts.length; i++) {
+        let length = texts[i].nodeValue.length;
+        if (offset <= length) {
+            texts[i].insertData(offset, text);
+            return;
+        }
+        offset -= length;
+    }
+    block.appendChild(block.ownerDocument.createTextNode(text));
+}
+
+function deleteText(block: Node, offset: number, length: number) {
+    getTextNodes(block).forEach(text => {
+        let textLength = text.nodeValue.length;
+        if (length > 0 && offset < textLength) {
+            let count = Math.min(length, textLength - offset);
+            text.deleteData(offset, count);
+            length -= count;
+            offset = 0;
+        } else {
+            offset -= textLength;
+        }
+    });
+}
+
+function transformAnchorForFormat(
+    anchor: BlockAnchor,
+    index: number,
+    removeCount: number,
+    addedCount: number
+) {
+    let topIndex = anchor.path[0];
+    if (topIndex === undefined || topIndex < index) {
+        return;
+    } else if (removeCount < 0 || topIndex < index + removeCount) {
+        // The block of this anchor is replaced, move it to the beginning of new content
+        anchor.path = [index];
+        anchor.offset = 0;
+    } else {
+        anchor.path[0] = topIndex - removeCount + addedCount;
+    }
+}
+
+function transformAnchorForText(anchor: BlockAnchor, operation: CollaborationOperation) {
+    if (operation.type == 'format' || anchor.path.join() != operation.path.join()) {
+        return;
+    } else if (operation.type == 'insert') {
+        if (anchor.offset > operation.offset) {
+            anchor.offset += operation.text.length;
+        }
+    } else if (anchor.offset > operation.offset) {
+        anchor.offset = Math.max(operation.offset, anchor.offset - operation.length);
+    }
+}
+
+function compareNodes(node1: Node, node2: Node): number {
+    return node1 == node2
+        ? 0
+        : node1.compareDocumentPosition(node2) & Node.DOCUMENT_POSITION_FOLLOWING
+            ? -1
+            : 1;
+}
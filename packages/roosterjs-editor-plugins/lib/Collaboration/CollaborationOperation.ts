@@ -0,0 +1,55 @@
+/**
+ * Insert text into a block
+ */
+export interface InsertTextOperation {
+    type: 'insert';
+
+    /** Child indexes from editor content DIV to the block element */
+    path: number[];
+
+    /** Offset of text inside the block */
+    offset: number;
+
+    /** The text to insert */
+    text: string;
+}
+
+/**
+ * Delete text from a block
+ */
+export interface DeleteTextOperation {
+    type: 'delete';
+
+    /** Child indexes from editor content DIV to the block element */
+    path: number[];
+
+    /** Offset of text inside the block */
+    offset: number;
+
+    /** Length of text to delete */
+    length: number;
+}
+
+/**
+ * Replace some top level nodes of editor content with new HTML. This is used for all changes
+ * other than text changes, e.g. format changes, adding/removing blocks
+ */
+export interface FormatOperation {
+    type: 'format';
+
+    /** Index of the first top level node to replace */
+    index: number;
+
+    /** Count of top level nodes to remove. Negative value means to remove all nodes from index */
+    removeCount: number;
+
+    /** HTML of new nodes to insert */
+    html: string;
+}
+
+/**
+ * A serializable operation of editor content change
+ */
+type CollaborationOperation = InsertTextOperation | DeleteTextOperation | FormatOperation;
+
+export default CollaborationOperation;
@@ -0,0 +1,52 @@
+import CollaborationOperation from './CollaborationOperation';
+
+/**
+ * Transport of collaboration operations between editors
+ * Operations must be delivered to all other editors in the same order
+ */
+export default interface CollaborationTransport {
+    /**
+     * Send local operations to other editors
+     * @param operations The operations to send
+     */
+    send: (operations: CollaborationOperation[]) => void;
+
+    /**
+     * Register a callback to receive operations from other editors
+     * @param callback The callback to receive operations
+     * @returns A dispose function to unregister the callback
+     */
+    onReceive: (callback: (operations: CollaborationOperation[]) => void) => () => void;
+}
+
+/**
+ * Create transports which deliver operations to each other in memory.
+ * Operations are serialized to JSON and delivered synchronously
+ * @param count Number of transports to create. Default value is 2
+ */
+export function createInMemoryTransports(count: number = 2): CollaborationTransport[] {
+    let receivers: ((operations: CollaborationOperation[]) => void)[][] = [];
+    let transports: CollaborationTransport[] = [];
+
+    for (let i = 0; i < count; i++) {
+        receivers.push([]);
+        transports.push({
+            send: operations => {
+                let json = JSON.stringify(operations);
+                receivers.forEach((callbacks, j) => {
+                    if (j != i) {
+                        callbacks.forEach(callback => callback(JSON.parse(json)));
+                    }
+                });
+            },
+            onReceive: callback => {
+                receivers[i].push(callback);
+                return () => {
+                    receivers[i] = receivers[i].filter(c => c != callback);
+                };
+            },
+        });
+    }
+
+    return transports;
+}
@@ -0,0 +1,144 @@
+import { Editor } from 'roosterjs-editor-core';
+import { Position, isBlockElement } from 'roosterjs-editor-dom';
+
+/**
+ * A position inside editor content which can be shared between editors,
+ * represented by the path to a block and the text offset inside the block
+ */
+export interface BlockAnchor {
+    /** Child indexes from editor content DIV to the block element */
+    path: number[];
+
+    /** Offset of text inside the block */
+    offset: number;
+}
+
+/**
+ * Find the content DIV of editor, or null if editor has no content
+ * @param editor The editor instance
+ * @param nodes Additional nodes inside editor to start searching from
+ */
+export function findContentRoot(editor: Editor, nodes: Node[] = []): Node {
+    let block = editor.getBodyTraverser().currentBlockElement;
+    nodes = block ? [block.getStartNode()].concat(nodes) : nodes;
+
+    for (let i = 0; i < nodes.length; i++) {
+        // Editor content DIV is the first ancestor which is not contained by editor.
+        // Detached nodes are skipped since their children are not contained by editor either
+        let node = nodes[i];
+        while (node && editor.contains(node)) {
+            node = node.parentNode;
+        }
+        if (node && node.firstChild && editor.contains(node.firstChild)) {
+            return node;
+        }
+    }
+    return null;
+}
+
+/**
+ * Get the nearest block element of the given node, or the root node if there isn't
+ * @param root Root node of editor content
+ * @param node The node to start from
+ */
+export function getBlock(root: Node, node: Node): Node {
+    let block = node;
+    while (block && block != root && !(block instanceof HTMLElement && isBlockElement(block))) {
+        block = block.parentNode;
+    }
+    return block || root;
+}
+
+/**
+ * Get child indexes from root node to the given node
+ * @param root Root node of editor content
+ * @param node The node to get path of
+ */
+export function getPath(root: Node, node: Node): number[] {
+    let path: number[] = [];
+    for (; node && node != root; node = node.parentNode) {
+        let index = 0;
+        for (let child = node.previousSibling; child; child = child.previousSibling) {
+            index++;
+        }
+        path.unshift(index);
+    }
+    return path;
+}
+
+/**
+ * Get the node at the given path from root node, or null if the path doesn't exist
+ * @param root Root node of editor content
+ * @param path Child indexes from root node
+ */
+export function getNodeAtPath(root: Node, path: number[]): Node {
+    let node = root;
+    for (let i = 0; node && i < path.length; i++) {
+        node = node.childNodes[path[i]];
+    }
+    return node || null;
+}
+
+/**
+ * Get text offset of the given position inside the given block
+ * @param block The block node
+ * @param node Node of the position
+ * @param offset Offset of the position
+ */
+export function getTextOffset(block: Node, node: Node, offset: number): number {
+    let range = block.ownerDocument.createRange();
+    range.setStart(block, 0);
+    range.setEnd(node, offset);
+    return range.toString().length;
+}
+
+/**
+ * Convert a position to block anchor
+ * @param root Root node of editor content
+ * @param position The position to convert
+ */
+export function positionToAnchor(root: Node, position: Position): BlockAnchor {
+    let block = getBlock(root, position.node);
+    return {
+        path: getPath(root, block),
+        offset: getTextOffset(block, position.node, position.offset),
+    };
+}
+
+/**
+ * Convert a block anchor to position, or null if the block doesn't exist
+ * @param root Root node of editor content
+ * @param anchor The anchor to convert
+ */
+export function anchorToPosition(root: Node, anchor: BlockAnchor): Position {
+    let block = getNodeAtPath(root, anchor.path);
+    if (!block) {
+        return null;
+    }
+
+    let offset = anchor.offset;
+    let texts = getTextNodes(block);
+    for (let i = 0; i < texts.length; i++) {
+        let length = texts[i].nodeValue.length;
+        if (offset <= length) {
+            return new Position(texts[i], offset);
+        }
+        offset -= length;
+    }
+
+    let lastText = texts[texts.length - 1];
+    return lastText ? new Position(lastText, lastText.nodeValue.length) : new Position(block, 0);
+}
+
+/**
+ * Get all text nodes under the given node, in document order
+ * @param node The node to get text nodes from
+ */
+export function getTextNodes(node: Node): Text[] {
+    let result: Text[] = [];
+    let walker = node.ownerDocument.createTreeWalker(node, NodeFilter.SHOW_TEXT, null, false);
+    while (walker.nextNode()) {
+        result.push(<Text>walker.currentNode);
+    }
+    return result;
+}
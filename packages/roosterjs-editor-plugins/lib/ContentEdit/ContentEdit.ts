@@ -1,6 +1,7 @@
 import { AutoLink } from './features/autoLinkFeatures';
-import { DefaultShortcut } from './features/shortcutFeatures';
+import ShortcutRegistry from './ShortcutRegistry';
 import { Editor, EditorPlugin } from 'roosterjs-editor-core';
+import { getDefaultShortcut } from './features/shortcutFeatures';
 import { TabInTable, UpDownInTable } from './features/tableFeatures';
 import { PluginEvent, PluginEventType } from 'roosterjs-editor-types';
 import ContentEditFeatures, {
@@ -18,6 +19,22 @@ import {
     OutdentWhenEnterOnEmptyLine,
     getSmartOrderedList,
 } from './features/listFeatures';
+import {
+    AutoChecklist,
+    OutdentChecklistWhenBackOnEmptyLine,
+    ToggleCheckedWhenClick,
+    UncheckNewItemWhenEnter,
+} from './features/checklistFeatures';
+import {
+    AutoBlockQuote,
+    AutoBold,
+    AutoCodeBlock,
+    AutoHeader,
+    AutoHorizontalRule,
+    AutoInlineCode,
+    AutoItalic,
+    AutoStrikethrough,
+} from './features/markdownFeatures';
 import {
     UnquoteWhenBackOnEmpty1stLine,
     UnquoteWhenEnterOnEmptyLine,
@@ -34,6 +51,9 @@ import {
  * 6. Tab in table
  * 7. Up/Down in table
  * 8. Manage list style
+ * 9. Markdown style auto format, i.e. headers, blockquote, code block, horizontal rule, bold, italic
+ * 10. Keyboard shortcuts, which can be customized using ShortcutRegistry
+ * 11. Checklist, i.e. auto checklist, uncheck new item, outdent empty item and toggle checked state
  */
 export default class ContentEdit implements EditorPlugin {
     private editor: Editor;
@@ -44,8 +64,20 @@ export default class ContentEdit implements EditorPlugin {
     /**
      * Create instance of ContentEdit plugin
      * @param features An optional feature set to determine which features the plugin should provide
+     * @param shortcuts An optional shortcut registry used by DefaultShortcut feature. When not
+     * specified, a registry with default bindings will be used
      */
-    constructor(private featureSet?: ContentEditFeatures) {}
+    constructor(private featureSet?: ContentEditFeatures, private shortcuts?: ShortcutRegistry) {}
+
+    /**
+     * Get the shortcut registry used by this plugin, to add, override or query shortcuts
+     */
+    public getShortcuts(): ShortcutRegistry {
+        if (!this.shortcuts) {
+            this.shortcuts = new ShortcutRegistry();
+        }
+        return this.shortcuts;
+    }
 
     /**
      * Initialize this plugin
@@ -57,6 +89,9 @@ export default class ContentEdit implements EditorPlugin {
         [
             IndentWhenTab,
             OutdentWhenShiftTab,
+            OutdentChecklistWhenBackOnEmptyLine,
+            UncheckNewItemWhenEnter,
+            ToggleCheckedWhenClick,
             OutdentWhenBackOn1stEmptyLine,
             OutdentWhenEnterOnEmptyLine,
             MergeInNewLine,
@@ -65,8 +100,17 @@ export default class ContentEdit implements EditorPlugin {
             TabInTable,
             UpDownInTable,
             AutoBullet,
+            AutoChecklist,
+            AutoHeader,
+            AutoBlockQuote,
+            AutoCodeBlock,
+            AutoHorizontalRule,
+            AutoBold,
+            AutoItalic,
+            AutoStrikethrough,
+            AutoInlineCode,
             AutoLink,
-            DefaultShortcut,
+            getDefaultShortcut(this.getShortcuts()),
             getSmartOrderedList(featureSet.smartOrderedListStyles),
         ]
             .filter(feature => feature.isAvailable(featureSet))
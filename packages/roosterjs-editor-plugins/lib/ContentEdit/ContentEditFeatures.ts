@@ -54,6 +54,78 @@ interface ContentEditFeatures {
      */
     autoBullet: boolean;
 
+    /**
+     * When press space after "[ ]" or "[x]" in an empty line, toggle checklist
+     * @default true
+     */
+    autoChecklist: boolean;
+
+    /**
+     * When press Enter in a checklist item, make the new item unchecked
+     * @default true
+     */
+    uncheckNewItemWhenEnter: boolean;
+
+    /**
+     * When press Backspace on empty line in a checklist, outdent current list item
+     * @default true
+     */
+    outdentChecklistWhenBackspaceOnEmptyLine: boolean;
+
+    /**
+     * When click on the checkbox of a checklist item, toggle its checked state
+     * @default true
+     */
+    toggleCheckedWhenClick: boolean;
+
+    /**
+     * When press space after "#" to "######" in an empty line, toggle header of the same level
+     * @default true
+     */
+    autoHeader: boolean;
+
+    /**
+     * When press space after ">" in an empty line, toggle blockquote
+     * @default true
+     */
+    autoBlockQuote: boolean;
+
+    /**
+     * When press space after "```" in an empty line, toggle code block
+     * @default true
+     */
+    autoCodeBlock: boolean;
+
+    /**
+     * When press Enter after "---" in an empty line, replace it with a horizontal rule
+     * @default true
+     */
+    autoHorizontalRule: boolean;
+
+    /**
+     * When press space after text wrapped by "**" or "__", make the text bold
+     * @default true
+     */
+    autoBold: boolean;
+
+    /**
+     * When press space after text wrapped by "*" or "_", make the text italic
+     * @default true
+     */
+    autoItalic: boolean;
+
+    /**
+     * When press space after text wrapped by "~~", add strike through line to the text
+     * @default true
+     */
+    autoStrikethrough: boolean;
+
+    /**
+     * When press space after text wrapped by "`", format the text as inline code
+     * @default true
+     */
+    autoInlineCode: boolean;
+
     /**
      * When press TAB or SHIFT+TAB key in table cell, jump to next/previous table cell
      * @default true
@@ -107,6 +179,18 @@ export function getDefaultContentEditFeatures(): ContentEditFeatures {
         unquoteWhenBackspaceOnEmptyFirstLine: true,
         unquoteWhenEnterOnEmptyLine: true,
         autoBullet: true,
+        autoChecklist: true,
+        uncheckNewItemWhenEnter: true,
+        outdentChecklistWhenBackspaceOnEmptyLine: true,
+        toggleCheckedWhenClick: true,
+        autoHeader: true,
+        autoBlockQuote: true,
+        autoCodeBlock: true,
+        autoHorizontalRule: true,
+        autoBold: true,
+        autoItalic: true,
+        autoStrikethrough: true,
+        autoInlineCode: true,
         tabInTable: true,
         upDownInTable: true,
         defaultShortcut: true,
@@ -132,8 +216,11 @@ export const enum Keys {
     TAB = 9,
     ENTER = 13,
     SPACE = 32,
+    LEFT = 37,
     UP = 38,
+    RIGHT = 39,
     DOWN = 40,
+    DELETE = 46,
     B = 66,
     I = 73,
     U = 85,
@@ -146,4 +233,5 @@ export const enum Keys {
     Meta = 0x200,
     Shift = 0x400,
     CONTENTCHANGED = 0x800,
+    Alt = 0x1000,
 }
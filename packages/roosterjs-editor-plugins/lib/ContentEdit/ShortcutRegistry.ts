@@ -0,0 +1,370 @@
+import { Browser } from 'roosterjs-editor-dom';
+import { Editor } from 'roosterjs-editor-core';
+import { FontSizeChange } from 'roosterjs-editor-types';
+import { Keys } from './ContentEditFeatures';
+import {
+    changeFontSize,
+    toggleBold,
+    toggleItalic,
+    toggleUnderline,
+    toggleBullet,
+    toggleNumbering,
+} from 'roosterjs-editor-api';
+
+/**
+ * Action of a shortcut, can be a format API function or any custom command
+ */
+export type ShortcutAction = (editor: Editor) => any;
+
+/**
+ * A binding from key chords to an action
+ */
+export interface ShortcutBinding {
+    /**
+     * Name of the command, used to override or remove this binding
+     */
+    command: string;
+
+    /**
+     * Key chords to trigger this command, e.g. 'Mod+B', 'Ctrl+Alt+1', 'F2'.
+     * Use space to separate a multi-key sequence, e.g. 'Mod+K Mod+C'.
+     * 'Mod' means Cmd on Mac and Ctrl on other platforms.
+     */
+    keys: string[];
+
+    /**
+     * Key chords used on Mac instead of keys, when the Mac shortcut is not just a mapping of 'Mod'
+     */
+    macKeys?: string[];
+
+    /**
+     * The action to run when the shortcut is triggered
+     */
+    action: ShortcutAction;
+
+    /**
+     * An optional description of this command, for rendering help or tooltips
+     */
+    description?: string;
+}
+
+/**
+ * Result of matching a key sequence with shortcut bindings
+ */
+export interface ShortcutMatch {
+    /**
+     * The matched binding, or null if the sequence is only a prefix of some bindings
+     */
+    binding: ShortcutBinding;
+
+    /**
+     * Whether the key sequence is a prefix of a multi-key sequence
+     */
+    isPrefix: boolean;
+}
+
+const MODIFIERS: { [name: string]: Keys } = {
+    ctrl: Keys.Ctrl,
+    control: Keys.Ctrl,
+    shift: Keys.Shift,
+    alt: Keys.Alt,
+    option: Keys.Alt,
+    meta: Keys.Meta,
+    cmd: Keys.Meta,
+    command: Keys.Meta,
+};
+
+const KEY_NAMES: { [name: string]: number } = {
+    Backspace: 8,
+    Tab: 9,
+    Enter: 13,
+    Escape: 27,
+    Space: 32,
+    PageUp: 33,
+    PageDown: 34,
+    End: 35,
+    Home: 36,
+    Left: 37,
+    Up: 38,
+    Right: 39,
+    Down: 40,
+    Insert: 45,
+    Delete: 46,
+    ';': 186,
+    '=': 187,
+    ',': 188,
+    '-': 189,
+    '.': 190,
+    '/': 191,
+    '`': 192,
+    '[': 219,
+    '\\': 220,
+    ']': 221,
+    "'": 222,
+};
+
+// Mask of the key code part of a chord, modifiers are stored in higher bits
+const KEY_CODE_MASK = 0xff;
+
+const DEFAULT_BINDINGS: ShortcutBinding[] = [
+    createBinding('bold', 'Mod+B', toggleBold),
+    createBinding('italic', 'Mod+I', toggleItalic),
+    createBinding('underline', 'Mod+U', toggleUnderline),
+    createBinding('undo', 'Mod+Z', editor => editor.undo()),
+    createBinding('redo', 'Mod+Y', editor => editor.redo(), 'Mod+Shift+Z'),
+    createBinding('bullet', 'Mod+.', toggleBullet),
+    createBinding('numbering', 'Mod+/', toggleNumbering),
+    createBinding('increaseFontSize', 'Mod+Shift+.', editor =>
+        changeFontSize(editor, FontSizeChange.Increase)
+    ),
+    createBinding('decreaseFontSize', 'Mod+Shift+,', editor =>
+        changeFontSize(editor, FontSizeChange.Decrease)
+    ),
+];
+
+/**
+ * A registry of keyboard shortcuts, used by the DefaultShortcut feature of ContentEdit plugin.
+ * It contains bindings of bold, italic, underline, undo, redo, bullet, numbering,
+ * increaseFontSize and decreaseFontSize commands by default.
+ */
+export default class ShortcutRegistry {
+    private bindings: ShortcutBinding[] = [];
+
+    /**
+     * Create a new instance of ShortcutRegistry
+     * @param includeDefaults Whether to include the default bindings. Default value is true
+     * @param isMac Whether to use Mac key mapping. Default value is detected from current browser
+     */
+    constructor(includeDefaults: boolean = true, private isMac: boolean = Browser.isMac) {
+        if (includeDefaults) {
+            DEFAULT_BINDINGS.forEach(binding => this.register(binding));
+        }
+    }
+
+    /**
+     * Add a binding. If there is already a binding with the same command, it will be replaced
+     * @param binding The binding to add
+     */
+    public register(binding: ShortcutBinding) {
+        // Parse keys here so that invalid keys are reported when registering
+        getKeys(binding, this.isMac).forEach(keys => parseSequence(keys, this.isMac));
+        this.remove(binding.command);
+        this.bindings.push({ ...binding });
+    }
+
+    /**
+     * Bind key chords to a command. This is a shortcut of register()
+     * @param command Name of the command
+     * @param keys Key chords of the command, e.g. 'Mod+Shift+X'
+     * @param action The action to run
+     * @param description An optional description of the command
+     */
+    public bind(
+        command: string,
+        keys: string | string[],
+        action: ShortcutAction,
+        description?: string
+    ) {
+        this.register({
+            command,
+            keys: typeof keys == 'string' ? [keys] : keys,
+            action,
+            description,
+        });
+    }
+
+    /**
+     * Change key chords of an existing command, e.g. to override a default binding
+     * @param command Name of the command
+     * @param keys New key chords of the command. Pass an empty array to disable the shortcut but
+     * keep the command in registry
+     * @param macKeys New key chords of the command on Mac, if it is not just a mapping of 'Mod'
+     */
+    public setKeys(command: string, keys: string[], macKeys?: string[]) {
+        let binding = this.getBinding(command);
+        if (binding) {
+            this.register({ ...binding, keys, macKeys });
+        }
+    }
+
+    /**
+     * Remove a binding, e.g. to disable a default shortcut
+     * @param command Name of the command to remove
+     */
+    public remove(command: string) {
+        this.bindings = this.bindings.filter(binding => binding.command != command);
+    }
+
+    /**
+     * Get binding of the given command
+     * @param command Name of the command
+     * @returns The binding, or null if not found
+     */
+    public getBinding(command: string): ShortcutBinding {
+        return this.bindings.filter(binding => binding.command == command)[0] || null;
+    }
+
+    /**
+     * Get all bindings in this registry
+     */
+    public getBindings(): ShortcutBinding[] {
+        return this.bindings.slice();
+    }
+
+    /**
+     * Get display text of the key chords of a command on current platform, e.g. 'Ctrl+B' or 'Cmd+B'.
+     * @param command Name of the command
+     * @returns The display text of the first key chords of the command, or null if there is not any
+     */
+    public getShortcutText(command: string): string {
+        let binding = this.getBinding(command);
+        let keys = binding && getKeys(binding, this.isMac)[0];
+        return keys
+            ? parseSequence(keys, this.isMac)
+                  .map(chord => getChordText(chord, this.isMac))
+                  .join(' ')
+            : null;
+    }
+
+    /**
+     * Find the binding triggered by the given key sequence
+     * @param sequence The sequence of key chords, each chord is the key code combined with
+     * modifier flags of Keys
+     * @returns The match result, or null if there is no binding for the sequence
+     */
+    public match(sequence: number[]): ShortcutMatch {
+        let isPrefix = false;
+
+        for (let binding of this.bindings) {
+            for (let keys of getKeys(binding, this.isMac)) {
+                let chords = parseSequence(keys, this.isMac);
+                if (chords.length < sequence.length) {
+                    continue;
+                } else if (sequence.every((chord, i) => chords[i] == chord)) {
+                    if (chords.length == sequence.length) {
+                        return { binding, isPrefix: false };
+                    }
+                    isPrefix = true;
+                }
+            }
+        }
+
+        return isPrefix ? { binding: null, isPrefix } : null;
+    }
+
+    /**
+     * Parse a key chord such as 'Mod+Shift+Z' into key code combined with modifier flags of Keys
+     * @param chord The key chord to parse
+     */
+    public parseChord(chord: string): number {
+        return parseChord(chord, this.isMac);
+    }
+
+    /**
+     * Get all key codes which can be used by a shortcut
+     */
+    public static getSupportedKeyCodes(): number[] {
+        let codes: number[] = [];
+        for (let i = 0; i < 26; i++) {
+            codes.push(65 + i); // A-Z
+        }
+        for (let i = 0; i < 10; i++) {
+            codes.push(48 + i); // 0-9
+        }
+        for (let i = 0; i < 12; i++) {
+            codes.push(112 + i); // F1-F12
+        }
+        Object.keys(KEY_NAMES).forEach(name => {
+            if (codes.indexOf(KEY_NAMES[name]) < 0) {
+                codes.push(KEY_NAMES[name]);
+            }
+        });
+        return codes;
+    }
+}
+
+function createBinding(
+    command: string,
+    keys: string,
+    action: ShortcutAction,
+    macKeys?: string
+): ShortcutBinding {
+    return {
+        command,
+        keys: [keys],
+        macKeys: macKeys ? [macKeys] : undefined,
+        action,
+    };
+}
+
+function getKeys(binding: ShortcutBinding, isMac: boolean): string[] {
+    return (isMac && binding.macKeys) || binding.keys;
+}
+
+function parseSequence(keys: string, isMac: boolean): number[] {
+    return keys
+        .split(' ')
+        .filter(chord => !!chord)
+        .map(chord => parseChord(chord, isMac));
+}
+
+function parseChord(chord: string, isMac: boolean): number {
+    let result = 0;
+    let keyCode = 0;
+
+    chord.split('+').forEach(part => {
+        let name = part.trim().toLowerCase();
+        if (name == 'mod') {
+            result |= isMac ? Keys.Meta : Keys.Ctrl;
+        } else if (MODIFIERS[name]) {
+            result |= MODIFIERS[name];
+        } else {
+            keyCode = getKeyCode(name);
+        }
+    });
+
+    if (!keyCode) {
+        throw new Error('Invalid shortcut key: ' + chord);
+    }
+
+    return result | keyCode;
+}
+
+function getKeyCode(name: string): number {
+    if (/^[a-z0-9]$/.test(name)) {
+        return name.toUpperCase().charCodeAt(0);
+    } else if (/^f([1-9]|1[0-2])$/.test(name)) {
+        return 111 + parseInt(name.substr(1));
+    } else {
+        let keyName = Object.keys(KEY_NAMES).filter(key => key.toLowerCase() == name)[0];
+        return keyName ? KEY_NAMES[keyName] : 0;
+    }
+}
+
+function getChordText(chord: number, isMac: boolean): string {
+    let keyCode = chord & KEY_CODE_MASK;
+    let parts: string[] = [];
+
+    if (chord & Keys.Ctrl) {
+        parts.push('Ctrl');
+    }
+    if (chord & Keys.Alt) {
+        parts.push(isMac ? 'Option' : 'Alt');
+    }
+    if (chord & Keys.Shift) {
+        parts.push('Shift');
+    }
+    if (chord & Keys.Meta) {
+        parts.push(isMac ? 'Cmd' : 'Meta');
+    }
+
+    if ((keyCode >= 65 && keyCode <= 90) || (keyCode >= 48 && keyCode <= 57)) {
+        parts.push(String.fromCharCode(keyCode));
+    } else if (keyCode >= 112 && keyCode <= 123) {
+        parts.push('F' + (keyCode - 111));
+    } else {
+        parts.push(Object.keys(KEY_NAMES).filter(name => KEY_NAMES[name] == keyCode)[0]);
+    }
+
+    return parts.join('+');
+}
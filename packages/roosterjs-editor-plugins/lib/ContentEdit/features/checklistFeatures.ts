@@ -0,0 +1,140 @@
+import { Browser, getComputedStyle, isNodeEmpty } from 'roosterjs-editor-dom';
+import { ChangeSource, Indentation, PluginKeyboardEvent } from 'roosterjs-editor-types';
+import { ContentEditFeature, Keys } from '../ContentEditFeatures';
+import { Editor, cacheGetContentSearcher } from 'roosterjs-editor-core';
+import {
+    cacheGetNodeAtCursor,
+    ensureChecklistStyle,
+    getNodeAtCursor,
+    isChecked,
+    isChecklist,
+    setChecked,
+    setIndentation,
+    toggleChecklist,
+} from 'roosterjs-editor-api';
+
+const UNCHECKED_MARKER = '[ ]';
+const CHECKED_MARKER = '[x]';
+const CHECKLIST_CLICK_KEY = 'ChecklistClickHandler';
+
+export const AutoChecklist: ContentEditFeature = {
+    keys: [Keys.SPACE],
+    shouldHandleEvent: (event, editor) => {
+        if (cacheGetNodeAtCursor(editor, event, ['LI', 'TABLE'])) {
+            return false;
+        }
+
+        let searcher = cacheGetContentSearcher(event, editor);
+        let textBeforeCursor = normalizeSpace(searcher.getSubStringBefore(4));
+        return (
+            (textBeforeCursor == UNCHECKED_MARKER || textBeforeCursor == CHECKED_MARKER) &&
+            !searcher.getNearestNonTextInlineElement()
+        );
+    },
+    handleEvent: (event, editor) => {
+        editor.runAsync(() => {
+            editor.performAutoComplete(() => {
+                let searcher = editor.getContentSearcherOfCursor();
+                let textBeforeCursor = searcher.getSubStringBefore(5);
+                let rangeToDelete = searcher.getRangeFromText(
+                    textBeforeCursor,
+                    true /*exactMatch*/
+                );
+
+                if (rangeToDelete) {
+                    rangeToDelete.deleteContents();
+                }
+
+                // If not explicitly insert br, Chrome will operate on the previous line
+                let tempBr = editor.getDocument().createElement('BR');
+                if (Browser.isChrome || Browser.isSafari) {
+                    editor.insertNode(tempBr);
+                }
+
+                toggleChecklist(editor);
+
+                let li = getNodeAtCursor(editor, 'LI') as HTMLElement;
+                if (li && normalizeSpace(textBeforeCursor).trim() == CHECKED_MARKER) {
+                    setChecked(li, true);
+                }
+
+                editor.deleteNode(tempBr);
+            });
+        });
+    },
+    isAvailable: featureSet => featureSet.autoChecklist,
+};
+
+export const UncheckNewItemWhenEnter: ContentEditFeature = {
+    keys: [Keys.ENTER],
+    shouldHandleEvent: (event, editor) => {
+        let li = cacheGetChecklistItem(event, editor);
+        return !event.rawEvent.shiftKey && li && !isNodeEmpty(li);
+    },
+    handleEvent: (event, editor) => {
+        // Browser copies attributes of current item to the new item, so reset it after Enter
+        editor.runAsync(() => {
+            let li = getNodeAtCursor(editor, 'LI') as HTMLElement;
+            if (li && isChecklist(li.parentNode)) {
+                setChecked(li, false);
+            }
+        });
+    },
+    isAvailable: featureSet => featureSet.uncheckNewItemWhenEnter,
+};
+
+export const OutdentChecklistWhenBackOnEmptyLine: ContentEditFeature = {
+    keys: [Keys.BACKSPACE],
+    shouldHandleEvent: (event, editor) => {
+        let li = cacheGetChecklistItem(event, editor);
+        return li && isNodeEmpty(li);
+    },
+    handleEvent: (event, editor) => {
+        setIndentation(editor, Indentation.Decrease);
+        event.rawEvent.preventDefault();
+    },
+    isAvailable: featureSet => featureSet.outdentChecklistWhenBackspaceOnEmptyLine,
+};
+
+export const ToggleCheckedWhenClick: ContentEditFeature = {
+    keys: [],
+    initialize: editor => {
+        ensureChecklistStyle(editor);
+        editor.getCustomData(
+            CHECKLIST_CLICK_KEY,
+            () => editor.addDomEventHandler('mousedown', e => onMouseDown(editor, <MouseEvent>e)),
+            disposer => disposer()
+        );
+    },
+    shouldHandleEvent: () => false,
+    handleEvent: () => {},
+    isAvailable: featureSet => featureSet.toggleCheckedWhenClick,
+};
+
+function onMouseDown(editor: Editor, e: MouseEvent) {
+    let li = e.target as HTMLElement;
+
+    if (isChecklist(li.parentNode) && editor.contains(li) && isClickOnCheckbox(li, e)) {
+        editor.addUndoSnapshot(() => setChecked(li, !isChecked(li)), ChangeSource.Format);
+        e.preventDefault();
+    }
+}
+
+// Checkbox is rendered before the content of the list item, so a click on the list item itself
+// outside of its content box at the start side (left for LTR, right for RTL) is a click on the checkbox
+function isClickOnCheckbox(li: HTMLElement, e: MouseEvent): boolean {
+    let rect = li.getBoundingClientRect();
+    return getComputedStyle(li, 'direction') == 'rtl'
+        ? e.clientX > rect.right
+        : e.clientX < rect.left;
+}
+
+// Browser may use &nbsp; for the space typed in marker
+function normalizeSpace(text: string): string {
+    return text.replace(/\u00A0/g, ' ');
+}
+
+function cacheGetChecklistItem(event: PluginKeyboardEvent, editor: Editor): HTMLElement {
+    let li = cacheGetNodeAtCursor(editor, event, 'LI');
+    return li && isChecklist(li.parentNode) ? <HTMLElement>li : null;
+}
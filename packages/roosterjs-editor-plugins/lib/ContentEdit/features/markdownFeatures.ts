@@ -0,0 +1,209 @@
+import ContentEditFeatures, { ContentEditFeature, Keys } from '../ContentEditFeatures';
+import { Browser, isNodeEmpty } from 'roosterjs-editor-dom';
+import { Editor, cacheGetContentSearcher, cacheGetEventData } from 'roosterjs-editor-core';
+import { PluginKeyboardEvent, PositionType } from 'roosterjs-editor-types';
+import {
+    cacheGetNodeAtCursor,
+    toggleBlockQuote,
+    toggleCodeBlock,
+    toggleHeader,
+} from 'roosterjs-editor-api';
+
+const HEADER_REGEX = /^#{1,6}$/;
+const BLOCK_QUOTE_MARKER = '>';
+const CODE_BLOCK_MARKER = '```';
+const HORIZONTAL_RULE_MARKER = '---';
+
+// Max length of the line start marker, plus one more char to make sure there is nothing before it
+const MAX_BLOCK_MARKER_LENGTH = 7;
+
+// Max length of text to search for an inline format marker
+const MAX_INLINE_FORMAT_LENGTH = 100;
+
+// Markdown formats are not applied in these elements, and block formats are not applied in list
+const NO_INLINE_FORMAT_TAGS = ['PRE', 'CODE'];
+const NO_BLOCK_FORMAT_TAGS = ['LI', 'PRE', 'CODE'];
+
+export const AutoHeader: ContentEditFeature = {
+    keys: [Keys.SPACE],
+    shouldHandleEvent: (event, editor) =>
+        HEADER_REGEX.test(cacheGetBlockMarker(event, editor) || ''),
+    handleEvent: (event, editor) =>
+        autoFormatBlock(editor, marker => toggleHeader(editor, marker.length)),
+    isAvailable: featureSet => featureSet.autoHeader,
+};
+
+export const AutoBlockQuote: ContentEditFeature = {
+    keys: [Keys.SPACE],
+    shouldHandleEvent: (event, editor) => cacheGetBlockMarker(event, editor) == BLOCK_QUOTE_MARKER,
+    handleEvent: (event, editor) => autoFormatBlock(editor, () => toggleBlockQuote(editor)),
+    isAvailable: featureSet => featureSet.autoBlockQuote,
+};
+
+export const AutoCodeBlock: ContentEditFeature = {
+    keys: [Keys.SPACE],
+    shouldHandleEvent: (event, editor) => cacheGetBlockMarker(event, editor) == CODE_BLOCK_MARKER,
+    handleEvent: (event, editor) => autoFormatBlock(editor, () => toggleCodeBlock(editor)),
+    isAvailable: featureSet => featureSet.autoCodeBlock,
+};
+
+export const AutoHorizontalRule: ContentEditFeature = {
+    keys: [Keys.ENTER],
+    shouldHandleEvent: (event, editor) =>
+        !event.rawEvent.shiftKey && cacheGetBlockMarker(event, editor) == HORIZONTAL_RULE_MARKER,
+    handleEvent: (event, editor) => {
+        event.rawEvent.preventDefault();
+        editor.performAutoComplete(() => {
+            let searcher = cacheGetContentSearcher(event, editor);
+            let range = searcher.getRangeFromText(HORIZONTAL_RULE_MARKER, true /*exactMatch*/);
+            if (!range) {
+                return;
+            }
+
+            range.deleteContents();
+
+            let block = editor.getBlockElementAtNode(range.startContainer);
+            let hr = editor.getDocument().createElement('hr');
+            let line = block.getStartNode();
+
+            if (line != block.getEndNode() || !(line instanceof HTMLElement)) {
+                // Current line is not wrapped by an element, create a new line for the cursor
+                line = editor.getDocument().createElement('div');
+                block.getStartNode().parentNode.insertBefore(line, block.getStartNode());
+            }
+
+            line.parentNode.insertBefore(hr, line);
+            if (isNodeEmpty(line)) {
+                line.appendChild(editor.getDocument().createElement('br'));
+            }
+            editor.select(line, PositionType.Begin);
+        });
+    },
+    isAvailable: featureSet => featureSet.autoHorizontalRule,
+};
+
+export const AutoBold = getInlineFormatFeature(
+    ['**', '__'],
+    'b',
+    featureSet => featureSet.autoBold
+);
+export const AutoItalic = getInlineFormatFeature(
+    ['*', '_'],
+    'i',
+    featureSet => featureSet.autoItalic
+);
+export const AutoStrikethrough = getInlineFormatFeature(
+    ['~~'],
+    'strike',
+    featureSet => featureSet.autoStrikethrough
+);
+export const AutoInlineCode = getInlineFormatFeature(
+    ['`'],
+    'code',
+    featureSet => featureSet.autoInlineCode
+);
+
+function getInlineFormatFeature(
+    markers: string[],
+    tag: string,
+    isAvailable: (featureSet: ContentEditFeatures) => boolean
+): ContentEditFeature {
+    let regexes = markers.map(createInlineFormatRegex);
+
+    return {
+        keys: [Keys.SPACE],
+        shouldHandleEvent: (event, editor) =>
+            !cacheGetNodeAtCursor(editor, event, NO_INLINE_FORMAT_TAGS) &&
+            !!matchInlineFormat(
+                cacheGetContentSearcher(event, editor).getSubStringBefore(MAX_INLINE_FORMAT_LENGTH),
+                regexes
+            ),
+        handleEvent: (event, editor) => {
+            editor.runAsync(() => {
+                editor.performAutoComplete(() => {
+                    // Now the space is already typed, it should be kept after the formatted text
+                    let searcher = editor.getContentSearcherOfCursor();
+                    let text = searcher.getSubStringBefore(MAX_INLINE_FORMAT_LENGTH + 1);
+                    let space = text.substr(text.length - 1);
+                    let match = matchInlineFormat(text.substr(0, text.length - 1), regexes);
+                    let range =
+                        match && searcher.getRangeFromText(match[0] + space, true /*exactMatch*/);
+
+                    if (range) {
+                        let element = editor.getDocument().createElement(tag);
+                        let spaceNode = editor.getDocument().createTextNode(space);
+                        element.textContent = match[1];
+                        range.deleteContents();
+                        range.insertNode(spaceNode);
+                        range.insertNode(element);
+                        editor.select(spaceNode, PositionType.End);
+                    }
+                });
+            });
+        },
+        isAvailable,
+    };
+}
+
+function createInlineFormatRegex(marker: string): RegExp {
+    let char = '\\' + marker[0];
+    let escapedMarker = marker.replace(/./g, '\\$&');
+
+    // Marker of italic "_" should not be inside a word, e.g. snake_case_word
+    let prefix = marker[0] == '_' ? '[^\\w]' : `[^${char}]`;
+
+    return new RegExp(`(?:^|${prefix})(${escapedMarker}([^${char}]+)${escapedMarker})$`);
+}
+
+function matchInlineFormat(text: string, regexes: RegExp[]): [string, string] {
+    for (let i = 0; i < regexes.length; i++) {
+        let match = regexes[i].exec(text);
+        let content = match && match[2];
+
+        // Formatted text should not start or end with whitespace, e.g. "a * b * c" is not italic
+        if (content && content.trim() == content) {
+            return [match[1], content];
+        }
+    }
+    return null;
+}
+
+function cacheGetBlockMarker(event: PluginKeyboardEvent, editor: Editor): string {
+    return cacheGetEventData(event, 'MARKDOWN_BLOCK_MARKER', () => {
+        if (cacheGetNodeAtCursor(editor, event, NO_BLOCK_FORMAT_TAGS)) {
+            return null;
+        }
+
+        let searcher = cacheGetContentSearcher(event, editor);
+        let text = searcher.getSubStringBefore(MAX_BLOCK_MARKER_LENGTH);
+
+        // The marker must be the only text before cursor in current line
+        return text.length < MAX_BLOCK_MARKER_LENGTH && !searcher.getNearestNonTextInlineElement()
+            ? text
+            : null;
+    });
+}
+
+function autoFormatBlock(editor: Editor, format: (marker: string) => void) {
+    editor.runAsync(() => {
+        editor.performAutoComplete(() => {
+            let searcher = editor.getContentSearcherOfCursor();
+            let textBeforeCursor = searcher.getSubStringBefore(MAX_BLOCK_MARKER_LENGTH);
+            let rangeToDelete = searcher.getRangeFromText(textBeforeCursor, true /*exactMatch*/);
+
+            if (rangeToDelete) {
+                rangeToDelete.deleteContents();
+            }
+
+            // Chrome and Safari apply block format to the previous line when current line is empty,
+            // so keep a temporary BR in current line
+            let tempBr = editor.getDocument().createElement('BR');
+            if (Browser.isChrome || Browser.isSafari) {
+                editor.insertNode(tempBr);
+            }
+
+            format(textBeforeCursor.trim());
+            editor.deleteNode(tempBr);
+        });
+    });
+}
@@ -0,0 +1,107 @@
+import getStructuredText from './getStructuredText';
+import {
+    ChangeSource,
+    ExtractContentEvent,
+    NodeType,
+    PluginEventType,
+} from 'roosterjs-editor-types';
+import { Editor, EditorPlugin } from 'roosterjs-editor-core';
+import { getTagOfNode, removeMarker, sanitizeHtml } from 'roosterjs-editor-dom';
+
+// A selection inside a single table cell is copied as content of the cell, not as a table
+const TABLE_CELL_TAGS = ['TD', 'TH'];
+
+/**
+ * Copy plugin, handles copy and cut event and writes clean content of the selection to clipboard.
+ * The selected content is cleaned up in the same way as getting content from editor (plugins
+ * handle ExtractContent event to remove their temporary content) and sanitized, and a plain text
+ * version with list markers and tab separated tables is written together with the HTML.
+ * Cutting content adds an undo snapshot with change source ChangeSource.Cut
+ */
+export default class Copy implements EditorPlugin {
+    private editor: Editor;
+    private copyDisposer: () => void;
+    private cutDisposer: () => void;
+    public name: 'Copy';
+
+    /**
+     * Initialize this plugin
+     * @param editor The editor instance
+     */
+    public initialize(editor: Editor) {
+        this.editor = editor;
+        this.copyDisposer = editor.addDomEventHandler('copy', this.onCopyOrCut);
+        this.cutDisposer = editor.addDomEventHandler('cut', this.onCopyOrCut);
+    }
+
+    /**
+     * Dispose this plugin
+     */
+    public dispose() {
+        this.copyDisposer();
+        this.cutDisposer();
+        this.copyDisposer = null;
+        this.cutDisposer = null;
+        this.editor = null;
+    }
+
+    private onCopyOrCut = (event: Event) => {
+        let clipboardEvent = <ClipboardEvent>event;
+        let clipboardData = clipboardEvent.clipboardData;
+        let range = this.editor.getSelectionRange();
+
+        // IE doesn't allow writing HTML into clipboard, let browser do it
+        if (!clipboardData || !range || range.collapsed) {
+            return;
+        }
+
+        let container = this.getSelectedContent(range);
+        let extractContentEvent: ExtractContentEvent = {
+            eventType: PluginEventType.ExtractContent,
+            content: container.innerHTML,
+        };
+
+        this.editor.triggerEvent(extractContentEvent, true /*broadcast*/);
+
+        let html = sanitizeHtml(extractContentEvent.content);
+        container.innerHTML = html;
+
+        clipboardData.setData('text/html', html);
+        clipboardData.setData('text/plain', getStructuredText(container));
+        clipboardEvent.preventDefault();
+
+        if (event.type == 'cut') {
+            range = range.cloneRange();
+            this.editor.addUndoSnapshot(() => {
+                range.deleteContents();
+                this.editor.select(range);
+            }, ChangeSource.Cut);
+        }
+    };
+
+    /**
+     * Get a copy of the selected content inside a DIV. The content is wrapped with its ancestors
+     * under the common ancestor of the selection, so that formats and list structure are kept
+     */
+    private getSelectedContent(range: Range): HTMLElement {
+        let document = this.editor.getDocument();
+        let container = document.createElement('div');
+        let content: Node = range.cloneContents();
+
+        for (
+            let node = range.commonAncestorContainer;
+            this.editor.contains(node) && TABLE_CELL_TAGS.indexOf(getTagOfNode(node)) < 0;
+            node = node.parentNode
+        ) {
+            if (node.nodeType == NodeType.Element) {
+                let wrapper = node.cloneNode(false /*deep*/);
+                wrapper.appendChild(content);
+                content = wrapper;
+            }
+        }
+
+        container.appendChild(content);
+        removeMarker(container, false /*retrieveSelectionRange*/);
+        return container;
+    }
+}
@@ -0,0 +1,105 @@
+import { NodeType } from 'roosterjs-editor-types';
+import { getTagOfNode, isBlockElement } from 'roosterjs-editor-dom';
+
+const LIST_TAGS = ['OL', 'UL'];
+const LIST_INDENT = '    ';
+const UNORDERED_LIST_MARKER = '- ';
+
+/**
+ * Get a plain text rendition of the content under the given root node, which keeps the structure
+ * of the content: blocks and line breaks become lines, list items are prefixed with list markers
+ * and indented by their nesting level, and each table row becomes a line of tab separated cells
+ * @param rootNode The root node of the content
+ * @returns The plain text
+ */
+export default function getStructuredText(rootNode: Node): string {
+    let lines: string[] = [''];
+    appendChildren(lines, rootNode, 0 /*listLevel*/);
+    return lines
+        .map(line => line.replace(/ +$/, ''))
+        .join('\n')
+        .replace(/^\n+|\n+$/g, '');
+}
+
+function appendChildren(lines: string[], node: Node, listLevel: number) {
+    for (let child = node.firstChild; child; child = child.nextSibling) {
+        appendNode(lines, child, listLevel);
+    }
+}
+
+function appendNode(lines: string[], node: Node, listLevel: number) {
+    let tag = getTagOfNode(node);
+
+    if (node.nodeType == NodeType.Text) {
+        let text = node.nodeValue.replace(/\s+/g, ' ');
+        let line = lines[lines.length - 1];
+        appendText(lines, line && !/ $/.test(line) ? text : text.replace(/^ /, ''));
+    } else if (node.nodeType != NodeType.Element) {
+        return;
+    } else if (tag == 'BR') {
+        lines.push('');
+    } else if (tag == 'PRE') {
+        startNewLine(lines);
+        node.textContent.split(/\r?\n/).forEach((line, i) => {
+            if (i > 0) {
+                lines.push('');
+            }
+            appendText(lines, line);
+        });
+        startNewLine(lines);
+    } else if (tag == 'TABLE') {
+        startNewLine(lines);
+        let table = <HTMLTableElement>node;
+        for (let r = 0; r < table.rows.length; r++) {
+            let cells = [].slice.call(table.rows[r].cells) as HTMLTableCellElement[];
+            startNewLine(lines);
+            appendText(
+                lines,
+                cells.map(cell => getStructuredText(cell).replace(/\n/g, ' ')).join('\t')
+            );
+        }
+        startNewLine(lines);
+    } else if (tag == 'LI') {
+        startNewLine(lines);
+        appendText(lines, getListItemPrefix(<HTMLLIElement>node, listLevel));
+        appendChildren(lines, node, listLevel);
+        startNewLine(lines);
+    } else if (LIST_TAGS.indexOf(tag) >= 0) {
+        startNewLine(lines);
+        appendChildren(lines, node, listLevel + 1);
+        startNewLine(lines);
+    } else if (isBlockElement(node)) {
+        startNewLine(lines);
+        appendChildren(lines, node, listLevel);
+        startNewLine(lines);
+    } else {
+        appendChildren(lines, node, listLevel);
+    }
+}
+
+function appendText(lines: string[], text: string) {
+    lines[lines.length - 1] += text;
+}
+
+function startNewLine(lines: string[]) {
+    if (lines[lines.length - 1]) {
+        lines.push('');
+    }
+}
+
+function getListItemPrefix(li: HTMLLIElement, listLevel: number): string {
+    let list = li.parentNode;
+    let indent = new Array(Math.max(listLevel, 1)).join(LIST_INDENT);
+
+    if (getTagOfNode(list) != 'OL') {
+        return indent + UNORDERED_LIST_MARKER;
+    }
+
+    let number = (<HTMLOListElement>list).start || 1;
+    for (let node = li.previousSibling; node; node = node.previousSibling) {
+        if (getTagOfNode(node) == 'LI') {
+            number++;
+        }
+    }
+    return `${indent}${number}. `;
+}
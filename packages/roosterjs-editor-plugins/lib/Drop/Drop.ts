@@ -0,0 +1,145 @@
+import Paste from '../Paste/Paste';
+import { BeforeDropEvent, ChangeSource, PluginEventType } from 'roosterjs-editor-types';
+import { Editor, EditorPlugin } from 'roosterjs-editor-core';
+import { Position, createRange } from 'roosterjs-editor-dom';
+import { createClipboardData } from '../Paste/buildClipboardData';
+
+interface DocumentWithCaretPosition extends Document {
+    caretPositionFromPoint(x: number, y: number): { offsetNode: Node; offset: number };
+}
+
+/**
+ * Drop plugin, handles drop event and drops HTML, text and image files into editor.
+ * Dropped content is pasted at the drop position using Paste plugin, so it is sanitized and
+ * converted in the same way as pasted content, and images are uploaded if Paste plugin has an
+ * image uploader. A BeforeDrop event is triggered before dropping so plugins can change or
+ * cancel it. Dragging content inside editor is still handled by browser
+ */
+export default class Drop implements EditorPlugin {
+    private editor: Editor;
+    private dropDisposer: () => void;
+    private dragStartDisposer: () => void;
+    private dragEndDisposer: () => void;
+    private isDraggingInside: boolean;
+    public name: 'Drop';
+
+    /**
+     * Create an instance of Drop
+     * @param paste The Paste plugin used by editor, it is used to paste the dropped content
+     */
+    constructor(private paste: Paste) {}
+
+    /**
+     * Initialize this plugin
+     * @param editor The editor instance
+     */
+    public initialize(editor: Editor) {
+        this.editor = editor;
+        this.dropDisposer = editor.addDomEventHandler('drop', this.onDrop);
+        this.dragStartDisposer = editor.addDomEventHandler('dragstart', this.onDragStart);
+        this.dragEndDisposer = editor.addDomEventHandler('dragend', this.onDragEnd);
+    }
+
+    /**
+     * Dispose this plugin
+     */
+    public dispose() {
+        this.dropDisposer();
+        this.dragStartDisposer();
+        this.dragEndDisposer();
+        this.dropDisposer = null;
+        this.dragStartDisposer = null;
+        this.dragEndDisposer = null;
+        this.editor = null;
+    }
+
+    private onDragStart = () => {
+        this.isDraggingInside = true;
+    };
+
+    private onDragEnd = () => {
+        this.isDraggingInside = false;
+    };
+
+    private onDrop = (event: UIEvent) => {
+        let dragEvent = <DragEvent>event;
+        let dataTransfer = dragEvent.dataTransfer;
+
+        // Moving content inside editor needs to remove the original content, let browser do it
+        if (this.isDraggingInside || !dataTransfer) {
+            return;
+        }
+
+        let files: File[] = [].slice.call(dataTransfer.files || []);
+        let images = files.filter(file => file.type && file.type.indexOf('image/') == 0);
+        let clipboardData = createClipboardData(dataTransfer, this.editor, images[0] || null);
+        clipboardData.html = getHtml(dataTransfer);
+
+        if (
+            images.length == 0 &&
+            !clipboardData.html &&
+            !clipboardData.rtf &&
+            !clipboardData.text
+        ) {
+            // Nothing we can drop, e.g. other kinds of files
+            return;
+        }
+
+        dragEvent.preventDefault();
+
+        let range = getRangeFromPoint(
+            this.editor.getDocument(),
+            dragEvent.clientX,
+            dragEvent.clientY
+        );
+        let beforeDropEvent: BeforeDropEvent = {
+            eventType: PluginEventType.BeforeDrop,
+            rawEvent: dragEvent,
+            clipboardData: clipboardData,
+            images: images,
+            range: range && this.editor.contains(range) ? range : null,
+            isCancelled: false,
+        };
+
+        this.editor.triggerEvent(beforeDropEvent, true /*broadcast*/);
+
+        if (beforeDropEvent.isCancelled) {
+            return;
+        }
+
+        if (beforeDropEvent.range) {
+            this.editor.select(beforeDropEvent.range);
+        }
+
+        this.editor.addUndoSnapshot(() => {
+            if (beforeDropEvent.images.length > 0) {
+                // Each image needs its own clipboard data since Paste plugin keeps state in it
+                beforeDropEvent.images.forEach(image =>
+                    this.paste.pasteImage(createClipboardData(dataTransfer, this.editor, image))
+                );
+            } else {
+                this.paste.pasteClipboardData(beforeDropEvent.clipboardData);
+            }
+        }, ChangeSource.Drop);
+    };
+}
+
+function getHtml(dataTransfer: DataTransfer): string {
+    try {
+        return dataTransfer.getData('text/html') || null;
+    } catch (e) {
+        // IE only supports 'text' and 'url'
+        return null;
+    }
+}
+
+function getRangeFromPoint(document: Document, x: number, y: number): Range {
+    if (document.caretRangeFromPoint) {
+        return document.caretRangeFromPoint(x, y);
+    }
+
+    // Firefox
+    let caretPositionFromPoint = (<DocumentWithCaretPosition>document).caretPositionFromPoint;
+    let position = caretPositionFromPoint && caretPositionFromPoint.call(document, x, y);
+    return position ? createRange(new Position(position.offsetNode, position.offset)) : null;
+}
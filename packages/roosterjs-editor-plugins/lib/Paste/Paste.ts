@@ -2,11 +2,16 @@ import {
     BeforePasteEvent,
     ChangeSource,
     ClipboardData,
+    ContentChangedEvent,
     DefaultFormat,
+    ExtractContentEvent,
     NodeType,
     PasteOption,
+    PasteSource,
     PluginEvent,
     PluginEventType,
+    SanitizePolicy,
+    TableFormat,
 } from 'roosterjs-editor-types';
 import {
     SanitizeHtmlPropertyCallback,
@@ -17,11 +22,31 @@ import {
     sanitizeHtml,
 } from 'roosterjs-editor-dom';
 import { Editor, EditorPlugin } from 'roosterjs-editor-core';
-import { insertImage } from 'roosterjs-editor-api';
+import {
+    ImageUploader,
+    UPLOADING_IMAGE_ATTRIBUTE,
+    insertImage,
+    insertUploadedImage,
+} from 'roosterjs-editor-api';
 import buildClipboardData from './buildClipboardData';
-import convertPastedContentFromWord from './wordConverter/convertPastedContentFromWord';
+import convertPastedContentFromGoogleDocs, {
+    GOOGLE_DOCS_ID_PREFIX,
+} from './convertPastedContentFromGoogleDocs';
+import convertPastedContentFromOneNote from './convertPastedContentFromOneNote';
+import convertPastedContentFromWeb from './convertPastedContentFromWeb';
+import convertPastedContentFromWord, {
+    keepWordStyleClasses,
+} from './wordConverter/convertPastedContentFromWord';
+import convertPastedContentFromSpreadsheet, {
+    DEFAULT_PASTED_TABLE_FORMAT,
+} from './convertPastedContentFromSpreadsheet';
+import convertRtfToHtml from './convertRtfToHtml';
 import textToHtml from './textToHtml';
 import getInheritableStyles from './getInheritableStyles';
+import getPasteSource from './getPasteSource';
+
+const WORD_LIST_SELECTOR = '[style*="mso-list"]';
+const UPLOADING_IMAGE_REGEX = new RegExp(`<img[^>]*${UPLOADING_IMAGE_ATTRIBUTE}[^>]*>`, 'ig');
 
 /**
  * Paste plugin, handles onPaste event and paste content into editor
@@ -29,16 +54,28 @@ import getInheritableStyles from './getInheritableStyles';
 export default class Paste implements EditorPlugin {
     private editor: Editor;
     private pasteDisposer: () => void;
+    private pastedClipboardData: ClipboardData;
+    private pastedRange: Range;
     public name: 'Paste';
 
     /**
      * Create an instance of Paste
      * @param deprecated Deprecated parameter only used for compatibility with old code
      * @param htmlPropertyCallbacks A callback to help handle html sanitization
+     * @param tableFormat (Optional) Format of tables converted from pasted spreadsheet content.
+     * Default value is the same with the default format of insertTable()
+     * @param uploadImage (Optional) A function to upload pasted image files, including the images
+     * dropped with Drop plugin. When specified, images are uploaded instead of being inlined as
+     * data URLs, and a placeholder image is shown during uploading
+     * @param sanitizePolicy (Optional) The policy used to sanitize pasted HTML. It can be shared with
+     * other code which sanitizes HTML. Default value is the policy of SanitizePolicyPreset.Default
      */
     constructor(
         deprecated?: boolean,
-        private htmlPropertyCallbacks?: SanitizeHtmlPropertyCallback
+        private htmlPropertyCallbacks?: SanitizeHtmlPropertyCallback,
+        private tableFormat?: TableFormat,
+        private uploadImage?: ImageUploader,
+        private sanitizePolicy?: SanitizePolicy
     ) {}
 
     public initialize(editor: Editor) {
@@ -49,37 +86,101 @@ export default class Paste implements EditorPlugin {
     public dispose() {
         this.pasteDisposer();
         this.pasteDisposer = null;
+        this.pastedClipboardData = null;
+        this.pastedRange = null;
         this.editor = null;
     }
 
     public onPluginEvent(event: PluginEvent) {
-        if (event.eventType == PluginEventType.BeforePaste) {
+        if (event.eventType == PluginEventType.ExtractContent && this.uploadImage) {
+            // Images which are still being uploaded only have a local URL, don't keep them
+            let extractContentEvent = <ExtractContentEvent>event;
+            extractContentEvent.content = extractContentEvent.content.replace(
+                UPLOADING_IMAGE_REGEX,
+                ''
+            );
+        } else if (
+            event.eventType == PluginEventType.ContentChanged &&
+            (<ContentChangedEvent>event).source != ChangeSource.Paste
+        ) {
+            // Content is changed by something else, the pasted content can't be replaced any more
+            this.pastedClipboardData = null;
+            this.pastedRange = null;
+        } else if (event.eventType == PluginEventType.BeforePaste) {
             let beforePasteEvent = <BeforePasteEvent>event;
 
-            if (beforePasteEvent.pasteOption == PasteOption.PasteHtml) {
-                convertPastedContentFromWord(beforePasteEvent.fragment);
+            // Event triggered by other code may not have paste source
+            if (beforePasteEvent.pasteSource == null) {
+                beforePasteEvent.pasteSource = getPasteSource(beforePasteEvent.clipboardData);
+            }
+
+            let { fragment, pasteOption, pasteSource } = beforePasteEvent;
+
+            if (pasteOption != PasteOption.PasteHtml) {
+                return;
+            }
+
+            // Word lists can also come from Outlook, WordPad or a Word version not detected as Word
+            if (pasteSource == PasteSource.Word || fragment.querySelector(WORD_LIST_SELECTOR)) {
+                convertPastedContentFromWord(fragment);
+            }
+
+            switch (pasteSource) {
+                case PasteSource.GoogleDocs:
+                    convertPastedContentFromGoogleDocs(fragment);
+                    break;
+
+                case PasteSource.OneNote:
+                    convertPastedContentFromOneNote(fragment);
+                    break;
+
+                case PasteSource.Web:
+                    convertPastedContentFromWeb(fragment);
+                    break;
+
+                case PasteSource.Spreadsheet:
+                case PasteSource.PlainText:
+                    convertPastedContentFromSpreadsheet(
+                        beforePasteEvent,
+                        this.tableFormat || DEFAULT_PASTED_TABLE_FORMAT
+                    );
+                    break;
             }
         }
     }
 
     private onPaste = (event: Event) => {
-        buildClipboardData(<ClipboardEvent>event, this.editor, clipboardData => {
-            if (!clipboardData.html && clipboardData.text) {
-                clipboardData.html = textToHtml(clipboardData.text);
-            }
-            let currentStyles = getInheritableStyles(this.editor);
-            clipboardData.html = sanitizeHtml(
-                clipboardData.html,
-                null /*additionalStyleNodes*/,
-                false /*convertInlineCssOnly*/,
-                this.htmlPropertyCallbacks,
-                true /*preserveFragmentOnly*/,
-                currentStyles
-            );
-            this.pasteOriginal(clipboardData);
-        });
+        buildClipboardData(<ClipboardEvent>event, this.editor, clipboardData =>
+            this.pasteClipboardData(clipboardData)
+        );
     };
 
+    /**
+     * Paste into editor using passed in clipboardData which is not processed yet. The HTML in
+     * clipboardData is sanitized and converted in the same way as pasting from clipboard
+     * @param clipboardData The clipboardData to paste, the HTML in it should be the original HTML
+     */
+    public pasteClipboardData(clipboardData: ClipboardData) {
+        clipboardData.rawHtml = clipboardData.html;
+        if (!clipboardData.html && clipboardData.rtf) {
+            clipboardData.html = convertRtfToHtml(clipboardData.rtf);
+        }
+        if (!clipboardData.html && clipboardData.text) {
+            clipboardData.html = textToHtml(clipboardData.text);
+        }
+        let currentStyles = getInheritableStyles(this.editor);
+        clipboardData.html = sanitizeHtml(
+            clipboardData.html,
+            null /*additionalStyleNodes*/,
+            false /*convertInlineCssOnly*/,
+            this.getPropertyCallbacks(getPasteSource(clipboardData)),
+            true /*preserveFragmentOnly*/,
+            currentStyles,
+            this.sanitizePolicy
+        );
+        this.pasteOriginal(clipboardData);
+    }
+
     /**
      * Paste into editor using passed in clipboardData with original format
      * @param clipboardData The clipboardData to paste
@@ -104,6 +205,14 @@ export default class Paste implements EditorPlugin {
         this.paste(clipboardData, this.detectPasteOption(clipboardData), true /*mergeFormat*/);
     }
 
+    /**
+     * Paste image into editor using passed in clipboardData
+     * @param clipboardData The clipboardData to paste, it should contain an image
+     */
+    public pasteImage(clipboardData: ClipboardData) {
+        this.paste(clipboardData, PasteOption.PasteImage);
+    }
+
     private detectPasteOption(clipboardData: ClipboardData): PasteOption {
         return clipboardData.text || !clipboardData.image
             ? PasteOption.PasteHtml
@@ -135,6 +244,7 @@ export default class Paste implements EditorPlugin {
             clipboardData: clipboardData,
             fragment: fragment,
             pasteOption: pasteOption,
+            pasteSource: getPasteSource(clipboardData),
         };
 
         this.editor.triggerEvent(event, true /*broadcast*/);
@@ -142,35 +252,104 @@ export default class Paste implements EditorPlugin {
     }
 
     private internalPaste(event: BeforePasteEvent) {
-        let { clipboardData, fragment, pasteOption } = event;
+        let { clipboardData } = event;
         this.editor.focus();
-        this.editor.addUndoSnapshot(() => {
-            if (clipboardData.snapshotBeforePaste == null) {
-                clipboardData.snapshotBeforePaste = this.editor.getContent(
-                    false /*triggerExtractContentEvent*/,
-                    true /*markSelection*/
-                );
-            } else {
-                this.editor.setContent(clipboardData.snapshotBeforePaste);
-            }
 
-            switch (pasteOption) {
-                case PasteOption.PasteHtml:
-                    this.editor.insertNode(fragment);
-                    break;
+        if (
+            clipboardData == this.pastedClipboardData &&
+            this.pastedRange &&
+            this.editor.contains(this.pastedRange)
+        ) {
+            // Pasting the same content again, e.g. with another paste option. Only replace the content
+            // pasted last time so that other content is not touched, and keep it as one undo step
+            this.editor.editInLastUndoSnapshot(() => {
+                this.pastedRange.deleteContents();
+                this.editor.select(this.pastedRange);
+                return this.insertPastedContent(event);
+            }, ChangeSource.Paste);
+        } else {
+            this.editor.addUndoSnapshot(() => {
+                if (clipboardData.snapshotBeforePaste == null) {
+                    clipboardData.snapshotBeforePaste = this.editor.getContent(
+                        false /*triggerExtractContentEvent*/,
+                        true /*markSelection*/
+                    );
+                } else {
+                    this.editor.setContent(
+                        clipboardData.snapshotBeforePaste,
+                        true /*triggerContentChangedEvent*/,
+                        false /*sanitize*/
+                    );
+                }
 
-                case PasteOption.PasteText:
-                    let html = textToHtml(clipboardData.text);
-                    this.editor.insertContent(html);
-                    break;
+                return this.insertPastedContent(event);
+            }, ChangeSource.Paste);
+        }
+    }
+
+    private insertPastedContent(event: BeforePasteEvent): ClipboardData {
+        let { clipboardData, fragment, pasteOption } = event;
+        let range = this.editor.getSelectionRange();
+
+        // Start of the range stays before the pasted content when content is inserted at its position
+        this.pastedClipboardData = clipboardData;
+        this.pastedRange = range && range.cloneRange();
+        if (this.pastedRange) {
+            this.pastedRange.collapse(true /*toStart*/);
+        }
+
+        switch (pasteOption) {
+            case PasteOption.PasteHtml:
+                this.editor.insertNode(fragment);
+                break;
+
+            case PasteOption.PasteText:
+                let html = textToHtml(clipboardData.text);
+                this.editor.insertContent(html);
+                break;
 
-                case PasteOption.PasteImage:
+            case PasteOption.PasteImage:
+                if (this.uploadImage) {
+                    insertUploadedImage(this.editor, clipboardData.image, this.uploadImage);
+                } else {
                     insertImage(this.editor, clipboardData.image);
-                    break;
-            }
+                }
+                break;
+        }
+
+        range = this.editor.getSelectionRange();
+        if (this.pastedRange && range) {
+            this.pastedRange.setEnd(range.endContainer, range.endOffset);
+        }
+
+        return clipboardData;
+    }
+
+    private getPropertyCallbacks(pasteSource: PasteSource): SanitizeHtmlPropertyCallback {
+        let callbacks: SanitizeHtmlPropertyCallback;
+
+        switch (pasteSource) {
+            case PasteSource.GoogleDocs:
+                // Keep the id of Google Docs wrapper element so that it can be removed when cleaning up
+                callbacks = {
+                    id: (value: string) =>
+                        value.indexOf(GOOGLE_DOCS_ID_PREFIX) == 0 ? value : null,
+                };
+                break;
+
+            case PasteSource.Word:
+                // Keep the classes of Word styles so that paragraph styles can be converted
+                callbacks = { class: keepWordStyleClasses };
+                break;
 
-            return clipboardData;
-        }, ChangeSource.Paste);
+            default:
+                return this.htmlPropertyCallbacks;
+        }
+
+        Object.keys(this.htmlPropertyCallbacks || {}).forEach(name => {
+            callbacks[name] = this.htmlPropertyCallbacks[name];
+        });
+        return callbacks;
     }
 
     private applyTextFormat(node: Node, format: DefaultFormat) {
@@ -23,15 +23,7 @@ export default function buildClipboardData(
 ) {
     let dataTransfer =
         event.clipboardData || (<WindowForIE>editor.getDocument().defaultView).clipboardData;
-    let types: string[] = dataTransfer.types ? [].slice.call(dataTransfer.types) : [];
-    let clipboardData: ClipboardData = {
-        snapshotBeforePaste: null,
-        originalFormat: getCurrentFormat(editor),
-        types: types,
-        image: getImage(dataTransfer),
-        text: dataTransfer.getData('text'),
-        html: null,
-    };
+    let clipboardData = createClipboardData(dataTransfer, editor, getImage(dataTransfer));
 
     if (event.clipboardData && event.clipboardData.items) {
         directRetrieveHtml(event, html => {
@@ -46,6 +38,29 @@ export default function buildClipboardData(
     }
 }
 
+/**
+ * Create ClipboardData from a DataTransfer object, with the format at current selection.
+ * HTML is not retrieved since it may not be directly available, it is always null in the result
+ * @param dataTransfer The DataTransfer object of a paste or drop event
+ * @param editor The editor
+ * @param image The image file to paste, or null if there is no image
+ */
+export function createClipboardData(
+    dataTransfer: DataTransfer,
+    editor: Editor,
+    image: File
+): ClipboardData {
+    return {
+        snapshotBeforePaste: null,
+        originalFormat: getCurrentFormat(editor),
+        types: dataTransfer.types ? [].slice.call(dataTransfer.types) : [],
+        image: image,
+        text: dataTransfer.getData('text'),
+        html: null,
+        rtf: getRtf(dataTransfer),
+    };
+}
+
 function getCurrentFormat(editor: Editor): DefaultFormat {
     let format = getFormatState(editor);
     return format
@@ -61,6 +76,17 @@ function getCurrentFormat(editor: Editor): DefaultFormat {
         : {};
 }
 
+function getRtf(dataTransfer: DataTransfer): string {
+    try {
+        return [].indexOf.call(dataTransfer.types || [], 'text/rtf') >= 0
+            ? dataTransfer.getData('text/rtf') || null
+            : null;
+    } catch (e) {
+        // IE only supports 'text' and 'url'
+        return null;
+    }
+}
+
 function getImage(dataTransfer: DataTransfer): File {
     // Chrome, Firefox, Edge support dataTransfer.items
     let fileCount = dataTransfer.items ? dataTransfer.items.length : 0;
@@ -0,0 +1,75 @@
+import { unwrap, wrap } from 'roosterjs-editor-dom';
+
+/**
+ * Prefix of the id of the element Google Docs uses to wrap all its copied content
+ */
+export const GOOGLE_DOCS_ID_PREFIX = 'docs-internal-guid-';
+
+// Map from style name and value to the tag which has the same effect
+const STYLE_TAGS: [string, RegExp, string][] = [
+    ['font-weight', /^(bold|bolder|[6-9]00)$/, 'B'],
+    ['font-style', /^italic$/, 'I'],
+    ['text-decoration', /underline/, 'U'],
+    ['text-decoration', /line-through/, 'S'],
+    ['vertical-align', /^super$/, 'SUP'],
+    ['vertical-align', /^sub$/, 'SUB'],
+];
+
+// Styles Google Docs adds to every span with their default value
+const DEFAULT_STYLES: { [name: string]: RegExp } = {
+    'font-weight': /^(normal|400)$/,
+    'font-style': /^normal$/,
+    'font-variant': /^normal$/,
+    'text-decoration': /^none$/,
+    'vertical-align': /^baseline$/,
+    'background-color': /^transparent$/,
+};
+
+/**
+ * Clean up content pasted from Google Docs.
+ * Google Docs wraps all its content with a &lt;b> element with "font-weight: normal", and formats
+ * text with styles on SPAN elements. This removes the wrapper element, and changes bold, italic,
+ * underline, strikethrough, superscript and subscript styles into tags
+ * @param root The root node of pasted content
+ */
+export default function convertPastedContentFromGoogleDocs(root: NodeSelector) {
+    let wrappers = [].slice.call(root.querySelectorAll('b')) as HTMLElement[];
+    let spans = [].slice.call(root.querySelectorAll('span[style]')) as HTMLElement[];
+
+    // The id may be removed if the content is sanitized without keeping it, so also check the style
+    wrappers
+        .filter(
+            b =>
+                b.id.indexOf(GOOGLE_DOCS_ID_PREFIX) == 0 ||
+                DEFAULT_STYLES['font-weight'].test(b.style.fontWeight)
+        )
+        .forEach(unwrap);
+    spans.forEach(span => {
+        let tags: string[] = [];
+        let removedStyles: string[] = [];
+
+        STYLE_TAGS.forEach(([name, regex, tag]) => {
+            if (regex.test(span.style.getPropertyValue(name))) {
+                tags.push(tag);
+                removedStyles.push(name);
+            }
+        });
+        Object.keys(DEFAULT_STYLES).forEach(name => {
+            if (DEFAULT_STYLES[name].test(span.style.getPropertyValue(name))) {
+                removedStyles.push(name);
+            }
+        });
+        removedStyles.forEach(name => span.style.removeProperty(name));
+
+        // Wrap the content of the span from inside so the outer styles such as color still apply
+        tags.forEach(tag => {
+            if (span.firstChild) {
+                wrap([].slice.call(span.childNodes), tag);
+            }
+        });
+
+        if (!span.getAttribute('style')) {
+            unwrap(span);
+        }
+    });
+}
@@ -0,0 +1,45 @@
+import { changeElementTag } from 'roosterjs-editor-dom';
+
+// Styles OneNote adds to most of its elements, which are the same with browser default
+const DEFAULT_STYLES: { [name: string]: RegExp } = {
+    direction: /^ltr$/,
+    'unicode-bidi': /^embed$/,
+    'vertical-align': /^middle$/,
+};
+
+/**
+ * Clean up content pasted from OneNote.
+ * OneNote uses paragraphs without margin for each line and adds direction and language information
+ * to almost every element. This changes those paragraphs into DIVs which have the same layout
+ * and removes the redundant styles and attributes
+ * @param root The root node of pasted content
+ */
+export default function convertPastedContentFromOneNote(root: NodeSelector) {
+    let elements = [].slice.call(root.querySelectorAll('*')) as HTMLElement[];
+
+    elements.forEach(element => {
+        element.removeAttribute('lang');
+
+        Object.keys(DEFAULT_STYLES).forEach(name => {
+            if (DEFAULT_STYLES[name].test(element.style.getPropertyValue(name))) {
+                element.style.removeProperty(name);
+            }
+        });
+
+        if (element.tagName == 'P' && isZeroMargin(element)) {
+            // changeElementTag() keeps the margins of a P element, they are not needed for DIV
+            element = changeElementTag(element, 'DIV');
+            ['margin-top', 'margin-bottom'].forEach(name => element.style.removeProperty(name));
+        }
+
+        if (!element.getAttribute('style')) {
+            element.removeAttribute('style');
+        }
+    });
+}
+
+function isZeroMargin(element: HTMLElement): boolean {
+    return [element.style.marginTop, element.style.marginBottom].every(
+        value => !!value && parseFloat(value) == 0
+    );
+}
@@ -0,0 +1,216 @@
+import { BeforePasteEvent, PasteOption, PasteSource, TableFormat } from 'roosterjs-editor-types';
+import { VTable } from 'roosterjs-editor-dom';
+
+const NUMBER_REGEX = /^[-+]?[$€£¥]?\s*[\d,]*\.?\d+\s*%?$/;
+
+/**
+ * Default format of pasted table, same with the default format of insertTable()
+ */
+export const DEFAULT_PASTED_TABLE_FORMAT: TableFormat = {
+    bgColorEven: '#FFF',
+    bgColorOdd: '#FFF',
+    topBorderColor: '#ABABAB',
+    bottomBorderColor: '#ABABAB',
+    verticalBorderColor: '#ABABAB',
+};
+
+/**
+ * Cell styles kept from spreadsheet. Other styles such as width, height and border are dropped,
+ * borders will be decided by the table format
+ */
+const KEPT_CELL_STYLES = ['text-align', 'background-color', 'color', 'font-weight', 'font-style'];
+
+/**
+ * Convert pasted content from Excel or Google Sheets into normalized tables.
+ * Content is treated as spreadsheet content if its source is PasteSource.Spreadsheet, or if there
+ * is only plain text which looks like tab separated cells of at least 2 rows and 2 columns. Displayed values of cells are kept, so the number formats
+ * are preserved as they are shown in spreadsheet
+ * @param event The BeforePaste event
+ * @param format The table format to apply to the pasted tables
+ * @returns True if the content is converted, otherwise false
+ */
+export default function convertPastedContentFromSpreadsheet(
+    event: BeforePasteEvent,
+    format: TableFormat
+): boolean {
+    let { clipboardData, fragment, pasteOption, pasteSource } = event;
+    let doc = fragment.ownerDocument;
+
+    if (pasteOption != PasteOption.PasteHtml) {
+        return false;
+    } else if (pasteSource == PasteSource.Spreadsheet) {
+        let tables = [].slice.call(fragment.querySelectorAll('table')) as HTMLTableElement[];
+        tables.forEach(table => {
+            table.parentNode.replaceChild(normalizeTable(table, format), table);
+        });
+        return tables.length > 0;
+    } else if (pasteSource == PasteSource.PlainText && isTabSeparatedText(clipboardData.text)) {
+        while (fragment.firstChild) {
+            fragment.removeChild(fragment.firstChild);
+        }
+        fragment.appendChild(createTableFromText(doc, clipboardData.text, format));
+        return true;
+    }
+
+    return false;
+}
+
+function normalizeTable(source: HTMLTableElement, format: TableFormat): HTMLTableElement {
+    let doc = source.ownerDocument;
+    let table = doc.createElement('table');
+    let styledCells: [HTMLTableCellElement, HTMLTableCellElement][] = [];
+
+    for (let r = 0; r < source.rows.length; r++) {
+        let tr = doc.createElement('tr');
+        let sourceRow = source.rows[r];
+        table.appendChild(tr);
+
+        for (let c = 0; c < sourceRow.cells.length; c++) {
+            let sourceTd = sourceRow.cells[c];
+            let td = doc.createElement('td');
+            td.colSpan = sourceTd.colSpan;
+            td.rowSpan = sourceTd.rowSpan;
+
+            while (sourceTd.firstChild) {
+                td.appendChild(sourceTd.firstChild);
+            }
+            tr.appendChild(td);
+            styledCells.push([td, sourceTd]);
+        }
+    }
+
+    // Cell styles from spreadsheet are applied after table format so they won't be overwritten
+    applyTableFormat(table, format);
+    styledCells.forEach(([td, sourceTd]) => {
+        KEPT_CELL_STYLES.forEach(name => {
+            let value = sourceTd.style.getPropertyValue(name);
+            if (value) {
+                td.style.setProperty(name, value);
+            }
+        });
+
+        let align = sourceTd.getAttribute('align');
+        if (align && !td.style.textAlign) {
+            td.style.textAlign = align;
+        }
+        fillEmptyCell(td);
+    });
+
+    return table;
+}
+
+function createTableFromText(doc: Document, text: string, format: TableFormat): HTMLTableElement {
+    let table = doc.createElement('table');
+    let cells: HTMLTableCellElement[] = [];
+
+    parseTabSeparatedText(text).forEach(values => {
+        let tr = doc.createElement('tr');
+        table.appendChild(tr);
+        values.forEach(value => {
+            let td = doc.createElement('td');
+            value.split('\n').forEach((line, i) => {
+                if (i > 0) {
+                    td.appendChild(doc.createElement('br'));
+                }
+                td.appendChild(doc.createTextNode(line));
+            });
+            tr.appendChild(td);
+            cells.push(td);
+        });
+    });
+
+    applyTableFormat(table, format);
+
+    // Spreadsheets align numbers to right by default
+    cells.forEach(td => {
+        if (NUMBER_REGEX.test(td.textContent.trim())) {
+            td.style.textAlign = 'right';
+        }
+        fillEmptyCell(td);
+    });
+
+    return table;
+}
+
+function applyTableFormat(table: HTMLTableElement, format: TableFormat) {
+    table.cellSpacing = '0';
+    table.cellPadding = '1';
+
+    let vtable = new VTable(table);
+    vtable.applyFormat(format);
+    vtable.writeBack();
+}
+
+function fillEmptyCell(td: HTMLTableCellElement) {
+    if (!td.textContent && !td.querySelector('img,br')) {
+        td.innerHTML = '';
+        td.appendChild(td.ownerDocument.createElement('br'));
+    }
+}
+
+/**
+ * Plain text is only treated as spreadsheet cells when it has at least 2 rows with the same number
+ * of columns, and at least 2 of the columns have values. So tab indented text such as code is
+ * not converted into a table
+ */
+function isTabSeparatedText(text: string): boolean {
+    let rows = text ? parseTabSeparatedText(text) : [];
+    let columnCount = rows.length > 1 ? rows[0].length : 0;
+    let nonEmptyColumnCount = 0;
+
+    if (columnCount < 2 || rows.some(row => row.length != columnCount)) {
+        return false;
+    }
+
+    for (let c = 0; c < columnCount; c++) {
+        if (rows.some(row => !!row[c].trim())) {
+            nonEmptyColumnCount++;
+        }
+    }
+
+    return nonEmptyColumnCount > 1;
+}
+
+/**
+ * Parse tab separated text into rows of cell values. Values containing tab, line break or quote
+ * are quoted with '"', and '"' inside them are escaped as '""'
+ */
+function parseTabSeparatedText(text: string): string[][] {
+    let rows: string[][] = [];
+    let row: string[] = [];
+    let value = '';
+    let isQuoted = false;
+    text = text.replace(/\r\n?/g, '\n').replace(/\n$/, '');
+
+    for (let i = 0; i < text.length; i++) {
+        let char = text[i];
+
+        if (isQuoted) {
+            if (char != '"') {
+                value += char;
+            } else if (text[i + 1] == '"') {
+                value += char;
+                i++;
+            } else {
+                isQuoted = false;
+            }
+        } else if (char == '"' && !value) {
+            isQuoted = true;
+        } else if (char == '\t') {
+            row.push(value);
+            value = '';
+        } else if (char == '\n') {
+            row.push(value);
+            rows.push(row);
+            row = [];
+            value = '';
+        } else {
+            value += char;
+        }
+    }
+
+    row.push(value);
+    rows.push(row);
+
+    return rows.filter(row => row.length > 1 || !!row[0]);
+}
@@ -0,0 +1,22 @@
+import { unwrap } from 'roosterjs-editor-dom';
+
+/**
+ * Clean up content pasted from a web page or an unknown source.
+ * Web pages often have hidden elements such as screen reader only text or collapsed menus
+ * which will become visible or stay as invisible garbage after pasting, so they are removed.
+ * SPAN elements without any attribute have no effect and are unwrapped
+ * @param root The root node of pasted content
+ */
+export default function convertPastedContentFromWeb(root: NodeSelector) {
+    let elements = [].slice.call(root.querySelectorAll('*')) as HTMLElement[];
+
+    elements.forEach(element => {
+        if (!element.parentNode) {
+            return;
+        } else if (element.hasAttribute('hidden') || element.style.display == 'none') {
+            element.parentNode.removeChild(element);
+        } else if (element.tagName == 'SPAN' && element.attributes.length == 0) {
+            unwrap(element);
+        }
+    });
+}
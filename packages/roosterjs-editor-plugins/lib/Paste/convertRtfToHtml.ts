@@ -0,0 +1,528 @@
+/**
+ * Characters 0x80 - 0x9F of Windows-1252 code page, the other characters of it are the same with Latin-1
+ */
+const CP1252_CHARS = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F' + '\u0090‘’“”•–—˜™š›œ\u009DžŸ';
+
+/**
+ * Destinations whose content is not a part of the document text
+ */
+const SKIPPED_DESTINATIONS = 'annotation,fldinst,filetbl,footer,footerf,footerl,footerr,footnote,header,headerf,headerl,headerr,info,listoverridetable,listtable,nonesttables,nonshppict,object,pict,revtbl,stylesheet'.split(
+    ','
+);
+
+/**
+ * Special characters represented by control words
+ */
+const SPECIAL_CHARS: { [word: string]: string } = {
+    bullet: '•',
+    emdash: '—',
+    emspace: '\u2003',
+    endash: '–',
+    enspace: '\u2002',
+    ldblquote: '“',
+    lquote: '‘',
+    rdblquote: '”',
+    rquote: '’',
+    tab: '\u00a0\u00a0\u00a0 ',
+};
+
+/**
+ * Name and parameter of a control word, and the space delimiter after it. The leading backslash is
+ * not included. It is a global regex so that it can be matched from a position using lastIndex
+ * without copying the rest of RTF string
+ */
+const CONTROL_WORD_REGEX = /([a-z]+)(-?\d+)? ?/gi;
+const ORDERED_LIST_MARKER_REGEX = /^\s*(\d+|[a-z]{1,3})[.)]/i;
+const TABLE_CELL_STYLE = 'border: 1px solid #ababab';
+
+const enum Destination {
+    Text,
+    Skip,
+    FontTable,
+    ColorTable,
+    ListText,
+}
+
+interface CharFormat {
+    bold: boolean;
+    italic: boolean;
+    underline: boolean;
+    strike: boolean;
+    superscript: boolean;
+    subscript: boolean;
+    font: number;
+    fontSize: number;
+    color: number;
+    backgroundColor: number;
+}
+
+interface Group {
+    destination: Destination;
+    format: CharFormat;
+    unicodeSkip: number;
+}
+
+interface Run {
+    startTags: string;
+    endTags: string;
+    text: string;
+}
+
+class RtfConverter {
+    private pos = 0;
+    private groups: Group[] = [];
+    private group: Group = {
+        destination: Destination.Text,
+        format: createCharFormat(0),
+        unicodeSkip: 1,
+    };
+    private pendingSkip = 0;
+    private defaultFont = 0;
+
+    // Font table and color table
+    private fonts: { [index: number]: string } = {};
+    private colors: string[] = [];
+    private fontIndex = 0;
+    private fontName = '';
+    private color: number[] = null;
+
+    // Current paragraph
+    private runs: Run[] = [];
+    private align = '';
+    private inTable = false;
+    private listId = 0;
+    private listLevel = 0;
+    private listMarker: string = null;
+
+    // Output
+    private html = '';
+    private openLists: string[] = [];
+    private cellHtml = '';
+    private rowCells: string[] = [];
+    private tableRows: string[][] = [];
+
+    constructor(private rtf: string) {}
+
+    convert(): string {
+        while (this.pos < this.rtf.length) {
+            let char = this.rtf[this.pos++];
+
+            switch (char) {
+                case '{':
+                    this.groups.push(this.group);
+                    this.group = {
+                        destination: this.group.destination,
+                        format: { ...this.group.format },
+                        unicodeSkip: this.group.unicodeSkip,
+                    };
+                    this.pendingSkip = 0;
+                    break;
+
+                case '}':
+                    this.group = this.groups.pop() || this.group;
+                    this.pendingSkip = 0;
+                    break;
+
+                case '\\':
+                    this.readControl();
+                    break;
+
+                case '\r':
+                case '\n':
+                    break;
+
+                default:
+                    this.addText(char);
+                    break;
+            }
+        }
+
+        if (this.runs.length > 0) {
+            this.endParagraph();
+        }
+        this.writeBlock(null);
+
+        return this.html;
+    }
+
+    private readControl() {
+        let char = this.rtf[this.pos++] || '';
+
+        if (/[a-z]/i.test(char)) {
+            // The regex always matches from lastIndex since the character there is a letter
+            CONTROL_WORD_REGEX.lastIndex = this.pos - 1;
+            let match = CONTROL_WORD_REGEX.exec(this.rtf);
+            this.pos = CONTROL_WORD_REGEX.lastIndex;
+            this.onControlWord(match[1], match[2] ? parseInt(match[2]) : null);
+        } else if (char == "'") {
+            let code = parseInt(this.rtf.substr(this.pos, 2), 16);
+            this.pos += 2;
+            if (!isNaN(code)) {
+                this.addText(
+                    code >= 0x80 && code < 0xa0
+                        ? CP1252_CHARS[code - 0x80]
+                        : String.fromCharCode(code)
+                );
+            }
+        } else if (char == '*') {
+            this.group.destination = Destination.Skip;
+        } else if (char == '~') {
+            this.addText('\u00a0');
+        } else if (char == '_') {
+            this.addText('-');
+        } else if (char == '\r' || char == '\n') {
+            this.onControlWord('par', null);
+        } else if (char == '\\' || char == '{' || char == '}') {
+            this.addText(char);
+        }
+    }
+
+    private onControlWord(word: string, param: number) {
+        let format = this.group.format;
+        let isOn = param !== 0;
+
+        if (SKIPPED_DESTINATIONS.indexOf(word) >= 0) {
+            this.group.destination = Destination.Skip;
+            return;
+        }
+
+        switch (word) {
+            case 'bin':
+                // Binary data may contain any bytes including '{', '}' and '\', so skip it as a whole
+                this.pos += Math.max(param || 0, 0);
+                break;
+            case 'fonttbl':
+                this.group.destination = Destination.FontTable;
+                break;
+            case 'colortbl':
+                this.group.destination = Destination.ColorTable;
+                break;
+            case 'listtext':
+            case 'pntext':
+                this.group.destination = Destination.ListText;
+                this.listMarker = '';
+                break;
+            case 'deff':
+                this.defaultFont = param || 0;
+                format.font = this.defaultFont;
+                break;
+            case 'f':
+                if (this.group.destination == Destination.FontTable) {
+                    this.fontIndex = param || 0;
+                    this.fontName = '';
+                } else {
+                    format.font = param || 0;
+                }
+                break;
+            case 'red':
+            case 'green':
+            case 'blue':
+                this.color = this.color || [0, 0, 0];
+                this.color[['red', 'green', 'blue'].indexOf(word)] = param || 0;
+                break;
+            case 'u':
+                if (param != null) {
+                    this.addText(String.fromCharCode(param < 0 ? param + 0x10000 : param));
+                    this.pendingSkip = this.group.unicodeSkip;
+                }
+                break;
+            case 'uc':
+                this.group.unicodeSkip = param || 0;
+                break;
+            case 'plain':
+                this.group.format = createCharFormat(this.defaultFont);
+                break;
+            case 'b':
+                format.bold = isOn;
+                break;
+            case 'i':
+                format.italic = isOn;
+                break;
+            case 'ul':
+                format.underline = isOn;
+                break;
+            case 'ulnone':
+                format.underline = false;
+                break;
+            case 'strike':
+                format.strike = isOn;
+                break;
+            case 'super':
+                format.superscript = true;
+                format.subscript = false;
+                break;
+            case 'sub':
+                format.subscript = true;
+                format.superscript = false;
+                break;
+            case 'nosupersub':
+                format.superscript = format.subscript = false;
+                break;
+            case 'fs':
+                format.fontSize = param || 0;
+                break;
+            case 'cf':
+                format.color = param || 0;
+                break;
+            case 'cb':
+            case 'highlight':
+                format.backgroundColor = param || 0;
+                break;
+            default:
+                if (this.group.destination == Destination.Text) {
+                    this.onParagraphControlWord(word, param);
+                }
+                break;
+        }
+    }
+
+    private onParagraphControlWord(word: string, param: number) {
+        switch (word) {
+            case 'par':
+                this.endParagraph();
+                break;
+            case 'pard':
+                this.align = '';
+                this.inTable = false;
+                this.listId = 0;
+                this.listLevel = 0;
+                break;
+            case 'ql':
+                this.align = '';
+                break;
+            case 'qc':
+                this.align = 'center';
+                break;
+            case 'qr':
+                this.align = 'right';
+                break;
+            case 'qj':
+                this.align = 'justify';
+                break;
+            case 'ls':
+                this.listId = param || 0;
+                break;
+            case 'ilvl':
+                this.listLevel = param || 0;
+                break;
+            case 'intbl':
+                this.inTable = true;
+                break;
+            case 'cell':
+                if (this.runs.length > 0 || !this.cellHtml) {
+                    this.inTable = true;
+                    this.endParagraph();
+                }
+                this.rowCells.push(this.cellHtml);
+                this.cellHtml = '';
+                break;
+            case 'nestcell':
+                // Nested tables are flattened into the cell of outer table, so that the cells and
+                // rows of outer table are kept
+                if (this.runs.length > 0) {
+                    this.inTable = true;
+                    this.endParagraph();
+                }
+                break;
+            case 'row':
+                if (this.rowCells.length > 0) {
+                    this.tableRows.push(this.rowCells);
+                    this.rowCells = [];
+                }
+                break;
+            case 'line':
+                this.addHtml('<br>');
+                break;
+            default:
+                if (SPECIAL_CHARS.hasOwnProperty(word)) {
+                    this.addText(SPECIAL_CHARS[word]);
+                }
+                break;
+        }
+    }
+
+    private addText(text: string) {
+        if (this.pendingSkip > 0) {
+            this.pendingSkip--;
+            return;
+        }
+
+        switch (this.group.destination) {
+            case Destination.Text:
+                this.addHtml(escapeHtml(text));
+                break;
+
+            case Destination.FontTable:
+                if (text == ';') {
+                    this.fonts[this.fontIndex] = this.fontName.replace(/[;"'<>]/g, '').trim();
+                } else {
+                    this.fontName += text;
+                }
+                break;
+
+            case Destination.ColorTable:
+                if (text == ';') {
+                    this.colors.push(this.color ? `rgb(${this.color.join(', ')})` : null);
+                    this.color = null;
+                }
+                break;
+
+            case Destination.ListText:
+                this.listMarker += text;
+                break;
+        }
+    }
+
+    private addHtml(html: string) {
+        let [startTags, endTags] = this.getFormatTags(this.group.format);
+        let lastRun = this.runs[this.runs.length - 1];
+
+        if (lastRun && lastRun.startTags == startTags) {
+            lastRun.text += html;
+        } else {
+            this.runs.push({ startTags, endTags, text: html });
+        }
+    }
+
+    private getFormatTags(format: CharFormat): [string, string] {
+        let styles: string[] = [];
+        let font = this.fonts[format.font];
+        let color = this.colors[format.color];
+        let backgroundColor = this.colors[format.backgroundColor];
+        let tags = [
+            format.bold && 'b',
+            format.italic && 'i',
+            format.underline && 'u',
+            format.strike && 's',
+            format.superscript && 'sup',
+            format.subscript && 'sub',
+        ].filter(tag => !!tag);
+
+        if (font) {
+            styles.push('font-family: ' + font);
+        }
+        if (format.fontSize) {
+            styles.push(`font-size: ${format.fontSize / 2}pt`);
+        }
+        if (color) {
+            styles.push('color: ' + color);
+        }
+        if (backgroundColor) {
+            styles.push('background-color: ' + backgroundColor);
+        }
+
+        let startTags = tags.map(tag => `<${tag}>`).join('');
+        let endTags = tags
+            .reverse()
+            .map(tag => `</${tag}>`)
+            .join('');
+
+        return styles.length > 0
+            ? [`<span style="${styles.join('; ')}">${startTags}`, `${endTags}</span>`]
+            : [startTags, endTags];
+    }
+
+    private endParagraph() {
+        let html = this.runs.map(run => run.startTags + run.text + run.endTags).join('') || '<br>';
+        let style = this.align ? ` style="text-align: ${this.align}"` : '';
+
+        if (this.inTable) {
+            this.cellHtml += `<div${style}>${html}</div>`;
+        } else if (this.listId > 0 || this.listMarker != null) {
+            let tag = ORDERED_LIST_MARKER_REGEX.test(this.listMarker || '') ? 'ol' : 'ul';
+            this.writeBlock(`<li${style}>${html}</li>`, tag, this.listLevel);
+        } else {
+            this.writeBlock(`<div${style}>${html}</div>`);
+        }
+
+        this.runs = [];
+        this.listMarker = null;
+    }
+
+    /**
+     * Write a block into result HTML. Nested lists are written directly into their parent lists,
+     * in the same way as indenting list items in editor
+     * @param html HTML of the block, or null to only close the open lists and tables
+     * @param listTag Tag of the list if the block is a list item
+     * @param listLevel Level of the list item, starts from 0
+     */
+    private writeBlock(html: string, listTag?: string, listLevel?: number) {
+        if (this.tableRows.length > 0 || this.rowCells.length > 0) {
+            this.closeLists(0);
+            this.writeTable();
+        }
+
+        if (listTag) {
+            this.closeLists(listLevel + 1);
+            if (this.openLists[listLevel] && this.openLists[listLevel] != listTag) {
+                this.closeLists(listLevel);
+            }
+            while (this.openLists.length <= listLevel) {
+                this.openLists.push(listTag);
+                this.html += `<${listTag}>`;
+            }
+        } else {
+            this.closeLists(0);
+        }
+
+        this.html += html || '';
+    }
+
+    private closeLists(count: number) {
+        while (this.openLists.length > count) {
+            this.html += `</${this.openLists.pop()}>`;
+        }
+    }
+
+    private writeTable() {
+        if (this.rowCells.length > 0) {
+            this.tableRows.push(this.rowCells);
+        }
+
+        let rows = this.tableRows.map(
+            cells =>
+                `<tr>${cells
+                    .map(cell => `<td style="${TABLE_CELL_STYLE}">${cell}</td>`)
+                    .join('')}</tr>`
+        );
+        this.html += `<table style="border-collapse: collapse">${rows.join('')}</table>`;
+        this.tableRows = [];
+        this.rowCells = [];
+    }
+}
+
+/**
+ * Convert RTF into HTML. Paragraphs, character formats (bold, italic, underline, strikethrough,
+ * superscript, subscript, font, size, text and background colors), lists and simple tables are
+ * converted, other content such as pictures, headers and footers is dropped. Content of nested
+ * tables is kept in the cells of outer tables.
+ * Only Windows-1252 code page is supported for characters not in \u form
+ * @param rtf The RTF string to convert
+ * @returns The HTML string converted from RTF, it should be sanitized before being used
+ */
+export default function convertRtfToHtml(rtf: string): string {
+    return new RtfConverter(rtf || '').convert();
+}
+
+function createCharFormat(font: number): CharFormat {
+    return {
+        bold: false,
+        italic: false,
+        underline: false,
+        strike: false,
+        superscript: false,
+        subscript: false,
+        font: font,
+        fontSize: 0,
+        color: 0,
+        backgroundColor: 0,
+    };
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,39 @@
+import { ClipboardData, PasteSource } from 'roosterjs-editor-types';
+
+const SOURCE_REGEXES: [PasteSource, RegExp][] = [
+    [
+        PasteSource.Spreadsheet,
+        /urn:schemas-microsoft-com:office:excel|ProgId\s+content=["']?Excel\.Sheet|google-sheets-html-origin/i,
+    ],
+    [
+        PasteSource.Word,
+        /urn:schemas-microsoft-com:office:word|ProgId\s+content=["']?Word\.Document/i,
+    ],
+    [
+        PasteSource.OneNote,
+        /ProgId\s+content=["']?OneNote\.File|Generator\s+content=["']?Microsoft OneNote/i,
+    ],
+    [PasteSource.GoogleDocs, /id=["']?docs-internal-guid-/i],
+];
+
+/**
+ * Detect where the pasted content is copied from, using the HTML from clipboard.
+ * The original HTML is used when available since sanitizing removes most of the source specific
+ * markers, such as the meta tags and id attributes
+ * @param clipboardData The clipboard data to detect source from
+ */
+export default function getPasteSource(clipboardData: ClipboardData): PasteSource {
+    let html = clipboardData.rawHtml !== undefined ? clipboardData.rawHtml : clipboardData.html;
+
+    if (!html) {
+        return clipboardData.rtf ? PasteSource.Rtf : PasteSource.PlainText;
+    }
+
+    for (let [source, regex] of SOURCE_REGEXES) {
+        if (regex.test(html)) {
+            return source;
+        }
+    }
+
+    return PasteSource.Web;
+}
@@ -0,0 +1,54 @@
+import { changeElementTag } from 'roosterjs-editor-dom';
+
+/** Word paragraph styles Heading 1 to Heading 9 */
+const HEADING_CLASS_REGEX = /^MsoHeading([1-9])$/;
+
+/** Tags of the other Word paragraph styles which have a semantic element */
+const PARAGRAPH_STYLE_TAGS: { [className: string]: string } = {
+    MsoTitle: 'H1',
+    MsoSubtitle: 'H2',
+    MsoQuote: 'BLOCKQUOTE',
+    MsoIntenseQuote: 'BLOCKQUOTE',
+};
+
+/**
+ * Converts the paragraphs with Word paragraph styles into semantic elements. Heading, title and
+ * subtitle paragraphs become H1 - H6, quote paragraphs are put into BLOCKQUOTE, and adjacent quote
+ * paragraphs share the same BLOCKQUOTE. Word style classes are kept by Paste plugin for this.
+ */
+export default function convertParagraphStyles(root: NodeSelector) {
+    let paragraphs = [].slice.call(root.querySelectorAll('p[class]')) as HTMLElement[];
+    let lastQuote: HTMLElement = null;
+
+    paragraphs.forEach(paragraph => {
+        let tag = getTagOfParagraphStyle(paragraph);
+
+        if (tag == 'BLOCKQUOTE') {
+            if (!lastQuote || lastQuote.nextSibling != paragraph) {
+                lastQuote = paragraph.ownerDocument.createElement('blockquote');
+                paragraph.parentNode.insertBefore(lastQuote, paragraph);
+            }
+            lastQuote.appendChild(paragraph);
+        } else if (tag) {
+            // Headings have their own margins, margins of Word paragraph are not needed
+            let heading = changeElementTag(paragraph, tag);
+            heading.style.removeProperty('margin-top');
+            heading.style.removeProperty('margin-bottom');
+        }
+    });
+}
+
+function getTagOfParagraphStyle(paragraph: HTMLElement): string {
+    let classNames = paragraph.className.split(/\s+/);
+
+    for (let className of classNames) {
+        let match = HEADING_CLASS_REGEX.exec(className);
+        if (match) {
+            return 'H' + Math.min(parseInt(match[1]), 6);
+        } else if (PARAGRAPH_STYLE_TAGS.hasOwnProperty(className)) {
+            return PARAGRAPH_STYLE_TAGS[className];
+        }
+    }
+
+    return null;
+}
@@ -1,9 +1,19 @@
+import convertParagraphStyles from './convertParagraphStyles';
+import convertTables from './convertTables';
+import removeWordMarkup from './removeWordMarkup';
 import { createWordConverter } from './wordConverter';
 import { createWordConverterArguments } from './WordConverterArguments';
 import { processNodesDiscovery, processNodeConvert } from './converterUtils';
 
-/** Converts all the Word generated list items in the specified node into standard HTML UL and OL tags */
-export default function convertPastedContentFromWord(root: NodeSelector) {
+/** Prefix of the classes of Word styles */
+const WORD_STYLE_CLASS_REGEX = /^Mso/;
+
+/**
+ * Converts content pasted from Word into standard HTML: Word generated list items are converted into
+ * UL and OL, paragraph styles into headings and quotes, tables are normalized, then Word specific
+ * markup is removed
+ */
+export default function convertPastedContentFromWord(root: DocumentFragment) {
     let wordConverter = createWordConverter();
 
     // First find all the nodes that we need to check for list item information
@@ -16,4 +26,19 @@ export default function convertPastedContentFromWord(root: NodeSelector) {
             processNodeConvert(wordConverter);
         }
     }
+
+    convertParagraphStyles(root);
+    convertTables(root);
+    removeWordMarkup(root);
+}
+
+/**
+ * Property callback of class attribute for sanitizing HTML from Word. Only the classes of Word styles
+ * are kept, so that the paragraph styles can be converted
+ * @param value Value of the class attribute
+ * @returns The Word style classes, or null if there isn't any
+ */
+export function keepWordStyleClasses(value: string): string {
+    let classNames = value.split(/\s+/).filter(className => WORD_STYLE_CLASS_REGEX.test(className));
+    return classNames.length > 0 ? classNames.join(' ') : null;
 }
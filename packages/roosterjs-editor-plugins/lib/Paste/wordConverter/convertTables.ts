@@ -0,0 +1,37 @@
+import { VTable, changeElementTag, getTagOfNode } from 'roosterjs-editor-dom';
+
+/** Size styles Word sets in points, they make tables wider than editor */
+const SIZE_STYLES = ['width', 'min-width', 'height', 'margin-left'];
+const SIZE_ATTRIBUTES = ['width', 'height'];
+
+/**
+ * Normalizes the tables from Word so they can be edited in the same way as tables created in editor.
+ * Fixed widths and heights are removed, paragraphs in cells are converted into DIVs without margin,
+ * and each table is rebuilt using VTable, which also collapses the borders.
+ */
+export default function convertTables(root: NodeSelector) {
+    let tables = [].slice.call(root.querySelectorAll('table')) as HTMLTableElement[];
+
+    tables.forEach(table => {
+        let elements = [].slice.call(table.querySelectorAll('tr,td,th')) as HTMLElement[];
+        elements.push(table);
+        elements.forEach(element => {
+            SIZE_ATTRIBUTES.forEach(name => element.removeAttribute(name));
+            SIZE_STYLES.forEach(name => element.style.removeProperty(name));
+        });
+
+        let cells = [].slice.call(table.querySelectorAll('td,th')) as HTMLTableCellElement[];
+        cells.forEach(cell => {
+            let paragraphs = [].slice
+                .call(cell.childNodes)
+                .filter((node: Node) => getTagOfNode(node) == 'P') as HTMLElement[];
+            paragraphs.forEach(paragraph => {
+                let div = changeElementTag(paragraph, 'DIV');
+                div.style.removeProperty('margin-top');
+                div.style.removeProperty('margin-bottom');
+            });
+        });
+
+        new VTable(table).writeBack();
+    });
+}
@@ -510,7 +510,7 @@ function isEmptySpan(node: Node): boolean {
 }
 
 /** Reads the specified style value from the node */
-function getStyleValue(node: HTMLElement, styleName: string): string {
+export function getStyleValue(node: HTMLElement, styleName: string): string {
     // Word uses non-standard names for the metadata that puts in the style of the element...
     // Most browsers will not provide the information for those unstandard values throug the node.style
     // property, so the only reliable way to read them is to get the attribute directly and do
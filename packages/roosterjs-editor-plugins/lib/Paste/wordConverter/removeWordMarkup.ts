@@ -0,0 +1,82 @@
+import { NodeType } from 'roosterjs-editor-types';
+import { getTagOfNode, unwrap } from 'roosterjs-editor-dom';
+import { getStyleValue } from './converterUtils';
+
+/** Values of mso-element style of the elements which contain Word comments */
+const COMMENT_ELEMENTS = ['comment-list', 'comment'];
+
+/** Links to Word comments, footnotes and endnotes, which only work inside Word document */
+const WORD_LINK_REGEX = /^#_(msocom|msoanchor|ftn|edn)/;
+
+/** Prefix of the Word specific CSS properties */
+const MSO_STYLE_PREFIX = 'mso-';
+
+/**
+ * Removes the markup which is only meaningful to Word: comments and comment references, bookmarks,
+ * links of footnote and endnote references, Office namespace elements such as O:P, conditional
+ * comments, and Word specific CSS properties, classes and language attributes
+ */
+export default function removeWordMarkup(root: DocumentFragment) {
+    let elements = [].slice.call(root.querySelectorAll('*')) as HTMLElement[];
+
+    removeCommentNodes(root);
+    elements.forEach(element => {
+        let tag = getTagOfNode(element);
+        let href = element.getAttribute('href');
+
+        if (
+            COMMENT_ELEMENTS.indexOf(getStyleValue(element, 'mso-element')) >= 0 ||
+            /\bMsoCommentReference\b/.test(element.className) ||
+            (href && /^#_msocom/.test(href))
+        ) {
+            removeNode(element);
+            return;
+        }
+
+        removeCommentNodes(element);
+        element.removeAttribute('class');
+        element.removeAttribute('lang');
+        removeMsoStyles(element);
+
+        if (
+            tag.indexOf(':') >= 0 ||
+            (tag == 'A' && (!href || WORD_LINK_REGEX.test(href))) ||
+            (tag == 'SPAN' && element.attributes.length == 0)
+        ) {
+            // Namespace elements, bookmarks, footnote links and spans without format
+            unwrap(element);
+        }
+    });
+}
+
+function removeNode(node: Node) {
+    if (node.parentNode) {
+        node.parentNode.removeChild(node);
+    }
+}
+
+function removeCommentNodes(node: Node) {
+    // Conditional comments are comments too, e.g. <!--[if gte mso 9]>...<![endif]-->
+    [].slice
+        .call(node.childNodes)
+        .filter((child: Node) => child.nodeType == NodeType.Comment)
+        .forEach(removeNode);
+}
+
+function removeMsoStyles(element: HTMLElement) {
+    let style = element.getAttribute('style');
+    let values = (style || '').split(';').filter(value => value.trim());
+    let result = values.filter(
+        value =>
+            value
+                .trim()
+                .toLowerCase()
+                .indexOf(MSO_STYLE_PREFIX) != 0
+    );
+
+    if (result.length == 0) {
+        element.removeAttribute('style');
+    } else if (result.length != values.length) {
+        element.setAttribute('style', result.join(';'));
+    }
+}
@@ -0,0 +1,353 @@
+import Paste from '../Paste/Paste';
+import ShortcutRegistry from '../ContentEdit/ShortcutRegistry';
+import { Editor, EditorPlugin } from 'roosterjs-editor-core';
+import { Keys } from '../ContentEdit/ContentEditFeatures';
+import { fromHtml, getElementOrParentElement } from 'roosterjs-editor-dom';
+import {
+    ChangeSource,
+    ClipboardData,
+    ContentChangedEvent,
+    ContentPosition,
+    PluginEvent,
+    PluginEventType,
+} from 'roosterjs-editor-types';
+
+const PASTE_OPTIONS_CONTAINER_KEY = 'PASTE_OPTIONS_CONTAINER';
+const CYCLE_COMMAND = 'cyclePasteOption';
+const KEY_ESCAPE = 27;
+const MODIFIER_KEYS = [16, 17, 18, 91, 92, 93, 224]; // Shift, Ctrl, Alt, Meta keys
+const CONTAINER_HTML = '<div style="position: fixed; z-index: 1000; font: 13px sans-serif"></div>';
+const BUTTON_STYLE =
+    'display: inline-block; padding: 1px 6px; border: 1px solid #ababab; background-color: #fff; cursor: pointer; user-select: none';
+const MENU_STYLE =
+    'border: 1px solid #ababab; background-color: #fff; box-shadow: 0 2px 4px rgba(0,0,0,0.2); white-space: nowrap';
+const MENU_ITEM_STYLE = 'padding: 4px 12px; cursor: pointer; user-select: none';
+
+/**
+ * An option to paste the clipboard data with again after pasting
+ */
+export interface PasteOptionChoice {
+    /**
+     * Display text of this option
+     */
+    text: string;
+
+    /**
+     * Check if this option can be used for the given clipboard data
+     */
+    isAvailable: (clipboardData: ClipboardData) => boolean;
+
+    /**
+     * Paste the given clipboard data with this option, using the given Paste plugin
+     */
+    paste: (paste: Paste, clipboardData: ClipboardData) => void;
+}
+
+/**
+ * Get the default paste option choices: keep source formatting, merge formatting, text only and
+ * picture. Change the text of the returned choices to localize them
+ */
+export function getDefaultPasteOptionChoices(): PasteOptionChoice[] {
+    return [
+        {
+            text: 'Keep source formatting',
+            isAvailable: isHtmlAvailable,
+            paste: (paste, clipboardData) => paste.pasteOriginal(clipboardData),
+        },
+        {
+            text: 'Merge formatting',
+            isAvailable: isHtmlAvailable,
+            paste: (paste, clipboardData) => paste.pasteAndMergeFormat(clipboardData),
+        },
+        {
+            text: 'Keep text only',
+            isAvailable: clipboardData => !!clipboardData.text,
+            paste: (paste, clipboardData) => paste.pasteText(clipboardData),
+        },
+        {
+            text: 'Picture',
+            isAvailable: clipboardData => !!clipboardData.image,
+            paste: (paste, clipboardData) => paste.pasteImage(clipboardData),
+        },
+    ];
+}
+
+// Paste plugin pastes image instead of HTML when there is an image but no text in clipboard
+function isHtmlAvailable(clipboardData: ClipboardData): boolean {
+    return !!clipboardData.html && (!!clipboardData.text || !clipboardData.image);
+}
+
+/**
+ * PasteOptions plugin, shows a button near the pasted content after pasting with Paste plugin.
+ * User can choose another paste option from the menu of the button, or cycle through the options
+ * using keyboard shortcut, to paste the same content again in another way.
+ * Content pasted with the previous option is replaced, so changing paste option doesn't add
+ * a new undo step. The button is hidden once user does anything else.
+ */
+export default class PasteOptions implements EditorPlugin {
+    private editor: Editor;
+    private shortcuts = new ShortcutRegistry(false /*includeDefaults*/);
+    private clipboardData: ClipboardData;
+    private currentChoice: PasteOptionChoice;
+    private anchor: Range;
+    private isMenuOpen: boolean;
+    private isSwitching: boolean;
+    public name: 'PasteOptions';
+
+    /**
+     * Create an instance of PasteOptions
+     * @param paste The Paste plugin used by editor, it is used to paste content again
+     * @param cycleKeys (Optional) Keyboard shortcut to switch to the next paste option.
+     * See ShortcutRegistry for the format. Default value is 'Mod+Alt+V'
+     * @param choices (Optional) Paste options to choose from. Default value is the result of
+     * getDefaultPasteOptionChoices()
+     */
+    constructor(
+        private paste: Paste,
+        cycleKeys: string = 'Mod+Alt+V',
+        private choices: PasteOptionChoice[] = getDefaultPasteOptionChoices()
+    ) {
+        this.shortcuts.bind(CYCLE_COMMAND, [cycleKeys], () => this.cycleChoice());
+    }
+
+    /**
+     * Initialize this plugin
+     * @param editor The editor instance
+     */
+    public initialize(editor: Editor) {
+        this.editor = editor;
+
+        let window = editor.getDocument().defaultView;
+        window.addEventListener('scroll', this.reflow, true /*useCapture*/);
+        window.addEventListener('resize', this.reflow);
+    }
+
+    /**
+     * Dispose this plugin
+     */
+    public dispose() {
+        let window = this.editor.getDocument().defaultView;
+        window.removeEventListener('scroll', this.reflow, true /*useCapture*/);
+        window.removeEventListener('resize', this.reflow);
+
+        this.clipboardData = null;
+        this.currentChoice = null;
+        this.anchor = null;
+        this.editor = null;
+    }
+
+    /**
+     * Handle plugin events
+     * @param event The event object
+     */
+    public onPluginEvent(event: PluginEvent) {
+        switch (event.eventType) {
+            case PluginEventType.ContentChanged:
+                let { source, data } = <ContentChangedEvent>event;
+                if (source == ChangeSource.Paste && data) {
+                    this.onPasted(<ClipboardData>data);
+                } else if (!this.isSwitching) {
+                    this.hide();
+                }
+                break;
+
+            case PluginEventType.KeyDown:
+                this.onKeyDown(event.rawEvent);
+                break;
+
+            case PluginEventType.MouseDown:
+                this.hide();
+                break;
+        }
+    }
+
+    /**
+     * Get paste options which can be used for the last pasted content.
+     * @returns An array of available choices, or empty array if there is no pasted content which
+     * can be pasted again
+     */
+    public getAvailableChoices(): PasteOptionChoice[] {
+        return this.clipboardData
+            ? this.choices.filter(choice => choice.isAvailable(this.clipboardData))
+            : [];
+    }
+
+    /**
+     * Get the paste option used by the last pasted content
+     */
+    public getCurrentChoice(): PasteOptionChoice {
+        return this.clipboardData ? this.currentChoice : null;
+    }
+
+    /**
+     * Paste the last pasted content again with the given option, to replace the content pasted with
+     * the current option
+     * @param choice The paste option to use
+     * @returns True if content is pasted again, otherwise false
+     */
+    public applyChoice(choice: PasteOptionChoice): boolean {
+        if (this.getAvailableChoices().indexOf(choice) < 0) {
+            return false;
+        }
+
+        if (choice != this.currentChoice) {
+            try {
+                this.isSwitching = true;
+
+                // Paste plugin only replaces the content pasted from the same clipboardData last time,
+                // and keeps the change in the undo step of the previous paste
+                this.currentChoice = choice;
+                choice.paste(this.paste, this.clipboardData);
+            } finally {
+                this.isSwitching = false;
+            }
+        }
+
+        this.isMenuOpen = false;
+        this.render();
+        return true;
+    }
+
+    /**
+     * Paste the last pasted content again with the next available option
+     * @returns True if content is pasted again, otherwise false
+     */
+    public cycleChoice(): boolean {
+        let choices = this.getAvailableChoices();
+        let index = choices.indexOf(this.currentChoice);
+        return choices.length > 1 && this.applyChoice(choices[(index + 1) % choices.length]);
+    }
+
+    private onPasted(clipboardData: ClipboardData) {
+        if (!this.isSwitching) {
+            this.clipboardData = clipboardData;
+            this.currentChoice = this.getAvailableChoices()[0];
+            this.isMenuOpen = false;
+        }
+
+        let range = this.editor.getSelectionRange();
+        this.anchor = range && range.cloneRange();
+        this.render();
+    }
+
+    private onKeyDown(e: KeyboardEvent) {
+        if (!this.clipboardData) {
+            return;
+        }
+
+        let chord =
+            e.which |
+            (e.metaKey && Keys.Meta) |
+            (e.shiftKey && Keys.Shift) |
+            (e.ctrlKey && Keys.Ctrl) |
+            (e.altKey && Keys.Alt);
+        let match = this.shortcuts.match([chord]);
+
+        if (match && !match.isPrefix) {
+            match.binding.action(this.editor);
+            e.preventDefault();
+        } else if (e.which == KEY_ESCAPE && this.isMenuOpen) {
+            this.isMenuOpen = false;
+            this.render();
+            e.preventDefault();
+        } else if (MODIFIER_KEYS.indexOf(e.which) < 0) {
+            this.hide();
+        }
+    }
+
+    private hide() {
+        if (this.clipboardData) {
+            this.clipboardData = null;
+            this.currentChoice = null;
+            this.anchor = null;
+            this.isMenuOpen = false;
+            this.render();
+        }
+    }
+
+    private render() {
+        if (!this.editor || this.editor.isDisposed()) {
+            return;
+        }
+
+        let container = this.getContainer();
+        let choices = this.getAvailableChoices();
+        container.innerHTML = '';
+
+        if (choices.length > 1) {
+            let button = this.createElement(
+                container,
+                BUTTON_STYLE,
+                this.currentChoice.text + ' \u25BE'
+            );
+            button.title = this.shortcuts.getShortcutText(CYCLE_COMMAND);
+            button.addEventListener('mousedown', this.onButtonMouseDown);
+
+            if (this.isMenuOpen) {
+                let menu = this.createElement(container, MENU_STYLE);
+                choices.forEach(choice => {
+                    let item = this.createElement(menu, MENU_ITEM_STYLE, choice.text);
+                    item.style.fontWeight = choice == this.currentChoice ? 'bold' : '';
+                    item.addEventListener('mousedown', (e: MouseEvent) => {
+                        // Prevent from losing focus of editor
+                        e.preventDefault();
+                        this.applyChoice(choice);
+                    });
+                });
+            }
+        }
+
+        this.reflow();
+    }
+
+    private reflow = () => {
+        if (!this.editor || this.editor.isDisposed() || !this.anchor) {
+            return;
+        }
+
+        let container = this.getContainer();
+        let rect = this.anchor.getBoundingClientRect();
+
+        // A collapsed range may not have a valid rect, use its container element instead
+        if (!rect || (rect.top == 0 && rect.bottom == 0)) {
+            let element = getElementOrParentElement(this.anchor.startContainer);
+            rect = element && element.getBoundingClientRect();
+        }
+
+        if (rect) {
+            container.style.left = rect.right + 'px';
+            container.style.top = rect.bottom + 'px';
+        }
+    };
+
+    private onButtonMouseDown = (e: MouseEvent) => {
+        e.preventDefault();
+        this.isMenuOpen = !this.isMenuOpen;
+        this.render();
+    };
+
+    private createElement(parent: HTMLElement, cssText: string, text?: string): HTMLElement {
+        let element = this.editor.getDocument().createElement('div');
+        element.style.cssText = cssText;
+        element.textContent = text || '';
+        parent.appendChild(element);
+        return element;
+    }
+
+    private getContainer(): HTMLElement {
+        return this.editor.getCustomData(
+            PASTE_OPTIONS_CONTAINER_KEY,
+            () => {
+                let container = fromHtml(CONTAINER_HTML, this.editor.getDocument())[0];
+                this.editor.insertNode(container, {
+                    position: ContentPosition.Outside,
+                    updateCursor: false,
+                    replaceSelection: false,
+                    insertOnNewLine: false,
+                });
+                return container as HTMLElement;
+            },
+            container => container.parentNode.removeChild(container)
+        );
+    }
+}
@@ -0,0 +1,185 @@
+import SerializedRange, { deserializeRange, serializeRange } from './SerializedRange';
+import { ContentPosition, PluginEvent, PluginEventType, Rect } from 'roosterjs-editor-types';
+import { Editor, EditorPlugin } from 'roosterjs-editor-core';
+import { findContentRoot } from '../Collaboration/blockPath';
+import { fromHtml, Position } from 'roosterjs-editor-dom';
+
+const REMOTE_CURSOR_CONTAINER_KEY = 'REMOTE_CURSOR_CONTAINER';
+const CARET_WIDTH = 2;
+const CONTAINER_HTML = '<div style="position: fixed; top: 0; left: 0; pointer-events: none"></div>';
+const LABEL_STYLE =
+    'position: fixed; padding: 0 4px; font: 11px sans-serif; line-height: 16px; color: white; white-space: nowrap';
+const LABEL_HEIGHT = 16;
+
+interface RemoteCursorInfo {
+    id: string;
+    name: string;
+    color: string;
+    range: SerializedRange;
+}
+
+/**
+ * An editor plugin to show carets and selections of other users.
+ * Cursors are rendered in an overlay outside of editor content, so they don't change the content.
+ */
+export default class RemoteCursor implements EditorPlugin {
+    private editor: Editor;
+    private cursors: RemoteCursorInfo[] = [];
+    private scrollDisposer: () => void;
+    public name: 'RemoteCursor';
+
+    /**
+     * Initialize this plugin
+     * @param editor The editor instance
+     */
+    public initialize(editor: Editor): void {
+        this.editor = editor;
+        this.scrollDisposer = editor.addDomEventHandler('scroll', this.reflow);
+
+        let window = editor.getDocument().defaultView;
+        window.addEventListener('scroll', this.reflow, true /*useCapture*/);
+        window.addEventListener('resize', this.reflow);
+    }
+
+    /**
+     * Dispose this plugin
+     */
+    public dispose(): void {
+        let window = this.editor.getDocument().defaultView;
+        window.removeEventListener('scroll', this.reflow, true /*useCapture*/);
+        window.removeEventListener('resize', this.reflow);
+
+        this.scrollDisposer();
+        this.scrollDisposer = null;
+        this.cursors = [];
+        this.editor = null;
+    }
+
+    /**
+     * Handle plugin events
+     * @param event The event object
+     */
+    public onPluginEvent(event: PluginEvent): void {
+        if (event.eventType == PluginEventType.ContentChanged) {
+            this.reflow();
+        }
+    }
+
+    /**
+     * Get current selection of this editor, which can be sent to other users
+     * @returns The serialized selection range, or null if there is no selection
+     */
+    public getSelection(): SerializedRange {
+        let root = findContentRoot(this.editor);
+        let range = this.editor.getSelectionRange();
+        return root && range ? serializeRange(root, range) : null;
+    }
+
+    /**
+     * Add or update cursor of a remote user
+     * @param id Id of the remote user
+     * @param name Name of the remote user, will be shown in the label of caret
+     * @param color CSS color of caret and selection of the remote user
+     * @param range Selection range of the remote user
+     */
+    public setCursor(id: string, name: string, color: string, range: SerializedRange) {
+        let cursor = this.cursors.filter(c => c.id == id)[0];
+        if (cursor) {
+            cursor.name = name;
+            cursor.color = color;
+            cursor.range = range;
+        } else {
+            this.cursors.push({ id, name, color, range });
+        }
+        this.reflow();
+    }
+
+    /**
+     * Remove cursor of a remote user
+     * @param id Id of the remote user
+     */
+    public removeCursor(id: string) {
+        this.cursors = this.cursors.filter(c => c.id != id);
+        this.reflow();
+    }
+
+    private reflow = () => {
+        if (!this.editor || this.editor.isDisposed()) {
+            return;
+        }
+
+        let container = this.getContainer();
+        let root = findContentRoot(this.editor);
+        container.innerHTML = '';
+
+        if (!root) {
+            return;
+        }
+
+        let rootRect = (<HTMLElement>root).getBoundingClientRect();
+        let isVisible = (rect: Rect) =>
+            rect && rect.bottom >= rootRect.top && rect.top <= rootRect.bottom;
+
+        this.cursors.forEach(cursor => {
+            let range = deserializeRange(root, cursor.range);
+            if (!range) {
+                return;
+            }
+
+            if (!range.collapsed) {
+                let rects: ClientRect[] = [].slice.call(range.getClientRects());
+                rects.filter(isVisible).forEach(rect => {
+                    let highlight = this.createOverlay(container, cursor.color, rect);
+                    highlight.style.opacity = '0.3';
+                });
+            }
+
+            let caretRect = Position.getEnd(range).getRect();
+            if (isVisible(caretRect)) {
+                this.createOverlay(container, cursor.color, {
+                    top: caretRect.top,
+                    bottom: caretRect.bottom,
+                    left: caretRect.left,
+                    right: caretRect.left + CARET_WIDTH,
+                });
+
+                let label = this.editor.getDocument().createElement('div');
+                label.style.cssText = LABEL_STYLE;
+                label.style.backgroundColor = cursor.color;
+                label.style.top = caretRect.top - LABEL_HEIGHT + 'px';
+                label.style.left = caretRect.left + 'px';
+                label.textContent = cursor.name;
+                container.appendChild(label);
+            }
+        });
+    };
+
+    private createOverlay(container: HTMLElement, color: string, rect: Rect): HTMLElement {
+        let div = this.editor.getDocument().createElement('div');
+        div.style.position = 'fixed';
+        div.style.backgroundColor = color;
+        div.style.top = rect.top + 'px';
+        div.style.left = rect.left + 'px';
+        div.style.width = rect.right - rect.left + 'px';
+        div.style.height = rect.bottom - rect.top + 'px';
+        container.appendChild(div);
+        return div;
+    }
+
+    private getContainer(): HTMLElement {
+        return this.editor.getCustomData(
+            REMOTE_CURSOR_CONTAINER_KEY,
+            () => {
+                let container = fromHtml(CONTAINER_HTML, this.editor.getDocument())[0];
+                this.editor.insertNode(container, {
+                    position: ContentPosition.Outside,
+                    updateCursor: false,
+                    replaceSelection: false,
+                    insertOnNewLine: false,
+                });
+                return container as HTMLElement;
+            },
+            container => container.parentNode.removeChild(container)
+        );
+    }
+}
@@ -0,0 +1,64 @@
+import { createRange, Position } from 'roosterjs-editor-dom';
+import { getNodeAtPath, getPath } from '../Collaboration/blockPath';
+
+/**
+ * A serializable position inside editor content
+ */
+export interface SerializedPosition {
+    /** Child indexes from editor content DIV to the node of this position */
+    path: number[];
+
+    /** Offset of this position inside the node */
+    offset: number;
+}
+
+/**
+ * A serializable range inside editor content, which can be sent to other editors
+ */
+export default interface SerializedRange {
+    /** Start position of the range */
+    start: SerializedPosition;
+
+    /** End position of the range */
+    end: SerializedPosition;
+}
+
+/**
+ * Serialize the given range
+ * @param root Root node of editor content
+ * @param range The range to serialize
+ */
+export function serializeRange(root: Node, range: Range): SerializedRange {
+    return {
+        start: serializePosition(root, Position.getStart(range)),
+        end: serializePosition(root, Position.getEnd(range)),
+    };
+}
+
+/**
+ * Create a range from the given serialized range, or null if its nodes don't exist
+ * @param root Root node of editor content
+ * @param range The serialized range
+ */
+export function deserializeRange(root: Node, range: SerializedRange): Range {
+    let start = range && deserializePosition(root, range.start);
+    let end = range && deserializePosition(root, range.end);
+    return start && end ? createRange(start, end) : null;
+}
+
+function serializePosition(root: Node, position: Position): SerializedPosition {
+    return {
+        path: getPath(root, position.node),
+        offset: position.offset,
+    };
+}
+
+function deserializePosition(root: Node, position: SerializedPosition): Position {
+    let node = position && getNodeAtPath(root, position.path);
+    if (!node) {
+        return null;
+    }
+
+    // Negative offset values have special meanings in Position, so do not allow them here
+    return new Position(node, Math.max(position.offset, 0));
+}
@@ -0,0 +1,103 @@
+import SpellCheckProvider, { SpellCheckIssue } from './SpellCheckProvider';
+
+const WORD_REGEX = /[a-zA-Z\u00C0-\u024F]+(?:'[a-zA-Z\u00C0-\u024F]+)*/g;
+const MAX_EDIT_DISTANCE = 2;
+
+/**
+ * A local spell check provider which treats every word not in the given dictionary as misspelled,
+ * and suggests dictionary words with the smallest edit distance.
+ * Words are compared case insensitively
+ */
+export default class DictionarySpellCheckProvider implements SpellCheckProvider {
+    private words: { [word: string]: boolean } = {};
+
+    /**
+     * Create a new instance of DictionarySpellCheckProvider
+     * @param words Known words
+     * @param maxSuggestions Max count of suggestions of each issue. Default value is 5
+     */
+    constructor(words: string[], private maxSuggestions: number = 5) {
+        words.forEach(word => this.addWord(word));
+    }
+
+    /**
+     * Add a word into the dictionary
+     * @param word The word to add
+     */
+    public addWord(word: string) {
+        this.words[word.toLowerCase()] = true;
+    }
+
+    /**
+     * Check the given text and return words which are not in the dictionary
+     * @param blocks Text content of each block of editor
+     */
+    public checkText(blocks: string[]): Promise<SpellCheckIssue[]> {
+        let issues: SpellCheckIssue[] = [];
+
+        blocks.forEach((text, blockIndex) => {
+            WORD_REGEX.lastIndex = 0;
+            for (let match = WORD_REGEX.exec(text); match; match = WORD_REGEX.exec(text)) {
+                let word = match[0];
+                if (!this.words[word.toLowerCase()]) {
+                    issues.push({
+                        blockIndex,
+                        start: match.index,
+                        length: word.length,
+                        suggestions: this.getSuggestions(word),
+                    });
+                }
+            }
+        });
+
+        return Promise.resolve(issues);
+    }
+
+    private getSuggestions(word: string): string[] {
+        let lowerCaseWord = word.toLowerCase();
+        let isCapitalized = word.charAt(0) != lowerCaseWord.charAt(0);
+
+        return Object.keys(this.words)
+            .map(candidate => ({
+                candidate,
+                distance: getEditDistance(lowerCaseWord, candidate),
+            }))
+            .filter(item => item.distance <= MAX_EDIT_DISTANCE)
+            .sort(
+                (item1, item2) =>
+                    item1.distance - item2.distance || (item1.candidate < item2.candidate ? -1 : 1)
+            )
+            .slice(0, this.maxSuggestions)
+            .map(
+                item =>
+                    isCapitalized
+                        ? item.candidate.charAt(0).toUpperCase() + item.candidate.substr(1)
+                        : item.candidate
+            );
+    }
+}
+
+function getEditDistance(word1: string, word2: string): number {
+    if (Math.abs(word1.length - word2.length) > MAX_EDIT_DISTANCE) {
+        return MAX_EDIT_DISTANCE + 1;
+    }
+
+    let previousRow: number[] = [];
+    for (let j = 0; j <= word2.length; j++) {
+        previousRow[j] = j;
+    }
+
+    for (let i = 1; i <= word1.length; i++) {
+        let row = [i];
+        for (let j = 1; j <= word2.length; j++) {
+            row[j] = Math.min(
+                previousRow[j] + 1,
+                row[j - 1] + 1,
+                previousRow[j - 1] + (word1.charAt(i - 1) == word2.charAt(j - 1) ? 0 : 1)
+            );
+        }
+        previousRow = row;
+    }
+
+    return previousRow[word2.length];
+}
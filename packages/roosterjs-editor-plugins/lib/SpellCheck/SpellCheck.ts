@@ -0,0 +1,339 @@
+import SpellCheckProvider, { SpellCheckIssue } from './SpellCheckProvider';
+import {
+    BlockElement,
+    ContentPosition,
+    NodeType,
+    PluginEvent,
+    PluginEventType,
+    PositionType,
+} from 'roosterjs-editor-types';
+import { createRange, fromHtml } from 'roosterjs-editor-dom';
+import { Editor, EditorPlugin } from 'roosterjs-editor-core';
+import { findContentRoot, getTextNodes } from '../Collaboration/blockPath';
+
+/**
+ * Source of ContentChangedEvent triggered when a suggestion is applied
+ */
+export const SPELL_CHECK_CHANGE_SOURCE = 'SpellCheck';
+
+const SPELL_CHECK_CONTAINER_KEY = 'SPELL_CHECK_CONTAINER';
+const CONTAINER_HTML = '<div style="position: fixed; top: 0; left: 0; pointer-events: none"></div>';
+const SQUIGGLE_HEIGHT = 2;
+
+/**
+ * A spelling or grammar issue in editor content, found by SpellCheck plugin
+ */
+export interface SpellCheckMarker {
+    /** Range of the issue text. This is a live range which follows changes of content */
+    range: Range;
+
+    /** The issue text when it is found. The marker is dropped once its text is changed */
+    text: string;
+
+    /** Suggested replacements of the issue text */
+    suggestions: string[];
+
+    /** Whether this is a grammar issue */
+    isGrammar: boolean;
+
+    /** Message to explain this issue */
+    message: string;
+}
+
+/**
+ * An editor plugin to check spelling and grammar using a custom SpellCheckProvider instead of
+ * the browser's spell checker.
+ * Content is checked when editor is idle, and issues are marked with squiggles rendered in an overlay
+ * outside of editor content, so they don't change the content.
+ */
+export default class SpellCheck implements EditorPlugin {
+    private editor: Editor;
+    private root: HTMLElement;
+    private originalSpellCheck: string;
+    private markers: SpellCheckMarker[] = [];
+    private ignoredWords: string[] = [];
+    private version = 0;
+    private isChecking = false;
+    private scrollDisposer: () => void;
+    public name: 'SpellCheck';
+
+    /**
+     * Create a new instance of SpellCheck class
+     * @param provider The provider to check text
+     * @param spellingColor (Optional) Color of squiggles of spelling issues. Default value is red
+     * @param grammarColor (Optional) Color of squiggles of grammar issues. Default value is blue
+     */
+    constructor(
+        private provider: SpellCheckProvider,
+        private spellingColor: string = 'red',
+        private grammarColor: string = 'blue'
+    ) {}
+
+    /**
+     * Initialize this plugin
+     * @param editor The editor instance
+     */
+    public initialize(editor: Editor): void {
+        this.editor = editor;
+        this.scrollDisposer = editor.addDomEventHandler('scroll', this.reflow);
+
+        let window = editor.getDocument().defaultView;
+        window.addEventListener('scroll', this.reflow, true /*useCapture*/);
+        window.addEventListener('resize', this.reflow);
+    }
+
+    /**
+     * Dispose this plugin
+     */
+    public dispose(): void {
+        let window = this.editor.getDocument().defaultView;
+        window.removeEventListener('scroll', this.reflow, true /*useCapture*/);
+        window.removeEventListener('resize', this.reflow);
+
+        if (this.root) {
+            if (this.originalSpellCheck == null) {
+                this.root.removeAttribute('spellcheck');
+            } else {
+                this.root.setAttribute('spellcheck', this.originalSpellCheck);
+            }
+            this.root = null;
+        }
+
+        this.scrollDisposer();
+        this.scrollDisposer = null;
+        this.markers = [];
+        this.editor = null;
+    }
+
+    /**
+     * Handle plugin events
+     * @param event The event object
+     */
+    public onPluginEvent(event: PluginEvent): void {
+        switch (event.eventType) {
+            case PluginEventType.Idle:
+                this.checkOnIdle();
+                break;
+
+            case PluginEventType.KeyDown:
+            case PluginEventType.ContentChanged:
+                // Content may be changed, result of a pending check is out of date
+                this.version++;
+                this.reflow();
+                break;
+
+            case PluginEventType.KeyUp:
+                this.reflow();
+                break;
+        }
+    }
+
+    /**
+     * Check the whole content of editor now
+     * @returns A promise which is resolved when the check is done
+     */
+    public check(): Promise<void> {
+        if (!this.root) {
+            this.root = findContentRoot(this.editor) as HTMLElement;
+            if (this.root) {
+                this.originalSpellCheck = this.root.getAttribute('spellcheck');
+                this.root.setAttribute('spellcheck', 'false');
+            }
+        }
+
+        let version = this.version;
+        let blocks = this.getBlocks();
+        let texts = blocks.map(block => block.getTextContent());
+
+        return this.provider.checkText(texts).then(issues => {
+            if (this.editor && version == this.version) {
+                this.markers = issues
+                    .map(issue =>
+                        createMarker(blocks[issue.blockIndex], texts[issue.blockIndex], issue)
+                    )
+                    .filter(marker => marker && this.ignoredWords.indexOf(marker.text) < 0);
+                this.reflow();
+            }
+        });
+    }
+
+    /**
+     * Get all spelling and grammar issues found in editor
+     */
+    public getMarkers(): SpellCheckMarker[] {
+        this.removeInvalidMarkers();
+        return this.markers.slice(0);
+    }
+
+    /**
+     * Get the spelling or grammar issue at the given range
+     * @param range (Optional) The range to get issue from. Default value is current selection
+     * @returns The issue which contains the given range, or null if there isn't
+     */
+    public getMarkerAtRange(range?: Range): SpellCheckMarker {
+        range = range || this.editor.getSelectionRange();
+        return range
+            ? this.getMarkers().filter(
+                  marker =>
+                      marker.range.compareBoundaryPoints(Range.START_TO_START, range) <= 0 &&
+                      marker.range.compareBoundaryPoints(Range.END_TO_END, range) >= 0
+              )[0] || null
+            : null;
+    }
+
+    /**
+     * Replace text of an issue with the given suggestion. This can be undone
+     * @param marker The issue to replace
+     * @param suggestion The text to replace with
+     * @returns True if the text is replaced, or false if the issue is no longer valid
+     */
+    public replaceWithSuggestion(marker: SpellCheckMarker, suggestion: string): boolean {
+        if (this.getMarkers().indexOf(marker) < 0) {
+            return false;
+        }
+
+        this.editor.addUndoSnapshot(() => {
+            let node = this.editor.getDocument().createTextNode(suggestion);
+            marker.range.deleteContents();
+            marker.range.insertNode(node);
+            this.editor.select(node, PositionType.End);
+        }, SPELL_CHECK_CHANGE_SOURCE);
+
+        this.markers = this.markers.filter(m => m != marker);
+        this.reflow();
+        return true;
+    }
+
+    /**
+     * Ignore the text of an issue, all issues with the same text will be removed
+     * @param marker The issue to ignore
+     */
+    public ignore(marker: SpellCheckMarker) {
+        this.ignoredWords.push(marker.text);
+        this.markers = this.markers.filter(m => m.text != marker.text);
+        this.reflow();
+    }
+
+    private checkOnIdle() {
+        // Don't start another check while the previous one is not done yet
+        if (this.isChecking) {
+            return;
+        }
+
+        let onDone = () => {
+            this.isChecking = false;
+        };
+
+        this.isChecking = true;
+
+        try {
+            this.check()
+                .then(onDone)
+                .catch(onDone);
+        } catch (e) {
+            // Provider may throw before returning a promise, still need to check again next time
+            onDone();
+        }
+    }
+
+    private getBlocks(): BlockElement[] {
+        let blocks: BlockElement[] = [];
+        let traverser = this.editor.getBodyTraverser();
+        for (
+            let block = traverser.currentBlockElement;
+            block;
+            block = traverser.getNextBlockElement()
+        ) {
+            blocks.push(block);
+        }
+        return blocks;
+    }
+
+    private removeInvalidMarkers() {
+        this.markers = this.markers.filter(
+            marker =>
+                this.editor.contains(marker.range.commonAncestorContainer) &&
+                marker.range.toString() == marker.text
+        );
+    }
+
+    private reflow = () => {
+        if (!this.editor || this.editor.isDisposed()) {
+            return;
+        }
+
+        let container = this.getContainer();
+        container.innerHTML = '';
+        this.removeInvalidMarkers();
+
+        this.markers.forEach(marker => {
+            let rects: ClientRect[] = [].slice.call(marker.range.getClientRects());
+            rects.forEach(rect => {
+                let squiggle = this.editor.getDocument().createElement('div');
+                squiggle.style.position = 'fixed';
+                squiggle.style.borderBottom =
+                    SQUIGGLE_HEIGHT +
+                    'px dotted ' +
+                    (marker.isGrammar ? this.grammarColor : this.spellingColor);
+                squiggle.style.top = rect.bottom - SQUIGGLE_HEIGHT + 'px';
+                squiggle.style.left = rect.left + 'px';
+                squiggle.style.width = rect.right - rect.left + 'px';
+                container.appendChild(squiggle);
+            });
+        });
+    };
+
+    private getContainer(): HTMLElement {
+        return this.editor.getCustomData(
+            SPELL_CHECK_CONTAINER_KEY,
+            () => {
+                let container = fromHtml(CONTAINER_HTML, this.editor.getDocument())[0];
+                this.editor.insertNode(container, {
+                    position: ContentPosition.Outside,
+                    updateCursor: false,
+                    replaceSelection: false,
+                    insertOnNewLine: false,
+                });
+                return container as HTMLElement;
+            },
+            container => container.parentNode.removeChild(container)
+        );
+    }
+}
+
+function createMarker(block: BlockElement, text: string, issue: SpellCheckIssue): SpellCheckMarker {
+    let end = issue.start + issue.length;
+    if (!block || issue.start < 0 || issue.length <= 0 || end > text.length) {
+        return null;
+    }
+
+    // Map offsets of block text to text nodes of the block
+    let container = createRange(block.getStartNode(), block.getEndNode()).commonAncestorContainer;
+    let textNodes =
+        container.nodeType == NodeType.Text
+            ? [<Text>container]
+            : getTextNodes(container).filter(node => block.contains(node));
+    let range = block.getStartNode().ownerDocument.createRange();
+    let offset = 0;
+
+    textNodes.forEach(node => {
+        let length = node.nodeValue.length;
+        if (issue.start >= offset && issue.start < offset + length) {
+            range.setStart(node, issue.start - offset);
+        }
+        if (end > offset && end <= offset + length) {
+            range.setEnd(node, end - offset);
+        }
+        offset += length;
+    });
+
+    return range.toString() == text.substr(issue.start, issue.length)
+        ? {
+              range,
+              text: range.toString(),
+              suggestions: issue.suggestions || [],
+              isGrammar: !!issue.isGrammar,
+              message: issue.message || '',
+          }
+        : null;
+}
@@ -0,0 +1,36 @@
+/**
+ * A spelling or grammar issue found by SpellCheckProvider
+ */
+export interface SpellCheckIssue {
+    /** Index of the block text which this issue is found from */
+    blockIndex: number;
+
+    /** Start offset of the issue inside the block text */
+    start: number;
+
+    /** Length of the issue text */
+    length: number;
+
+    /** Suggested replacements of the issue text, the best one goes first */
+    suggestions: string[];
+
+    /** Whether this is a grammar issue. Spelling issue is assumed if not specified */
+    isGrammar?: boolean;
+
+    /** An optional message to explain this issue */
+    message?: string;
+}
+
+/**
+ * Provides spelling and grammar checking for SpellCheck plugin
+ */
+interface SpellCheckProvider {
+    /**
+     * Check the given text and return issues found from it
+     * @param blocks Text content of each block of editor
+     * @returns A promise of the issues. Offsets of each issue are relative to its block text
+     */
+    checkText(blocks: string[]): Promise<SpellCheckIssue[]>;
+}
+
+export default SpellCheckProvider;
@@ -0,0 +1,286 @@
+import { fromHtml, VTable } from 'roosterjs-editor-dom';
+import { Editor, EditorPlugin } from 'roosterjs-editor-core';
+import { Keys } from '../ContentEdit/ContentEditFeatures';
+import {
+    ContentPosition,
+    PluginEvent,
+    PluginEventType,
+    PositionType,
+    Rect,
+    TableOperation,
+} from 'roosterjs-editor-types';
+import {
+    editTable,
+    getNodeAtCursor,
+    getTableSelection,
+    setTableSelection,
+} from 'roosterjs-editor-api';
+
+const TABLE_CELL_SELECTION_HIGHLIGHT_KEY = 'TABLE_CELL_SELECTION_HIGHLIGHT';
+// KeyCodes of Shift, Ctrl, Alt and Meta keys, pressing them won't clear cell selection
+const MODIFIER_KEYS = [16, 17, 18, 91, 93];
+const HIGHLIGHT_HTML =
+    '<div style="position: fixed; pointer-events: none; display: none; opacity: 0.3"></div>';
+
+/**
+ * An editor plugin to select a rectangle range of table cells by mouse dragging or Shift + arrow keys.
+ * Selected cells are highlighted, and can be edited at once using editTable() and formatTable().
+ */
+export default class TableCellSelection implements EditorPlugin {
+    private editor: Editor;
+    private anchorTd: HTMLTableCellElement;
+    private scrollDisposer: () => void;
+    public name: 'TableCellSelection';
+
+    /**
+     * Create a new instance of TableCellSelection class
+     * @param highlightColor (Optional) Color of the highlight of selected cells. Default value is #0078D7
+     */
+    constructor(private highlightColor: string = '#0078D7') {}
+
+    /**
+     * Initialize this plugin
+     * @param editor The editor instance
+     */
+    public initialize(editor: Editor): void {
+        this.editor = editor;
+        this.scrollDisposer = editor.addDomEventHandler('scroll', this.showHighlight);
+        editor.getDocument().defaultView.addEventListener('scroll', this.showHighlight, true);
+    }
+
+    /**
+     * Dispose this plugin
+     */
+    public dispose(): void {
+        this.detachMouseEvents();
+        this.editor
+            .getDocument()
+            .defaultView.removeEventListener('scroll', this.showHighlight, true);
+        this.scrollDisposer();
+        this.scrollDisposer = null;
+        this.editor = null;
+    }
+
+    /**
+     * Handle plugin events
+     * @param event The event object
+     */
+    public onPluginEvent(event: PluginEvent): void {
+        switch (event.eventType) {
+            case PluginEventType.MouseDown:
+                let td = this.getTd(event.rawEvent.target);
+                let cursorTd = getNodeAtCursor(this.editor, ['TD', 'TH']) as HTMLTableCellElement;
+
+                if (
+                    event.rawEvent.shiftKey &&
+                    td &&
+                    cursorTd &&
+                    this.getTable(td) == this.getTable(cursorTd)
+                ) {
+                    this.anchorTd = cursorTd;
+                    this.extendSelection(td);
+                    event.rawEvent.preventDefault();
+                } else {
+                    setTableSelection(this.editor, null);
+                    this.anchorTd = td;
+                    if (td) {
+                        this.attachMouseEvents();
+                    }
+                    this.showHighlight();
+                }
+                break;
+
+            case PluginEventType.KeyDown:
+                let rawEvent = event.rawEvent;
+                if (rawEvent.shiftKey && this.isArrowKey(rawEvent.which)) {
+                    if (this.moveFocus(rawEvent.which)) {
+                        rawEvent.preventDefault();
+                    }
+                } else if (
+                    this.getSelectedTable() &&
+                    (rawEvent.which == Keys.DELETE || rawEvent.which == Keys.BACKSPACE)
+                ) {
+                    editTable(this.editor, TableOperation.ClearCells);
+                    rawEvent.preventDefault();
+                } else if (
+                    MODIFIER_KEYS.indexOf(rawEvent.which) < 0 &&
+                    !rawEvent.ctrlKey &&
+                    !rawEvent.metaKey
+                ) {
+                    setTableSelection(this.editor, null);
+                    this.showHighlight();
+                }
+                break;
+
+            case PluginEventType.ContentChanged:
+                this.showHighlight();
+                break;
+        }
+    }
+
+    private onMouseMove = (e: MouseEvent) => {
+        let td = this.getTd(e.target);
+        if (td && td != this.anchorTd && this.getTable(td) == this.getTable(this.anchorTd)) {
+            this.extendSelection(td);
+
+            // Keep the caret in the anchor cell so that browser won't select contents across cells
+            this.editor.select(this.anchorTd, PositionType.Begin);
+            e.preventDefault();
+        }
+    };
+
+    private onMouseUp = () => {
+        this.detachMouseEvents();
+    };
+
+    private extendSelection(focusTd: HTMLTableCellElement) {
+        let focus = new VTable(focusTd);
+        let selection = getTableSelection(this.editor, focus.table);
+
+        if (!selection) {
+            let anchor = new VTable(this.anchorTd);
+            selection = {
+                anchorRow: anchor.row,
+                anchorCol: anchor.col,
+                focusRow: 0,
+                focusCol: 0,
+            };
+        }
+
+        selection.focusRow = focus.row;
+        selection.focusCol = focus.col;
+        setTableSelection(this.editor, focus.table, selection);
+        this.showHighlight();
+    }
+
+    private moveFocus(key: number): boolean {
+        let td = getNodeAtCursor(this.editor, ['TD', 'TH']) as HTMLTableCellElement;
+        let vtable = td ? new VTable(td) : null;
+        let selection = vtable && getTableSelection(this.editor, vtable.table);
+
+        if (!selection) {
+            // Only start a cell selection when the text selection can't be extended inside the cell
+            if (!vtable || !this.isAtCellBoundary(td, key == Keys.LEFT || key == Keys.UP)) {
+                return false;
+            }
+
+            selection = {
+                anchorRow: vtable.row,
+                anchorCol: vtable.col,
+                focusRow: vtable.row,
+                focusCol: vtable.col,
+            };
+        }
+
+        let row = selection.focusRow + (key == Keys.UP ? -1 : key == Keys.DOWN ? 1 : 0);
+        let col = selection.focusCol + (key == Keys.LEFT ? -1 : key == Keys.RIGHT ? 1 : 0);
+
+        if (row >= 0 && row < vtable.cells.length && col >= 0 && col < vtable.cells[row].length) {
+            selection.focusRow = row;
+            selection.focusCol = col;
+            setTableSelection(this.editor, vtable.table, selection);
+            this.showHighlight();
+        }
+
+        return true;
+    }
+
+    private showHighlight = () => {
+        let highlight = this.getHighlight();
+        let table = this.getSelectedTable();
+        let rect: Rect = null;
+
+        if (table) {
+            let vtable = new VTable(table);
+            vtable.selection = getTableSelection(this.editor, table);
+            vtable.forEachSelectedCell(cell => {
+                if (cell.td) {
+                    let cellRect = cell.td.getBoundingClientRect();
+                    rect = {
+                        top: rect ? Math.min(rect.top, cellRect.top) : cellRect.top,
+                        bottom: rect ? Math.max(rect.bottom, cellRect.bottom) : cellRect.bottom,
+                        left: rect ? Math.min(rect.left, cellRect.left) : cellRect.left,
+                        right: rect ? Math.max(rect.right, cellRect.right) : cellRect.right,
+                    };
+                }
+            });
+        }
+
+        if (rect) {
+            highlight.style.display = '';
+            highlight.style.backgroundColor = this.highlightColor;
+            highlight.style.top = rect.top + 'px';
+            highlight.style.left = rect.left + 'px';
+            highlight.style.width = rect.right - rect.left + 'px';
+            highlight.style.height = rect.bottom - rect.top + 'px';
+        } else {
+            highlight.style.display = 'none';
+        }
+    };
+
+    private getSelectedTable(): HTMLTableElement {
+        let table = this.getTable(getNodeAtCursor(this.editor, ['TD', 'TH']));
+        return getTableSelection(this.editor, table) ? table : null;
+    }
+
+    private getTable(td: Node): HTMLTableElement {
+        return td ? (getNodeAtCursor(this.editor, 'TABLE', td) as HTMLTableElement) : null;
+    }
+
+    private getTd(target: EventTarget): HTMLTableCellElement {
+        return target instanceof Node
+            ? (getNodeAtCursor(this.editor, ['TD', 'TH'], target) as HTMLTableCellElement)
+            : null;
+    }
+
+    private isArrowKey(key: number): boolean {
+        return key == Keys.LEFT || key == Keys.UP || key == Keys.RIGHT || key == Keys.DOWN;
+    }
+
+    private isAtCellBoundary(td: HTMLTableCellElement, isStart: boolean): boolean {
+        let range = this.editor.getSelectionRange();
+        if (!range) {
+            return false;
+        }
+
+        let cellRange = this.editor.getDocument().createRange();
+        cellRange.selectNodeContents(td);
+        if (isStart) {
+            cellRange.setEnd(range.startContainer, range.startOffset);
+        } else {
+            cellRange.setStart(range.endContainer, range.endOffset);
+        }
+        return cellRange.toString() == '';
+    }
+
+    private getHighlight(): HTMLElement {
+        return this.editor.getCustomData(
+            TABLE_CELL_SELECTION_HIGHLIGHT_KEY,
+            () => {
+                let highlight = fromHtml(HIGHLIGHT_HTML, this.editor.getDocument())[0];
+                this.editor.insertNode(highlight, {
+                    position: ContentPosition.Outside,
+                    updateCursor: false,
+                    replaceSelection: false,
+                    insertOnNewLine: false,
+                });
+                return highlight as HTMLElement;
+            },
+            highlight => highlight.parentNode.removeChild(highlight)
+        );
+    }
+
+    private attachMouseEvents() {
+        let document = this.editor.getDocument();
+        document.addEventListener('mousemove', this.onMouseMove, true);
+        document.addEventListener('mouseup', this.onMouseUp, true);
+    }
+
+    private detachMouseEvents() {
+        if (this.editor && !this.editor.isDisposed()) {
+            let document = this.editor.getDocument();
+            document.removeEventListener('mousemove', this.onMouseMove, true);
+            document.removeEventListener('mouseup', this.onMouseUp, true);
+        }
+    }
+}
@@ -2,9 +2,47 @@ export { default as DefaultShortcut } from './DefaultShortcut/DefaultShortcut';
 export { default as HyperLink } from './HyperLink/HyperLink';
 export { default as ContentEdit } from './ContentEdit/ContentEdit';
 export { default as Paste } from './Paste/Paste';
+export { default as Drop } from './Drop/Drop';
+export { default as Copy } from './Copy/Copy';
+export {
+    default as PasteOptions,
+    PasteOptionChoice,
+    getDefaultPasteOptionChoices,
+} from './PasteOptions/PasteOptions';
 export {
     default as ContentEditFeatures,
     getDefaultContentEditFeatures,
 } from './ContentEdit/ContentEditFeatures';
+export {
+    default as ShortcutRegistry,
+    ShortcutAction,
+    ShortcutBinding,
+    ShortcutMatch,
+} from './ContentEdit/ShortcutRegistry';
 export { default as Watermark } from './Watermark/Watermark';
 export { default as TableResize } from './TableResize/TableResize';
+export { default as TableCellSelection } from './TableCellSelection/TableCellSelection';
+export {
+    default as Collaboration,
+    COLLABORATION_CHANGE_SOURCE,
+} from './Collaboration/Collaboration';
+export { default as CollaborationOperation } from './Collaboration/CollaborationOperation';
+export {
+    default as CollaborationTransport,
+    createInMemoryTransports,
+} from './Collaboration/CollaborationTransport';
+export { BlockAnchor } from './Collaboration/blockPath';
+export { default as RemoteCursor } from './RemoteCursor/RemoteCursor';
+export {
+    default as SerializedRange,
+    SerializedPosition,
+    serializeRange,
+    deserializeRange,
+} from './RemoteCursor/SerializedRange';
+export {
+    default as SpellCheck,
+    SpellCheckMarker,
+    SPELL_CHECK_CHANGE_SOURCE,
+} from './SpellCheck/SpellCheck';
+export { default as SpellCheckProvider, SpellCheckIssue } from './SpellCheck/SpellCheckProvider';
+export { default as DictionarySpellCheckProvider } from './SpellCheck/DictionarySpellCheckProvider';
@@ -0,0 +1,131 @@
+import * as TestHelper from 'roosterjs-editor-api/lib/test/TestHelper';
+import Collaboration from '../../Collaboration/Collaboration';
+import CollaborationOperation from '../../Collaboration/CollaborationOperation';
+import CollaborationTransport, {
+    createInMemoryTransports,
+} from '../../Collaboration/CollaborationTransport';
+import { Editor } from 'roosterjs-editor-core';
+
+describe('Collaboration', () => {
+    let editor1: Editor;
+    let editor2: Editor;
+    let plugin1: Collaboration;
+    let sentOperations: CollaborationOperation[][];
+    let attacker: CollaborationTransport;
+
+    beforeEach(() => {
+        let transports = createInMemoryTransports(3);
+        attacker = transports[2];
+        sentOperations = [];
+        transports[1].onReceive(operations => sentOperations.push(operations));
+        plugin1 = new Collaboration(transports[0]);
+        editor1 = TestHelper.initEditor('collaboration1', [plugin1]);
+        editor2 = TestHelper.initEditor('collaboration2', [new Collaboration(transports[1])]);
+        editor1.setContent('<div>hello</div><div>world</div>');
+        plugin1.syncContent();
+        sentOperations = [];
+    });
+
+    afterEach(() => {
+        editor1.dispose();
+        editor2.dispose();
+        TestHelper.removeElement('collaboration1');
+        TestHelper.removeElement('collaboration2');
+    });
+
+    it('syncs whole content', () => {
+        expect(editor2.getContent()).toBe('<div>hello</div><div>world</div>');
+    });
+
+    it('sends text changes as insert and delete operations', () => {
+        let text = editor1.getDocument().querySelector('#collaboration1 div').firstChild as Text;
+        text.replaceData(1, 3, 'ipp');
+        editor1.triggerContentChangedEvent();
+
+        expect(sentOperations).toEqual([
+            [
+                { type: 'delete', path: [0], offset: 1, length: 3 },
+                { type: 'insert', path: [0], offset: 1, text: 'ipp' },
+            ],
+        ]);
+        expect(editor2.getContent()).toBe('<div>hippo</div><div>world</div>');
+    });
+
+    it('sends structure changes as format operations', () => {
+        let div = editor1.getDocument().querySelector('#collaboration1 div');
+        div.innerHTML = '<b>hello</b>';
+        editor1.triggerContentChangedEvent();
+
+        expect(sentOperations).toEqual([
+            [{ type: 'format', index: 0, removeCount: 1, html: '<div><b>hello</b></div>' }],
+        ]);
+        expect(editor2.getContent()).toBe('<div><b>hello</b></div><div>world</div>');
+    });
+
+    it('keeps local selection when applying remote operations', () => {
+        let text = editor2.getDocument().querySelector('#collaboration2 div').nextSibling
+            .firstChild as Text;
+        editor2.focus();
+        editor2.select(text, 2);
+
+        let first = editor1.getDocument().querySelector('#collaboration1 div');
+        first.parentNode.insertBefore(editor1.getDocument().createElement('hr'), first);
+        (first.nextSibling.firstChild as Text).insertData(0, 'new ');
+        editor1.triggerContentChangedEvent();
+
+        expect(editor2.getContent()).toBe('<hr><div>hello</div><div>new world</div>');
+        let range = editor2.getSelectionRange();
+        expect(range.startContainer.nodeValue).toBe('new world');
+        expect(range.startOffset).toBe(6);
+    });
+
+    it('does not revert remote operations when undo', () => {
+        editor2.addUndoSnapshot(() => {
+            let text = editor2.getDocument().querySelector('#collaboration2 div')
+                .firstChild as Text;
+            text.appendData('!');
+        });
+
+        let text = editor1.getDocument().querySelector('#collaboration1 div').nextSibling
+            .firstChild as Text;
+        text.appendData('s');
+        editor1.triggerContentChangedEvent();
+        expect(editor2.getContent()).toBe('<div>hello!</div><div>worlds</div>');
+
+        sentOperations = [];
+        editor2.undo();
+
+        expect(editor2.getContent()).toBe('<div>hello</div><div>worlds</div>');
+        expect(editor1.getContent()).toBe('<div>hello</div><div>worlds</div>');
+    });
+
+    it('sanitizes HTML of remote format operations', () => {
+        let hostileHtml =
+            '<div onclick="alert(1)">a<img src="x" onerror="alert(1)"></div>' +
+            '<script>alert(1)</script><div><a href="javascript:alert(1)">b</a></div>';
+
+        attacker.send([{ type: 'format', index: 0, removeCount: 1, html: hostileHtml }]);
+
+        let content = editor1.getContent();
+        expect(content).toBe('<div>a<img src="x"></div><div><a>b</a></div><div>world</div>');
+        expect(editor1.queryElements('script').length).toBe(0);
+    });
+
+    it('sanitizes HTML of remote format operations for empty editor', () => {
+        let transports = createInMemoryTransports();
+        let editor3 = TestHelper.initEditor('collaboration3', [new Collaboration(transports[1])]);
+
+        transports[0].send([
+            {
+                type: 'format',
+                index: 0,
+                removeCount: -1,
+                html: '<div onmouseover="alert(1)">hello</div><iframe src="x"></iframe>',
+            },
+        ]);
+
+        expect(editor3.getContent()).toBe('<div>hello</div>');
+        editor3.dispose();
+        TestHelper.removeElement('collaboration3');
+    });
+});
@@ -0,0 +1,48 @@
+import ShortcutRegistry from '../../ContentEdit/ShortcutRegistry';
+
+describe('ShortcutRegistry', () => {
+    it('maps Mod to Ctrl on Windows and Cmd on Mac', () => {
+        let win = new ShortcutRegistry(true /*includeDefaults*/, false /*isMac*/);
+        let mac = new ShortcutRegistry(true /*includeDefaults*/, true /*isMac*/);
+
+        expect(win.getShortcutText('bold')).toBe('Ctrl+B');
+        expect(mac.getShortcutText('bold')).toBe('Cmd+B');
+        expect(win.getShortcutText('redo')).toBe('Ctrl+Y');
+        expect(mac.getShortcutText('redo')).toBe('Shift+Cmd+Z');
+        expect(win.match([win.parseChord('Ctrl+B')]).binding.command).toBe('bold');
+        expect(mac.match([mac.parseChord('Ctrl+B')])).toBeNull();
+    });
+
+    it('overrides and removes default bindings', () => {
+        let registry = new ShortcutRegistry(true /*includeDefaults*/, false /*isMac*/);
+        registry.setKeys('bold', ['Ctrl+Alt+B']);
+        registry.remove('italic');
+
+        expect(registry.match([registry.parseChord('Ctrl+B')])).toBeNull();
+        expect(registry.match([registry.parseChord('Ctrl+I')])).toBeNull();
+        expect(registry.match([registry.parseChord('Ctrl+Alt+B')]).binding.command).toBe('bold');
+        expect(registry.getBinding('italic')).toBeNull();
+        expect(registry.getShortcutText('bold')).toBe('Ctrl+Alt+B');
+    });
+
+    it('matches multi-key sequences', () => {
+        let registry = new ShortcutRegistry(false /*includeDefaults*/, false /*isMac*/);
+        let action = () => {};
+        registry.bind('comment', 'Mod+K Mod+C', action, 'Add comment');
+
+        let first = registry.parseChord('Ctrl+K');
+        let second = registry.parseChord('Ctrl+C');
+
+        expect(registry.match([first])).toEqual({ binding: null, isPrefix: true });
+        expect(registry.match([first, second]).binding.action).toBe(action);
+        expect(registry.match([second])).toBeNull();
+        expect(registry.getShortcutText('comment')).toBe('Ctrl+K Ctrl+C');
+        expect(registry.getBindings().length).toBe(1);
+    });
+
+    it('throws on invalid keys', () => {
+        let registry = new ShortcutRegistry(false /*includeDefaults*/, false /*isMac*/);
+        expect(() => registry.bind('test', 'Ctrl+Shift', () => {})).toThrow();
+        expect(registry.getBindings().length).toBe(0);
+    });
+});
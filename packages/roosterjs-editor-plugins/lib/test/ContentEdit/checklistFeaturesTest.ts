@@ -0,0 +1,173 @@
+import * as TestHelper from 'roosterjs-editor-api/lib/test/TestHelper';
+import { Editor } from 'roosterjs-editor-core';
+import { Keys } from '../../ContentEdit/ContentEditFeatures';
+import { PluginEventType, PluginKeyboardEvent } from 'roosterjs-editor-types';
+import {
+    AutoChecklist,
+    OutdentChecklistWhenBackOnEmptyLine,
+    ToggleCheckedWhenClick,
+    UncheckNewItemWhenEnter,
+} from '../../ContentEdit/features/checklistFeatures';
+
+describe('checklistFeatures', () => {
+    let testID = 'checklistFeatures';
+    let editor: Editor;
+    let asyncCallback: () => void;
+
+    beforeEach(() => {
+        editor = TestHelper.initEditor(testID);
+        asyncCallback = null;
+        spyOn(editor, 'runAsync').and.callFake((callback: () => void) => {
+            asyncCallback = callback;
+        });
+    });
+
+    afterEach(() => {
+        editor.dispose();
+        TestHelper.removeElement(testID);
+    });
+
+    function createEvent(which: number, shiftKey?: boolean): PluginKeyboardEvent {
+        let rawEvent = new KeyboardEvent('keydown', { shiftKey: !!shiftKey, cancelable: true });
+        Object.defineProperty(rawEvent, 'which', { value: which });
+        return { eventType: PluginEventType.KeyDown, rawEvent };
+    }
+
+    // Put cursor at the end of the element with id "target"
+    function setContent(html: string) {
+        editor.setContent(html);
+        editor.focus();
+        let target = document.getElementById('target');
+        let node =
+            target.lastChild && target.lastChild.nodeType == Node.TEXT_NODE
+                ? target.lastChild
+                : target;
+        editor.select(node, node == target ? 0 : node.nodeValue.length);
+    }
+
+    function clickAt(li: HTMLElement, clientX: number) {
+        let event = new MouseEvent('mousedown', { clientX, bubbles: true, cancelable: true });
+        li.dispatchEvent(event);
+        return event;
+    }
+
+    it('AutoChecklist creates checklist by [ ] and [x]', () => {
+        setContent('<div id="target">[ ]</div>');
+        let event = createEvent(Keys.SPACE);
+        expect(AutoChecklist.shouldHandleEvent(event, editor)).toBe(true);
+
+        AutoChecklist.handleEvent(event, editor);
+        (<Text>document.getElementById('target').firstChild).appendData(' ');
+        editor.select(document.getElementById('target').firstChild, 4);
+        asyncCallback();
+
+        let li = editor.queryElements('ul[data-checklist] li')[0];
+        expect(li.getAttribute('data-checked')).toBe('false');
+        expect(li.textContent.trim()).toBe('');
+
+        setContent('<div id="target">[x]</div>');
+        event = createEvent(Keys.SPACE);
+        expect(AutoChecklist.shouldHandleEvent(event, editor)).toBe(true);
+
+        AutoChecklist.handleEvent(event, editor);
+        (<Text>document.getElementById('target').firstChild).appendData(' ');
+        editor.select(document.getElementById('target').firstChild, 4);
+        asyncCallback();
+
+        expect(editor.queryElements('ul[data-checklist] li')[0].getAttribute('data-checked')).toBe(
+            'true'
+        );
+    });
+
+    it('AutoChecklist does not handle marker inside list or after other text', () => {
+        setContent('<ul><li id="target">[ ]</li></ul>');
+        expect(AutoChecklist.shouldHandleEvent(createEvent(Keys.SPACE), editor)).toBe(false);
+        setContent('<div id="target">a [ ]</div>');
+        expect(AutoChecklist.shouldHandleEvent(createEvent(Keys.SPACE), editor)).toBe(false);
+    });
+
+    it('UncheckNewItemWhenEnter unchecks the new item created by Enter', () => {
+        setContent('<ul data-checklist="true"><li data-checked="true" id="target">a</li></ul>');
+        let event = createEvent(Keys.ENTER);
+        expect(UncheckNewItemWhenEnter.shouldHandleEvent(event, editor)).toBe(true);
+        UncheckNewItemWhenEnter.handleEvent(event, editor);
+
+        // Browser creates the new item with the same attributes
+        let li = document.getElementById('target');
+        let newLi = <HTMLElement>li.cloneNode(false);
+        newLi.id = 'newItem';
+        newLi.appendChild(document.createElement('br'));
+        li.parentNode.appendChild(newLi);
+        editor.select(newLi, 0);
+        asyncCallback();
+
+        expect(li.getAttribute('data-checked')).toBe('true');
+        expect(newLi.getAttribute('data-checked')).toBe('false');
+    });
+
+    it('UncheckNewItemWhenEnter does not handle Shift+Enter, empty item or normal list', () => {
+        setContent('<ul data-checklist="true"><li data-checked="true" id="target">a</li></ul>');
+        expect(
+            UncheckNewItemWhenEnter.shouldHandleEvent(createEvent(Keys.ENTER, true), editor)
+        ).toBeFalsy();
+        setContent('<ul data-checklist="true"><li data-checked="true" id="target"><br></li></ul>');
+        expect(
+            UncheckNewItemWhenEnter.shouldHandleEvent(createEvent(Keys.ENTER), editor)
+        ).toBeFalsy();
+        setContent('<ul><li id="target">a</li></ul>');
+        expect(
+            UncheckNewItemWhenEnter.shouldHandleEvent(createEvent(Keys.ENTER), editor)
+        ).toBeFalsy();
+    });
+
+    it('OutdentChecklistWhenBackOnEmptyLine outdents empty item on Backspace', () => {
+        setContent('<ul data-checklist="true"><li data-checked="false" id="target"><br></li></ul>');
+        let event = createEvent(Keys.BACKSPACE);
+        expect(OutdentChecklistWhenBackOnEmptyLine.shouldHandleEvent(event, editor)).toBe(true);
+
+        OutdentChecklistWhenBackOnEmptyLine.handleEvent(event, editor);
+        expect(event.rawEvent.defaultPrevented).toBe(true);
+        expect(editor.queryElements('li').length).toBe(0);
+    });
+
+    it('OutdentChecklistWhenBackOnEmptyLine does not handle item with content', () => {
+        setContent('<ul data-checklist="true"><li data-checked="false" id="target">a</li></ul>');
+        expect(
+            OutdentChecklistWhenBackOnEmptyLine.shouldHandleEvent(
+                createEvent(Keys.BACKSPACE),
+                editor
+            )
+        ).toBeFalsy();
+    });
+
+    it('ToggleCheckedWhenClick toggles item when clicking on the checkbox', () => {
+        ToggleCheckedWhenClick.initialize(editor);
+        setContent('<ul data-checklist="true"><li data-checked="false" id="target">a</li></ul>');
+        let li = document.getElementById('target');
+        let rect = li.getBoundingClientRect();
+
+        expect(clickAt(li, rect.left + 5).defaultPrevented).toBe(false);
+        expect(li.getAttribute('data-checked')).toBe('false');
+
+        expect(clickAt(li, rect.left - 5).defaultPrevented).toBe(true);
+        expect(li.getAttribute('data-checked')).toBe('true');
+
+        editor.undo();
+        expect(document.getElementById('target').getAttribute('data-checked')).toBe('false');
+    });
+
+    it('ToggleCheckedWhenClick finds checkbox at the right side for RTL', () => {
+        ToggleCheckedWhenClick.initialize(editor);
+        setContent(
+            '<ul data-checklist="true" dir="rtl"><li data-checked="false" id="target">a</li></ul>'
+        );
+        let li = document.getElementById('target');
+        let rect = li.getBoundingClientRect();
+
+        clickAt(li, rect.left - 5);
+        expect(li.getAttribute('data-checked')).toBe('false');
+
+        clickAt(li, rect.right + 5);
+        expect(li.getAttribute('data-checked')).toBe('true');
+    });
+});
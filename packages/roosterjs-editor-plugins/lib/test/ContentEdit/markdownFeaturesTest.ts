@@ -0,0 +1,166 @@
+import * as TestHelper from 'roosterjs-editor-api/lib/test/TestHelper';
+import { ContentEditFeature, Keys } from '../../ContentEdit/ContentEditFeatures';
+import { Editor } from 'roosterjs-editor-core';
+import { PluginEventType, PluginKeyboardEvent } from 'roosterjs-editor-types';
+import {
+    AutoBlockQuote,
+    AutoBold,
+    AutoCodeBlock,
+    AutoHeader,
+    AutoHorizontalRule,
+    AutoInlineCode,
+    AutoItalic,
+    AutoStrikethrough,
+} from '../../ContentEdit/features/markdownFeatures';
+
+describe('markdownFeatures', () => {
+    let testID = 'markdownFeatures';
+    let editor: Editor;
+    let asyncCallback: () => void;
+
+    beforeEach(() => {
+        editor = TestHelper.initEditor(testID);
+        asyncCallback = null;
+        spyOn(editor, 'runAsync').and.callFake((callback: () => void) => {
+            asyncCallback = callback;
+        });
+    });
+
+    afterEach(() => {
+        editor.dispose();
+        TestHelper.removeElement(testID);
+    });
+
+    function createEvent(which: number, shiftKey?: boolean): PluginKeyboardEvent {
+        let rawEvent = new KeyboardEvent('keydown', { shiftKey: !!shiftKey, cancelable: true });
+        Object.defineProperty(rawEvent, 'which', { value: which });
+        return { eventType: PluginEventType.KeyDown, rawEvent };
+    }
+
+    // Put cursor at the end of text of the element with id "text"
+    function setContent(html: string) {
+        editor.setContent(html);
+        editor.focus();
+        let text = document.getElementById('text').firstChild;
+        editor.select(text, text.nodeValue.length);
+    }
+
+    // Returns true if the feature handles the event
+    function typeSpace(feature: ContentEditFeature): boolean {
+        let event = createEvent(Keys.SPACE);
+        if (!feature.shouldHandleEvent(event, editor)) {
+            return false;
+        }
+
+        feature.handleEvent(event, editor);
+
+        // Features run after browser types the space
+        let range = editor.getSelectionRange();
+        (<Text>range.startContainer).insertData(range.startOffset, ' ');
+        editor.select(range.startContainer, range.startOffset + 1);
+        asyncCallback();
+        return true;
+    }
+
+    it('AutoHeader formats header by leading #', () => {
+        setContent('<div id="text">##</div>');
+        expect(typeSpace(AutoHeader)).toBe(true);
+        expect(editor.queryElements('h2').length).toBe(1);
+        expect(document.getElementById(testID).textContent.trim()).toBe('');
+    });
+
+    it('AutoBlockQuote formats quote by leading >', () => {
+        setContent('<div id="text">&gt;</div>');
+        expect(typeSpace(AutoBlockQuote)).toBe(true);
+        expect(editor.queryElements('blockquote').length).toBe(1);
+        expect(document.getElementById(testID).textContent.trim()).toBe('');
+    });
+
+    it('AutoCodeBlock formats code block by leading ```', () => {
+        setContent('<div id="text">```</div>');
+        expect(typeSpace(AutoCodeBlock)).toBe(true);
+        expect(editor.queryElements('pre').length).toBe(1);
+        expect(document.getElementById(testID).textContent.trim()).toBe('');
+    });
+
+    it('does not format block when marker is not at the beginning of line', () => {
+        setContent('<div id="text">a ##</div>');
+        expect(typeSpace(AutoHeader)).toBe(false);
+        setContent('<div id="text">a &gt;</div>');
+        expect(typeSpace(AutoBlockQuote)).toBe(false);
+        setContent('<div id="text">#######</div>');
+        expect(typeSpace(AutoHeader)).toBe(false);
+    });
+
+    it('does not format block inside list or code', () => {
+        setContent('<ul><li id="text">#</li></ul>');
+        expect(typeSpace(AutoHeader)).toBe(false);
+        setContent('<pre><code id="text">```</code></pre>');
+        expect(typeSpace(AutoCodeBlock)).toBe(false);
+    });
+
+    it('AutoHorizontalRule inserts horizontal rule on Enter after ---', () => {
+        setContent('<div id="text">---</div>');
+        let event = createEvent(Keys.ENTER);
+        expect(AutoHorizontalRule.shouldHandleEvent(event, editor)).toBe(true);
+
+        AutoHorizontalRule.handleEvent(event, editor);
+        expect(event.rawEvent.defaultPrevented).toBe(true);
+        expect(editor.queryElements('hr').length).toBe(1);
+        expect(document.getElementById(testID).textContent.trim()).toBe('');
+    });
+
+    it('AutoHorizontalRule does not handle Shift+Enter', () => {
+        setContent('<div id="text">---</div>');
+        expect(AutoHorizontalRule.shouldHandleEvent(createEvent(Keys.ENTER, true), editor)).toBe(
+            false
+        );
+    });
+
+    it('formats inline text by markers and keeps the space after it', () => {
+        setContent('<div id="text">a **b**</div>');
+        expect(typeSpace(AutoBold)).toBe(true);
+        expect(editor.queryElements('b')[0].textContent).toBe('b');
+        expect(document.getElementById('text').textContent).toBe('a b ');
+
+        setContent('<div id="text">a _b c_</div>');
+        expect(typeSpace(AutoItalic)).toBe(true);
+        expect(editor.queryElements('i')[0].textContent).toBe('b c');
+
+        setContent('<div id="text">*b*</div>');
+        expect(typeSpace(AutoItalic)).toBe(true);
+        expect(editor.queryElements('i')[0].textContent).toBe('b');
+
+        setContent('<div id="text">a ~~b~~</div>');
+        expect(typeSpace(AutoStrikethrough)).toBe(true);
+        expect(editor.queryElements('strike')[0].textContent).toBe('b');
+
+        setContent('<div id="text">a `b`</div>');
+        expect(typeSpace(AutoInlineCode)).toBe(true);
+        expect(editor.queryElements('code')[0].textContent).toBe('b');
+    });
+
+    it('does not format inline text inside a word', () => {
+        setContent('<div id="text">snake_case_</div>');
+        expect(typeSpace(AutoItalic)).toBe(false);
+    });
+
+    it('does not format inline text starting or ending with space', () => {
+        setContent('<div id="text">a * b *</div>');
+        expect(typeSpace(AutoItalic)).toBe(false);
+        setContent('<div id="text">a ** b**</div>');
+        expect(typeSpace(AutoBold)).toBe(false);
+    });
+
+    it('does not format bold markers as italic', () => {
+        setContent('<div id="text">a **b**</div>');
+        expect(typeSpace(AutoItalic)).toBe(false);
+    });
+
+    it('does not format inline text inside code', () => {
+        setContent('<div><code id="text">a **b**</code></div>');
+        expect(typeSpace(AutoBold)).toBe(false);
+        setContent('<pre id="text">a `b`</pre>');
+        expect(typeSpace(AutoInlineCode)).toBe(false);
+    });
+});
@@ -0,0 +1,78 @@
+import * as TestHelper from 'roosterjs-editor-api/lib/test/TestHelper';
+import Copy from '../../Copy/Copy';
+import { ChangeSource, PluginEvent, PluginEventType } from 'roosterjs-editor-types';
+import { Editor, EditorPlugin } from 'roosterjs-editor-core';
+
+describe('Copy', () => {
+    let testID = 'copy';
+    let editor: Editor;
+    let changeSources: string[];
+
+    beforeEach(() => {
+        let listener: EditorPlugin = {
+            initialize: () => {},
+            dispose: () => {},
+            onPluginEvent: (event: PluginEvent) => {
+                if (event.eventType == PluginEventType.ExtractContent) {
+                    event.content = event.content.replace(/ title="temp"/g, '');
+                } else if (event.eventType == PluginEventType.ContentChanged) {
+                    changeSources.push(event.source);
+                }
+            },
+        };
+
+        changeSources = [];
+        editor = TestHelper.initEditor(testID, [new Copy(), listener]);
+        editor.setContent(
+            '<ul><li id="li1"><a href="http://a.com" title="temp">link</a> text</li></ul><div id="div1">other</div>'
+        );
+        let li = document.getElementById('li1');
+        editor.select(li.firstChild.firstChild, 0, li.lastChild, 5);
+        changeSources = [];
+    });
+
+    afterEach(() => {
+        editor.dispose();
+        TestHelper.removeElement(testID);
+    });
+
+    function fireEvent(type: string): [ClipboardEvent, DataTransfer] {
+        let clipboardData = new DataTransfer();
+        let init = { clipboardData, bubbles: true, cancelable: true };
+        let event = new ClipboardEvent(type, init);
+        document.getElementById('li1').dispatchEvent(event);
+        return [event, clipboardData];
+    }
+
+    it('writes clean HTML and structured text to clipboard', () => {
+        let [event, clipboardData] = fireEvent('copy');
+        let html = clipboardData.getData('text/html');
+
+        expect(event.defaultPrevented).toBe(true);
+        expect(html).toContain('<ul>');
+        expect(html).toContain('href="http://a.com"');
+        expect(html).not.toContain('temp');
+        expect(html).not.toContain('other');
+        expect(clipboardData.getData('text/plain')).toBe('- link text');
+        expect(editor.getContent()).toContain('link');
+    });
+
+    it('removes selected content when cut and it can be undone', () => {
+        let [event, clipboardData] = fireEvent('cut');
+
+        expect(event.defaultPrevented).toBe(true);
+        expect(clipboardData.getData('text/plain')).toBe('- link text');
+        expect(editor.getContent()).not.toContain('link');
+        expect(changeSources).toEqual([ChangeSource.Cut]);
+
+        editor.undo();
+        expect(document.getElementById('li1').textContent).toBe('link text');
+    });
+
+    it('does not handle collapsed selection', () => {
+        editor.select(document.getElementById('div1').firstChild, 1);
+        let [event] = fireEvent('copy');
+
+        expect(event.defaultPrevented).toBe(false);
+    });
+});
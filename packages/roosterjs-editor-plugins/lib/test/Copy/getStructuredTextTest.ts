@@ -0,0 +1,32 @@
+import getStructuredText from '../../Copy/getStructuredText';
+
+describe('getStructuredText()', () => {
+    function runTest(html: string, expected: string) {
+        let div = document.createElement('div');
+        div.innerHTML = html;
+        expect(getStructuredText(div)).toBe(expected);
+    }
+
+    it('converts blocks and line breaks into lines', () => {
+        runTest('<div>a <b>b</b></div><p>\n  c\n</p>d<br>e', 'a b\nc\nd\ne');
+        runTest('<div>a</div><div><br></div><div>b</div>', 'a\n\nb');
+    });
+
+    it('adds list markers and indentation', () => {
+        runTest(
+            '<ol start="3"><li>a</li><li>b<ul><li>c</li><li>d</li></ul></li></ol>',
+            '3. a\n4. b\n    - c\n    - d'
+        );
+    });
+
+    it('converts table rows into tab separated lines', () => {
+        runTest(
+            '<div>x</div><table><tr><td>a</td><td>b<br>c</td></tr><tr><td></td><td>d</td></tr></table>',
+            'x\na\tb c\n\td'
+        );
+    });
+
+    it('keeps line breaks in PRE', () => {
+        runTest('<pre>a\n  b</pre>', 'a\n  b');
+    });
+});
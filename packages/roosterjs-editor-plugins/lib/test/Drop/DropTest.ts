@@ -0,0 +1,90 @@
+import * as TestHelper from 'roosterjs-editor-api/lib/test/TestHelper';
+import Drop from '../../Drop/Drop';
+import Paste from '../../Paste/Paste';
+import { BeforeDropEvent, PluginEvent, PluginEventType } from 'roosterjs-editor-types';
+import { Editor, EditorPlugin } from 'roosterjs-editor-core';
+import { UPLOADING_IMAGE_ATTRIBUTE } from 'roosterjs-editor-api';
+
+describe('Drop', () => {
+    let testID = 'drop';
+    let editor: Editor;
+    let beforeDropEvents: BeforeDropEvent[];
+    let cancelDrop: boolean;
+    let uploadedFiles: File[];
+
+    beforeEach(() => {
+        let paste = new Paste(false, null, null, (file: File) => {
+            uploadedFiles.push(file);
+            return Promise.resolve('http://www.example.com/image.png');
+        });
+        let listener: EditorPlugin = {
+            initialize: () => {},
+            dispose: () => {},
+            onPluginEvent: (event: PluginEvent) => {
+                if (event.eventType == PluginEventType.BeforeDrop) {
+                    beforeDropEvents.push(event);
+                    event.isCancelled = cancelDrop;
+                }
+            },
+        };
+
+        beforeDropEvents = [];
+        cancelDrop = false;
+        uploadedFiles = [];
+        editor = TestHelper.initEditor(testID, [paste, new Drop(paste), listener]);
+        editor.setContent('<div id="div1">x</div>');
+        TestHelper.setSelection(document.getElementById('div1').firstChild, 1);
+    });
+
+    afterEach(() => {
+        editor.dispose();
+        TestHelper.removeElement(testID);
+    });
+
+    function drop(html: string, text: string): DragEvent {
+        let dataTransfer = new DataTransfer();
+        dataTransfer.setData('text/html', html);
+        dataTransfer.setData('text/plain', text);
+        return dispatchDrop(dataTransfer);
+    }
+
+    function dispatchDrop(dataTransfer: DataTransfer): DragEvent {
+        let init = { dataTransfer, bubbles: true, cancelable: true };
+        let event = new DragEvent('drop', init);
+        document.getElementById('div1').dispatchEvent(event);
+        return event;
+    }
+
+    it('drops sanitized HTML and triggers BeforeDrop event', () => {
+        let event = drop('<b onclick="alert(1)">y</b>', 'y');
+
+        expect(event.defaultPrevented).toBe(true);
+        expect(beforeDropEvents.length).toBe(1);
+        expect(beforeDropEvents[0].rawEvent).toBe(event);
+        expect(beforeDropEvents[0].clipboardData.text).toBe('y');
+        expect(editor.getContent()).toContain('<b>y</b>');
+    });
+
+    it('does not drop when BeforeDrop event is cancelled', () => {
+        cancelDrop = true;
+        drop('<b>y</b>', 'y');
+
+        expect(beforeDropEvents.length).toBe(1);
+        expect(editor.getContent()).toBe('<div id="div1">x</div>');
+    });
+
+    it('drops image files through Paste plugin', () => {
+        let dataTransfer = new DataTransfer();
+        let file = new File([''], 'image.png', { type: 'image/png' });
+        dataTransfer.items.add(file);
+
+        let event = dispatchDrop(dataTransfer);
+        let images = editor.queryElements('img');
+
+        expect(event.defaultPrevented).toBe(true);
+        expect(beforeDropEvents[0].images).toEqual([file]);
+        expect(uploadedFiles).toEqual([file]);
+        expect(images.length).toBe(1);
+        expect(images[0].getAttribute(UPLOADING_IMAGE_ATTRIBUTE)).toBe('true');
+    });
+});
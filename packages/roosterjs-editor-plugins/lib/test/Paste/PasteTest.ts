@@ -0,0 +1,49 @@
+import Paste from '../../Paste/Paste';
+import { fromHtml } from 'roosterjs-editor-dom';
+import {
+    BeforePasteEvent,
+    ClipboardData,
+    PasteOption,
+    PasteSource,
+    PluginEventType,
+} from 'roosterjs-editor-types';
+
+describe('Paste.onPluginEvent()', () => {
+    const WORD_LIST =
+        '<p style="mso-list:l0 level1 lfo1"><span style="mso-list:Ignore">1.<span>&nbsp;&nbsp;</span></span>a</p>' +
+        '<p style="mso-list:l0 level1 lfo1"><span style="mso-list:Ignore">2.<span>&nbsp;&nbsp;</span></span>b</p>';
+
+    function createEvent(html: string, pasteSource?: PasteSource): BeforePasteEvent {
+        let fragment = document.createDocumentFragment();
+        fromHtml(html, document).forEach(node => fragment.appendChild(node));
+        return {
+            eventType: PluginEventType.BeforePaste,
+            clipboardData: <ClipboardData>{ html, rawHtml: html, text: 'a\nb' },
+            fragment,
+            pasteOption: PasteOption.PasteHtml,
+            pasteSource,
+        };
+    }
+
+    function getListItems(fragment: DocumentFragment): string[] {
+        let items = [].slice.call(fragment.querySelectorAll('ol>li')) as HTMLElement[];
+        return items.map(li => li.textContent);
+    }
+
+    it('converts Word lists from source not detected as Word', () => {
+        let event = createEvent(WORD_LIST, PasteSource.Web);
+        new Paste().onPluginEvent(event);
+        expect(getListItems(event.fragment)).toEqual(['a', 'b']);
+    });
+
+    it('detects paste source when it is not specified', () => {
+        let event = createEvent(WORD_LIST);
+        new Paste().onPluginEvent(event);
+        expect(event.pasteSource).toBe(PasteSource.Web);
+        expect(getListItems(event.fragment)).toEqual(['a', 'b']);
+
+        event = createEvent('<b id="docs-internal-guid-1">a</b>');
+        new Paste().onPluginEvent(event);
+        expect(event.pasteSource).toBe(PasteSource.GoogleDocs);
+    });
+});
@@ -0,0 +1,31 @@
+import convertPastedContentFromGoogleDocs from '../../Paste/convertPastedContentFromGoogleDocs';
+
+describe('convertPastedContentFromGoogleDocs()', () => {
+    function runTest(html: string, expected: string) {
+        let div = document.createElement('div');
+        div.innerHTML = html;
+        convertPastedContentFromGoogleDocs(div);
+        expect(div.innerHTML).toBe(expected);
+    }
+
+    it('removes wrapper element', () => {
+        runTest(
+            '<b style="font-weight:normal;" id="docs-internal-guid-1234"><p>a</p><p>b</p></b>',
+            '<p>a</p><p>b</p>'
+        );
+        runTest('<b style="font-weight: normal;"><span>a</span></b>', '<span>a</span>');
+        runTest('<b>a</b>', '<b>a</b>');
+    });
+
+    it('changes styles into tags', () => {
+        runTest(
+            '<span style="font-weight: 700; font-style: italic; vertical-align: baseline;">a</span>',
+            '<i><b>a</b></i>'
+        );
+        runTest(
+            '<span style="color: red; text-decoration: underline; font-weight: 400;">a</span>',
+            '<span style="color: red;"><u>a</u></span>'
+        );
+        runTest('<span style="vertical-align: super;">2</span>', '<sup>2</sup>');
+    });
+});
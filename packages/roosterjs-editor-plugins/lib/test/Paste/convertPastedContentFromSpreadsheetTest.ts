@@ -0,0 +1,104 @@
+import convertPastedContentFromSpreadsheet, {
+    DEFAULT_PASTED_TABLE_FORMAT,
+} from '../../Paste/convertPastedContentFromSpreadsheet';
+import {
+    BeforePasteEvent,
+    ClipboardData,
+    PasteOption,
+    PasteSource,
+    PluginEventType,
+} from 'roosterjs-editor-types';
+import { fromHtml } from 'roosterjs-editor-dom';
+
+describe('convertPastedContentFromSpreadsheet()', () => {
+    function createEvent(
+        html: string,
+        rawHtml: string,
+        text: string,
+        pasteSource: PasteSource
+    ): BeforePasteEvent {
+        let fragment = document.createDocumentFragment();
+        fromHtml(html, document).forEach(node => fragment.appendChild(node));
+        return {
+            eventType: PluginEventType.BeforePaste,
+            clipboardData: <ClipboardData>{ html, rawHtml, text },
+            fragment,
+            pasteOption: PasteOption.PasteHtml,
+            pasteSource,
+        };
+    }
+
+    it('normalizes table from Excel', () => {
+        let html =
+            '<table width="128" style="width:96pt"><tr><td colspan="2" style="text-align:center;width:48pt;color:red">Title</td></tr>' +
+            '<tr><td align="right" style="background-color:yellow">$1,234.00</td><td></td></tr></table>';
+        let event = createEvent(
+            html,
+            '<html xmlns:x="urn:schemas-microsoft-com:office:excel">' + html + '</html>',
+            'Title\n$1,234.00\t',
+            PasteSource.Spreadsheet
+        );
+
+        expect(convertPastedContentFromSpreadsheet(event, DEFAULT_PASTED_TABLE_FORMAT)).toBe(true);
+
+        let table = event.fragment.firstChild as HTMLTableElement;
+        let title = table.rows[0].cells[0];
+        let amount = table.rows[1].cells[0];
+        expect(table.getAttribute('width')).toBeNull();
+        expect(title.colSpan).toBe(2);
+        expect(title.style.textAlign).toBe('center');
+        expect(title.style.color).toBe('red');
+        expect(title.style.width).toBe('');
+        expect(amount.textContent).toBe('$1,234.00');
+        expect(amount.style.textAlign).toBe('right');
+        expect(amount.style.backgroundColor).toBe('yellow');
+        expect(table.rows[1].cells[1].innerHTML).toBe('<br>');
+    });
+
+    it('converts tab separated text into table', () => {
+        let event = createEvent(
+            'a\tb<br>1\t"x\ty"',
+            null,
+            'a\tb\r\n1\t"x\ty"\r\n',
+            PasteSource.PlainText
+        );
+
+        expect(convertPastedContentFromSpreadsheet(event, DEFAULT_PASTED_TABLE_FORMAT)).toBe(true);
+
+        let table = event.fragment.firstChild as HTMLTableElement;
+        expect(event.fragment.childNodes.length).toBe(1);
+        expect(table.rows.length).toBe(2);
+        expect(table.rows[1].cells[0].style.textAlign).toBe('right');
+        expect(table.rows[1].cells[1].textContent).toBe('x\ty');
+    });
+
+    it('does not convert other content', () => {
+        let event = createEvent(
+            '<table><tr><td>a</td></tr></table>',
+            '<table></table>',
+            'a',
+            PasteSource.Web
+        );
+        expect(convertPastedContentFromSpreadsheet(event, DEFAULT_PASTED_TABLE_FORMAT)).toBe(false);
+
+        event = createEvent('a b', null, 'a b\nc', PasteSource.PlainText);
+        expect(convertPastedContentFromSpreadsheet(event, DEFAULT_PASTED_TABLE_FORMAT)).toBe(false);
+    });
+
+    it('does not convert plain text without enough rows or columns', () => {
+        [
+            '\tfoo\n\tbar',
+            'if (a) {\n\treturn;\n}',
+            'a\tb',
+            'a\tb\tc\n',
+            'a\t\n\t',
+            'a\tb\nc',
+        ].forEach(text => {
+            let event = createEvent(text, null, text, PasteSource.PlainText);
+            expect(convertPastedContentFromSpreadsheet(event, DEFAULT_PASTED_TABLE_FORMAT)).toBe(
+                false
+            );
+            expect(event.fragment.querySelector('table')).toBeNull();
+        });
+    });
+});
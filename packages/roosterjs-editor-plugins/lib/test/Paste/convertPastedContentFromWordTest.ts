@@ -0,0 +1,60 @@
+import convertPastedContentFromWord, {
+    keepWordStyleClasses,
+} from '../../Paste/wordConverter/convertPastedContentFromWord';
+
+describe('convertPastedContentFromWord()', () => {
+    function runTest(html: string, expected: string) {
+        let div = document.createElement('div');
+        let fragment = document.createDocumentFragment();
+        div.innerHTML = html;
+        while (div.firstChild) {
+            fragment.appendChild(div.firstChild);
+        }
+
+        convertPastedContentFromWord(fragment);
+        div.appendChild(fragment);
+        expect(div.innerHTML).toBe(expected);
+    }
+
+    it('converts paragraph styles into headings and quotes', () => {
+        runTest(
+            '<p class="MsoHeading1">a</p><p class="MsoTitle">b</p><p class="MsoHeading8">c</p>' +
+                '<p class="MsoQuote">d</p><p class="MsoIntenseQuote">e</p><p class="MsoNormal">f</p>',
+            '<h1>a</h1><h1>b</h1><h6>c</h6><blockquote><p>d</p><p>e</p></blockquote><p>f</p>'
+        );
+    });
+
+    it('normalizes tables', () => {
+        runTest(
+            '<table class="MsoTableGrid" width="600" style="width:450pt"><tbody><tr style="height:20pt">' +
+                '<td width="300" style="width:225pt"><p class="MsoNormal">a</p></td>' +
+                '<td><p class="MsoNormal">b</p></td></tr></tbody></table>',
+            '<table style="border-collapse: collapse;"><tr><td colspan="1" rowspan="1"><div>a</div></td>' +
+                '<td colspan="1" rowspan="1"><div>b</div></td></tr></table>'
+        );
+    });
+
+    it('removes comments, bookmarks and footnote links', () => {
+        runTest(
+            '<p class="MsoNormal" lang="EN-US"><a name="_Toc1"></a>a' +
+                '<span class="MsoCommentReference"><a href="#_msocom_1">[A1]</a></span>' +
+                '<a href="#_ftn1"><span class="MsoFootnoteReference">[1]</span></a><o:p></o:p></p>' +
+                '<div style="mso-element:comment-list"><p>comment</p></div><!--[if gte mso 9]><xml></xml><![endif]-->',
+            '<p>a[1]</p>'
+        );
+    });
+
+    it('removes Word specific styles', () => {
+        runTest(
+            '<p style="mso-margin-top-alt:auto;color:red">a</p><p style="mso-fareast-language:EN-US">b</p>',
+            '<p style="color:red">a</p><p>b</p>'
+        );
+    });
+});
+
+describe('keepWordStyleClasses()', () => {
+    it('only keeps classes of Word styles', () => {
+        expect(keepWordStyleClasses('MsoNormal other')).toBe('MsoNormal');
+        expect(keepWordStyleClasses('other')).toBeNull();
+    });
+});
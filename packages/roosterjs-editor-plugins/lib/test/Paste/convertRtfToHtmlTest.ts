@@ -0,0 +1,84 @@
+import convertRtfToHtml from '../../Paste/convertRtfToHtml';
+
+describe('convertRtfToHtml()', () => {
+    function runTest(rtf: string, expected: string) {
+        expect(convertRtfToHtml(rtf)).toBe(expected);
+    }
+
+    it('converts paragraphs', () => {
+        runTest('', '');
+        runTest(
+            '{\\rtf1\\ansi a\\par b\\line c\\par\\par}',
+            '<div>a</div><div>b<br>c</div><div><br></div>'
+        );
+        runTest(
+            '{\\rtf1 a\\par\\pard\\qc b\\par\\pard c}',
+            '<div>a</div><div style="text-align: center">b</div><div>c</div>'
+        );
+    });
+
+    it('converts special characters', () => {
+        runTest("{\\rtf1 \\'e9\\'93\\{\\}\\\\<&>}", '<div>é“{}\\&lt;&amp;&gt;</div>');
+        runTest('{\\rtf1 \\u20320?\\uc2\\u22909??a}', '<div>你好a</div>');
+        runTest('{\\rtf1 a\\emdash b\\~c}', '<div>a—b\u00a0c</div>');
+    });
+
+    it('converts character formats', () => {
+        runTest(
+            '{\\rtf1 \\b a\\b0 b{\\i\\ul c}\\strike d}',
+            '<div><b>a</b>b<i><u>c</u></i><s>d</s></div>'
+        );
+        runTest('{\\rtf1 x\\super 2\\nosupersub\\sub 3}', '<div>x<sup>2</sup><sub>3</sub></div>');
+    });
+
+    it('converts fonts and colors', () => {
+        runTest(
+            '{\\rtf1\\deff0{\\fonttbl{\\f0\\fswiss Arial;}{\\f1\\froman Times New Roman;}}' +
+                '{\\colortbl;\\red255\\green0\\blue0;}\\f1\\fs28\\cf1\\highlight1 a\\plain b}',
+            '<div><span style="font-family: Times New Roman; font-size: 14pt; color: rgb(255, 0, 0); background-color: rgb(255, 0, 0)">a</span><span style="font-family: Arial">b</span></div>'
+        );
+    });
+
+    it('converts lists', () => {
+        runTest(
+            "{\\rtf1{\\listtext\\pard\\plain\\'b7\\tab}\\ls1\\ilvl0 a\\par" +
+                '{\\listtext\\pard\\plain o\\tab}\\ls1\\ilvl1 b\\par' +
+                '{\\listtext 1.\\tab}\\ls2\\ilvl0 c\\par\\pard d\\par}',
+            '<ul><li>a</li><ul><li>b</li></ul></ul><ol><li>c</li></ol><div>d</div>'
+        );
+    });
+
+    it('converts tables', () => {
+        runTest(
+            '{\\rtf1\\trowd\\cellx1000\\cellx2000\\pard\\intbl a\\cell b\\par c\\cell\\row' +
+                '\\trowd\\cellx1000\\pard\\intbl d\\cell\\row\\pard e\\par}',
+            '<table style="border-collapse: collapse"><tr><td style="border: 1px solid #ababab"><div>a</div></td>' +
+                '<td style="border: 1px solid #ababab"><div>b</div><div>c</div></td></tr>' +
+                '<tr><td style="border: 1px solid #ababab"><div>d</div></td></tr></table><div>e</div>'
+        );
+    });
+
+    it('flattens nested tables into cells of outer table', () => {
+        runTest(
+            '{\\rtf1\\trowd\\cellx1000\\cellx2000\\pard\\intbl a\\cell' +
+                '\\pard\\intbl\\itap2 b\\nestcell c\\nestcell{\\*\\nesttableprops\\trowd\\nestrow}' +
+                '{\\nonesttables\\par}\\pard\\intbl d\\cell\\row}',
+            '<table style="border-collapse: collapse"><tr><td style="border: 1px solid #ababab"><div>a</div></td>' +
+                '<td style="border: 1px solid #ababab"><div>b</div><div>c</div><div>d</div></td></tr></table>'
+        );
+    });
+
+    it('skips binary data and invalid unicode characters', () => {
+        runTest('{\\rtf1 a{\\*\\blipuid x}{\\pict\\bin4 }{\\ b}c}', '<div>ac</div>');
+        runTest('{\\rtf1 a\\bin3 {\\}b}', '<div>ab</div>');
+        runTest('{\\rtf1 a\\u b\\u-3913?c}', '<div>ab\uf0b7c</div>');
+    });
+
+    it('skips content which is not document text', () => {
+        runTest(
+            '{\\rtf1{\\*\\generator x;}{\\info{\\title t}}{\\stylesheet{\\s0 Normal;}}' +
+                '{\\field{\\*\\fldinst HYPERLINK "x"}{\\fldrslt a}}{\\pict\\pngblip 89504e}}',
+            '<div>a</div>'
+        );
+    });
+});
@@ -0,0 +1,51 @@
+import getPasteSource from '../../Paste/getPasteSource';
+import { ClipboardData, PasteSource } from 'roosterjs-editor-types';
+
+describe('getPasteSource()', () => {
+    function runTest(rawHtml: string, html: string, expected: PasteSource) {
+        expect(getPasteSource(<ClipboardData>{ rawHtml, html, text: 'text' })).toBe(expected);
+    }
+
+    it('detects plain text', () => {
+        runTest(null, '<div>text</div>', PasteSource.PlainText);
+        runTest(undefined, null, PasteSource.PlainText);
+    });
+
+    it('detects rtf', () => {
+        let clipboardData = <ClipboardData>{ rawHtml: null, html: null, rtf: '{\\rtf1 a}' };
+        expect(getPasteSource(clipboardData)).toBe(PasteSource.Rtf);
+    });
+
+    it('detects source from original html', () => {
+        runTest(
+            '<html xmlns:w="urn:schemas-microsoft-com:office:word"><body>a</body></html>',
+            'a',
+            PasteSource.Word
+        );
+        runTest(
+            '<html xmlns:x="urn:schemas-microsoft-com:office:excel"><body>a</body></html>',
+            'a',
+            PasteSource.Spreadsheet
+        );
+        runTest(
+            '<google-sheets-html-origin><table><tr><td>a</td></tr></table>',
+            'a',
+            PasteSource.Spreadsheet
+        );
+        runTest(
+            '<html><head><meta name=ProgId content=OneNote.File></head><body>a</body></html>',
+            'a',
+            PasteSource.OneNote
+        );
+        runTest(
+            '<meta charset="utf-8"><b style="font-weight:normal;" id="docs-internal-guid-1234">a</b>',
+            'a',
+            PasteSource.GoogleDocs
+        );
+        runTest('<div>a</div>', 'a', PasteSource.Web);
+    });
+
+    it('uses html when there is no original html', () => {
+        runTest(undefined, '<div>a</div>', PasteSource.Web);
+    });
+});
@@ -0,0 +1,87 @@
+import * as TestHelper from 'roosterjs-editor-api/lib/test/TestHelper';
+import Paste from '../../Paste/Paste';
+import PasteOptions from '../../PasteOptions/PasteOptions';
+import { ClipboardData } from 'roosterjs-editor-types';
+import { Editor } from 'roosterjs-editor-core';
+
+describe('PasteOptions', () => {
+    let testID = 'pasteOptions';
+    let editor: Editor;
+    let paste: Paste;
+    let plugin: PasteOptions;
+
+    beforeEach(() => {
+        paste = new Paste();
+        plugin = new PasteOptions(paste);
+        editor = TestHelper.initEditor(testID, [paste, plugin]);
+        editor.setContent('<div id="div1">x</div>');
+        TestHelper.setSelection(document.getElementById('div1').firstChild, 1);
+    });
+
+    afterEach(() => {
+        editor.dispose();
+        TestHelper.removeElement(testID);
+    });
+
+    function createClipboardData(): ClipboardData {
+        return {
+            snapshotBeforePaste: null,
+            originalFormat: {},
+            types: [],
+            image: null,
+            text: 'a',
+            html: '<b>a</b>',
+        };
+    }
+
+    it('shows available options after paste', () => {
+        expect(plugin.getAvailableChoices()).toEqual([]);
+
+        paste.pasteOriginal(createClipboardData());
+
+        let choices = plugin.getAvailableChoices();
+        expect(choices.map(choice => choice.text)).toEqual([
+            'Keep source formatting',
+            'Merge formatting',
+            'Keep text only',
+        ]);
+        expect(plugin.getCurrentChoice()).toBe(choices[0]);
+        expect(editor.getContent()).toContain('<b>a</b>');
+    });
+
+    it('replaces pasted content with another option in one undo step', () => {
+        paste.pasteOriginal(createClipboardData());
+
+        let textOnly = plugin.getAvailableChoices()[2];
+        expect(plugin.applyChoice(textOnly)).toBe(true);
+        expect(plugin.getCurrentChoice()).toBe(textOnly);
+        expect(editor.getContent()).not.toContain('<b>');
+        expect(editor.getContent()).toContain('a');
+
+        editor.undo();
+        expect(editor.getContent()).toBe('<div id="div1">x</div>');
+    });
+
+    it('keeps other changes made after paste when switching option', () => {
+        paste.pasteOriginal(createClipboardData());
+        editor.addUndoSnapshot(() => {
+            document.getElementById('div1').title = 'changed';
+        });
+
+        expect(plugin.applyChoice(plugin.getAvailableChoices()[2])).toBe(true);
+        expect(editor.getContent()).not.toContain('<b>');
+        expect(editor.getContent()).toContain('a');
+        expect(editor.getContent()).toContain('title="changed"');
+    });
+
+    it('cycles through options', () => {
+        paste.pasteOriginal(createClipboardData());
+        let choices = plugin.getAvailableChoices();
+
+        plugin.cycleChoice();
+        expect(plugin.getCurrentChoice()).toBe(choices[1]);
+        plugin.cycleChoice();
+        plugin.cycleChoice();
+        expect(plugin.getCurrentChoice()).toBe(choices[0]);
+    });
+});
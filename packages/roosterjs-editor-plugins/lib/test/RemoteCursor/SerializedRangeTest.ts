@@ -0,0 +1,41 @@
+import { deserializeRange, serializeRange } from '../../RemoteCursor/SerializedRange';
+
+describe('SerializedRange', () => {
+    let root: HTMLElement;
+
+    beforeEach(() => {
+        root = document.createElement('div');
+        root.innerHTML = '<div>hello</div><div><b>big</b> world</div>';
+    });
+
+    it('serializes range as paths from root', () => {
+        let range = document.createRange();
+        range.setStart(root.firstChild.firstChild, 2);
+        range.setEnd(root.lastChild.lastChild, 3);
+
+        expect(serializeRange(root, range)).toEqual({
+            start: { path: [0, 0], offset: 2 },
+            end: { path: [1, 1], offset: 3 },
+        });
+    });
+
+    it('deserializes range from paths', () => {
+        let range = deserializeRange(root, {
+            start: { path: [1, 0, 0], offset: 1 },
+            end: { path: [1, 0, 0], offset: 10 },
+        });
+
+        expect(range.startContainer.nodeValue).toBe('big');
+        expect(range.startOffset).toBe(1);
+        expect(range.endOffset).toBe(3);
+    });
+
+    it('returns null when path does not exist', () => {
+        let range = deserializeRange(root, {
+            start: { path: [2], offset: 0 },
+            end: { path: [0], offset: 0 },
+        });
+
+        expect(range).toBeNull();
+    });
+});
@@ -0,0 +1,119 @@
+import * as TestHelper from 'roosterjs-editor-api/lib/test/TestHelper';
+import DictionarySpellCheckProvider from '../../SpellCheck/DictionarySpellCheckProvider';
+import SpellCheck from '../../SpellCheck/SpellCheck';
+import { Editor } from 'roosterjs-editor-core';
+import { IdleEvent, PluginEventType } from 'roosterjs-editor-types';
+
+describe('DictionarySpellCheckProvider', () => {
+    it('finds unknown words with suggestions', done => {
+        let provider = new DictionarySpellCheckProvider(['hello', 'world', 'help']);
+        provider.checkText(['Hello wrld', 'Helo']).then(issues => {
+            expect(issues).toEqual([
+                { blockIndex: 0, start: 6, length: 4, suggestions: ['world'] },
+                { blockIndex: 1, start: 0, length: 4, suggestions: ['Hello', 'Help'] },
+            ]);
+            done();
+        });
+    });
+});
+
+describe('SpellCheck', () => {
+    let testID = 'spellCheck';
+    let editor: Editor;
+    let plugin: SpellCheck;
+
+    beforeEach(() => {
+        plugin = new SpellCheck(new DictionarySpellCheckProvider(['hello', 'world']));
+        editor = TestHelper.initEditor(testID, [plugin]);
+    });
+
+    afterEach(() => {
+        editor.dispose();
+        TestHelper.removeElement(testID);
+    });
+
+    it('maps issues across inline elements and keeps content clean', done => {
+        editor.setContent('<div>hello wo<b>rl</b>dd</div><div>world</div>');
+        plugin.check().then(() => {
+            let markers = plugin.getMarkers();
+            expect(markers.length).toBe(1);
+            expect(markers[0].text).toBe('worldd');
+            expect(markers[0].suggestions).toEqual(['world']);
+            expect(editor.getContent()).toBe('<div>hello wo<b>rl</b>dd</div><div>world</div>');
+            done();
+        });
+    });
+
+    it('replaces with suggestion in one undo step', done => {
+        editor.setContent('<div id="div1">hello wrld</div>');
+        plugin.check().then(() => {
+            let marker = plugin.getMarkers()[0];
+            expect(plugin.replaceWithSuggestion(marker, 'world')).toBe(true);
+            expect(document.getElementById('div1').textContent).toBe('hello world');
+            expect(plugin.getMarkers()).toEqual([]);
+            editor.undo();
+            expect(document.getElementById('div1').textContent).toBe('hello wrld');
+            done();
+        });
+    });
+
+    it('ignores words', done => {
+        editor.setContent('<div>wrld hello wrld</div>');
+        plugin.check().then(() => {
+            plugin.ignore(plugin.getMarkers()[0]);
+            expect(plugin.getMarkers()).toEqual([]);
+            done();
+        });
+    });
+
+    it('keeps checking on idle after provider fails', done => {
+        let provider = {
+            checkText: jasmine
+                .createSpy('checkText')
+                .and.returnValues(Promise.reject('error'), Promise.resolve([])),
+        };
+        let failingPlugin = new SpellCheck(provider);
+        let idleEvent: IdleEvent = { eventType: PluginEventType.Idle };
+
+        failingPlugin.initialize(editor);
+        failingPlugin.onPluginEvent(idleEvent);
+        failingPlugin.onPluginEvent(idleEvent);
+        expect(provider.checkText).toHaveBeenCalledTimes(1);
+
+        setTimeout(() => {
+            failingPlugin.onPluginEvent(idleEvent);
+            expect(provider.checkText).toHaveBeenCalledTimes(2);
+            failingPlugin.dispose();
+            done();
+        });
+    });
+
+    it('keeps checking on idle after provider throws', () => {
+        let provider = {
+            checkText: jasmine.createSpy('checkText').and.throwError('error'),
+        };
+        let failingPlugin = new SpellCheck(provider);
+        let idleEvent: IdleEvent = { eventType: PluginEventType.Idle };
+
+        failingPlugin.initialize(editor);
+        failingPlugin.onPluginEvent(idleEvent);
+        failingPlugin.onPluginEvent(idleEvent);
+        expect(provider.checkText).toHaveBeenCalledTimes(2);
+        failingPlugin.dispose();
+    });
+
+    it('restores original spellcheck attribute when dispose', done => {
+        let root = document.getElementById(testID);
+        let spellCheck = new SpellCheck(new DictionarySpellCheckProvider(['hello']));
+        root.setAttribute('spellcheck', 'true');
+        editor.setContent('<div>hello</div>');
+        spellCheck.initialize(editor);
+
+        spellCheck.check().then(() => {
+            expect(root.getAttribute('spellcheck')).toBe('false');
+            spellCheck.dispose();
+            expect(root.getAttribute('spellcheck')).toBe('true');
+            done();
+        });
+    });
+});
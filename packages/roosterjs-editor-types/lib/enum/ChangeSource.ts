@@ -52,6 +52,11 @@ const enum ChangeSource {
      * Content changed by drag & drop operation
      */
     Drop = 'Drop',
+
+    /**
+     * Content changed by find and replace
+     */
+    Replace = 'Replace',
 }
 
 export default ChangeSource;
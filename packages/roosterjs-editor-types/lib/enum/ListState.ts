@@ -1,5 +1,4 @@
 /**
- * @deprecated
  * enum for html list state
  */
 const enum ListState {
@@ -0,0 +1,42 @@
+/**
+ * Source of pasted content, detected from the HTML in clipboard
+ */
+const enum PasteSource {
+    /**
+     * Clipboard only contains plain text
+     */
+    PlainText = 0,
+
+    /**
+     * HTML content from a web page, or any other HTML content from an unknown source
+     */
+    Web = 1,
+
+    /**
+     * Content copied from Microsoft Word
+     */
+    Word = 2,
+
+    /**
+     * Content copied from Microsoft Excel or Google Sheets
+     */
+    Spreadsheet = 3,
+
+    /**
+     * Content copied from Google Docs
+     */
+    GoogleDocs = 4,
+
+    /**
+     * Content copied from Microsoft OneNote
+     */
+    OneNote = 5,
+
+    /**
+     * Clipboard only contains RTF and plain text, e.g. content copied from a desktop application
+     * which doesn't write HTML into clipboard. The pasted HTML is converted from the RTF
+     */
+    Rtf = 6,
+}
+
+export default PasteSource;
@@ -0,0 +1,22 @@
+/**
+ * Predefined sanitize policies, use createSanitizePolicy() to get the policy of a preset
+ */
+const enum SanitizePolicyPreset {
+    /**
+     * The rules sanitizeHtml() uses when no policy is specified. Most HTML content is kept,
+     * only scripts, event handlers and unknown tags are removed
+     */
+    Default = 0,
+
+    /**
+     * Only keeps the tags, attributes and CSS which are widely supported by email clients
+     */
+    EmailSafe = 1,
+
+    /**
+     * Only keeps basic text formats, links, lists, tables and images
+     */
+    Strict = 2,
+}
+
+export default SanitizePolicyPreset;
@@ -25,12 +25,12 @@ const enum TableOperation {
     DeleteTable,
 
     /**
-     * Delete current column
+     * Delete current column, or all selected columns if there is a cell selection
      */
     DeleteColumn,
 
     /**
-     * Delete current row
+     * Delete current row, or all selected rows if there is a cell selection
      */
     DeleteRow,
 
@@ -63,6 +63,28 @@ const enum TableOperation {
      * Split current table cell vertically
      */
     SplitVertically,
+
+    /**
+     * Merge all selected table cells into one cell
+     */
+    MergeCells,
+
+    /**
+     * Clear content of selected table cells, or current table cell if there is no cell selection
+     */
+    ClearCells,
+
+    /**
+     * Sort table rows by current column in ascending order. Header rows are not sorted.
+     * Table is not changed if any of the other rows is merged with the row below
+     */
+    SortAscending,
+
+    /**
+     * Sort table rows by current column in descending order. Header rows are not sorted.
+     * Table is not changed if any of the other rows is merged with the row below
+     */
+    SortDescending,
 }
 
 export default TableOperation;
@@ -0,0 +1,16 @@
+/**
+ * How sanitizer handles an element whose tag is not allowed by the sanitize policy
+ */
+const enum UnknownTagBehavior {
+    /**
+     * Remove the element together with its content
+     */
+    Drop = 0,
+
+    /**
+     * Remove the element but keep its content
+     */
+    Unwrap = 1,
+}
+
+export default UnknownTagBehavior;
@@ -0,0 +1,38 @@
+import BasePluginEvent from './BasePluginEvent';
+import ClipboardData from '../interface/ClipboardData';
+import PluginEventType from './PluginEventType';
+
+/**
+ * Provides a chance for plugin to change or cancel the content dropped into editor.
+ * Dropped content is pasted at the drop position in the same way as pasting from clipboard,
+ * so a BeforePaste event will be triggered later for each piece of pasted content
+ */
+interface BeforeDropEvent extends BasePluginEvent<PluginEventType.BeforeDrop> {
+    /**
+     * The original drop event
+     */
+    rawEvent: DragEvent;
+
+    /**
+     * An object contains the dropped HTML and text
+     */
+    clipboardData: ClipboardData;
+
+    /**
+     * Dropped image files. Each of them will be pasted as an image, and HTML and text in
+     * clipboardData will be ignored if there is any image file
+     */
+    images: File[];
+
+    /**
+     * The range where the content will be dropped to. Plugin can change it to drop into another position
+     */
+    range: Range;
+
+    /**
+     * Set to true to cancel the drop, then nothing will be dropped into editor
+     */
+    isCancelled: boolean;
+}
+
+export default BeforeDropEvent;
@@ -1,6 +1,7 @@
 import BasePluginEvent from './BasePluginEvent';
 import ClipboardData from '../interface/ClipboardData';
 import PasteOption from '../enum/PasteOption';
+import PasteSource from '../enum/PasteSource';
 import PluginEventType from './PluginEventType';
 
 /**
@@ -21,6 +22,13 @@ interface BeforePasteEvent extends BasePluginEvent<PluginEventType.BeforePaste>
      * Paste option: html, text or image
      */
     pasteOption: PasteOption;
+
+    /**
+     * (Optional) Where the pasted content is copied from, e.g. Word, Google Docs or a web page.
+     * Content from different sources is cleaned up in different ways. When not specified, the source
+     * is detected from clipboardData
+     */
+    pasteSource?: PasteSource;
 }
 
 export default BeforePasteEvent;
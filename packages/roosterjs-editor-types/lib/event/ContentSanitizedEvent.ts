@@ -0,0 +1,31 @@
+import BasePluginEvent from './BasePluginEvent';
+import PluginEventType from './PluginEventType';
+import SanitizeRemovedItem from '../interface/SanitizeRemovedItem';
+
+/**
+ * Reports what is removed from the HTML passed into editor when it is sanitized with the
+ * sanitize policy of editor. This event is only triggered when something is removed
+ */
+interface ContentSanitizedEvent extends BasePluginEvent<PluginEventType.ContentSanitized> {
+    /**
+     * Where the HTML is from: 'initialContent', 'setContent' or 'insertContent'
+     */
+    source: string;
+
+    /**
+     * The HTML before sanitizing
+     */
+    originalContent: string;
+
+    /**
+     * The sanitized HTML which is put into editor
+     */
+    content: string;
+
+    /**
+     * Elements, attributes and CSS properties removed by sanitizer
+     */
+    removedItems: SanitizeRemovedItem[];
+}
+
+export default ContentSanitizedEvent;
@@ -0,0 +1,9 @@
+import BasePluginEvent from './BasePluginEvent';
+import PluginEventType from './PluginEventType';
+
+/**
+ * Idle event, plugins can do expensive work here without blocking user input
+ */
+interface IdleEvent extends BasePluginEvent<PluginEventType.Idle> {}
+
+export default IdleEvent;
@@ -1,8 +1,11 @@
 import BeforeDisposeEvent from './BeforeDisposeEvent';
+import BeforeDropEvent from './BeforeDropEvent';
 import BeforePasteEvent from './BeforePasteEvent';
 import ContentChangedEvent from './ContentChangedEvent';
+import ContentSanitizedEvent from './ContentSanitizedEvent';
 import EditorReadyEvent from './EditorReadyEvent';
 import ExtractContentEvent from './ExtractContentEvent';
+import IdleEvent from './IdleEvent';
 import PluginDomEvent from './PluginDomEvent';
 
 /**
@@ -15,6 +18,9 @@ type PluginEvent =
     | ExtractContentEvent
     | PluginDomEvent
     | EditorReadyEvent
-    | BeforeDisposeEvent;
+    | BeforeDisposeEvent
+    | IdleEvent
+    | BeforeDropEvent
+    | ContentSanitizedEvent;
 
 export default PluginEvent;
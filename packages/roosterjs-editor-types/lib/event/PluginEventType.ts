@@ -50,7 +50,8 @@ const enum PluginEventType {
     BeforePaste,
 
     /**
-     * @deprecated
+     * Idle event, triggered when user has stopped typing or clicking in editor for a while.
+     * The time span can be customized by EditorOptions.idleEventTimeSpan
      */
     Idle,
 
@@ -63,6 +64,17 @@ const enum PluginEventType {
      * Let plugin know editor is about to dispose
      */
     BeforeDispose,
+
+    /**
+     * Before Drop event, provide a chance to change or cancel the dropped content
+     */
+    BeforeDrop,
+
+    /**
+     * Content sanitized event, reports what is removed from the HTML passed into editor.
+     * It is only triggered when EditorOptions.sanitizePolicy is specified
+     */
+    ContentSanitized,
 }
 
 export default PluginEventType;
@@ -11,18 +11,25 @@ export { default as ContentPosition } from './enum/ContentPosition';
 export { default as Direction } from './enum/Direction';
 export { default as FontSizeChange } from './enum/FontSizeChange';
 export { default as Indentation } from './enum/Indentation';
+export { default as ListState } from './enum/ListState';
 export { default as PasteOption } from './enum/PasteOption';
+export { default as PasteSource } from './enum/PasteSource';
 export { default as PositionType } from './enum/PositionType';
 export { default as QueryScope } from './enum/QueryScope';
+export { default as SanitizePolicyPreset } from './enum/SanitizePolicyPreset';
 export { default as TableOperation } from './enum/TableOperation';
+export { default as UnknownTagBehavior } from './enum/UnknownTagBehavior';
 
 // Event
 export { default as BasePluginEvent } from './event/BasePluginEvent';
 export { default as BeforeDisposeEvent } from './event/BeforeDisposeEvent';
+export { default as BeforeDropEvent } from './event/BeforeDropEvent';
 export { default as BeforePasteEvent } from './event/BeforePasteEvent';
 export { default as ContentChangedEvent } from './event/ContentChangedEvent';
+export { default as ContentSanitizedEvent } from './event/ContentSanitizedEvent';
 export { default as EditorReadyEvent } from './event/EditorReadyEvent';
 export { default as ExtractContentEvent } from './event/ExtractContentEvent';
+export { default as IdleEvent } from './event/IdleEvent';
 export {
     default as PluginDomEvent,
     PluginCompositionEvent,
@@ -39,16 +46,39 @@ export { default as PluginEventType } from './event/PluginEventType';
 
 // Interface
 export { default as ClipboardData } from './interface/ClipboardData';
+export {
+    default as ContentModelDocument,
+    ContentModelBlock,
+    ContentModelBlockFormat,
+    ContentModelBr,
+    ContentModelCode,
+    ContentModelGroup,
+    ContentModelImage,
+    ContentModelInline,
+    ContentModelLink,
+    ContentModelList,
+    ContentModelListItem,
+    ContentModelParagraph,
+    ContentModelQuote,
+    ContentModelTable,
+    ContentModelTableCell,
+    ContentModelTableRow,
+    ContentModelText,
+    ContentModelTextFormat,
+} from './interface/ContentModel';
 export { default as DefaultFormat } from './interface/DefaultFormat';
+export { default as FindOptions } from './interface/FindOptions';
 export { default as FormatState } from './interface/FormatState';
 export { default as InsertOption } from './interface/InsertOption';
 export { default as LinkData } from './interface/LinkData';
 export { default as Rect } from './interface/Rect';
+export { default as SanitizePolicy } from './interface/SanitizePolicy';
+export { default as SanitizeRemovedItem } from './interface/SanitizeRemovedItem';
 export { default as TableFormat } from './interface/TableFormat';
+export { default as TableSelection } from './interface/TableSelection';
 
 // Legacy
 export { default as BlockElement } from './legacy/BlockElement';
 export { default as ContentScope } from './legacy/ContentScope';
 export { default as EditorPoint, NodeBoundary } from './legacy/EditorPoint';
 export { default as InlineElement } from './legacy/InlineElement';
-export { default as ListState } from './legacy/ListState';
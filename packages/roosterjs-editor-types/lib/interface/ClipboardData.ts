@@ -33,6 +33,18 @@ interface ClipboardData {
      * If the copied data contains HTML format, this will be the html string. Otherwise it is null.
      */
     html: string;
+
+    /**
+     * If the copied data contains RTF format, this will be the RTF string. Otherwise it is null.
+     * When there is no HTML format, the RTF is converted into HTML for pasting
+     */
+    rtf?: string;
+
+    /**
+     * The original HTML string from clipboard before it is sanitized, or null if the copied data
+     * doesn't contain HTML format. This can be used to detect where the content is copied from
+     */
+    rawHtml?: string;
 }
 
 export default ClipboardData;
@@ -0,0 +1,211 @@
+import FormatState from './FormatState';
+
+/**
+ * Format of a text run. Fields have the same meaning with those in FormatState
+ */
+export type ContentModelTextFormat = Pick<
+    FormatState,
+    | 'fontName'
+    | 'fontSize'
+    | 'isBold'
+    | 'isItalic'
+    | 'isUnderline'
+    | 'isStrikeThrough'
+    | 'isSubscript'
+    | 'isSuperscript'
+    | 'textColor'
+    | 'backgroundColor'
+>;
+
+/**
+ * Layout format of a block, table, table row or table cell.
+ * Values are CSS values, e.g. '10px', 'center'
+ */
+export interface ContentModelBlockFormat {
+    /** Text direction, 'ltr' or 'rtl' */
+    direction?: string;
+    textAlign?: string;
+    verticalAlign?: string;
+    backgroundColor?: string;
+    width?: string;
+    marginTop?: string;
+    marginRight?: string;
+    marginBottom?: string;
+    marginLeft?: string;
+    paddingTop?: string;
+    paddingRight?: string;
+    paddingBottom?: string;
+    paddingLeft?: string;
+    borderTop?: string;
+    borderRight?: string;
+    borderBottom?: string;
+    borderLeft?: string;
+    borderCollapse?: string;
+}
+
+/**
+ * A run of text with the same format
+ */
+export interface ContentModelText {
+    type: 'text';
+    text: string;
+    format: ContentModelTextFormat;
+}
+
+/**
+ * A line break
+ */
+export interface ContentModelBr {
+    type: 'br';
+}
+
+/**
+ * An image
+ */
+export interface ContentModelImage {
+    type: 'image';
+    src: string;
+    alt?: string;
+    width?: string;
+    height?: string;
+    maxWidth?: string;
+}
+
+/**
+ * A hyperlink, containing other inline content
+ */
+export interface ContentModelLink {
+    type: 'link';
+    href: string;
+    title?: string;
+    target?: string;
+    inlines: ContentModelInline[];
+}
+
+/**
+ * Inline content of a paragraph
+ */
+export type ContentModelInline =
+    | ContentModelText
+    | ContentModelBr
+    | ContentModelImage
+    | ContentModelLink;
+
+/**
+ * A block of inline content, e.g. a DIV, P or H1 element.
+ * When tagName is not specified, the inline content is not wrapped by any element, e.g. text directly
+ * under a list item or a table cell
+ */
+export interface ContentModelParagraph {
+    type: 'paragraph';
+    tagName?: string;
+    format: ContentModelBlockFormat;
+    inlines: ContentModelInline[];
+}
+
+/**
+ * An element containing other blocks, e.g. a DIV which has block children
+ */
+export interface ContentModelGroup {
+    type: 'group';
+    tagName: string;
+    format: ContentModelBlockFormat;
+    blocks: ContentModelBlock[];
+}
+
+/**
+ * A block quote
+ */
+export interface ContentModelQuote {
+    type: 'quote';
+    format: ContentModelBlockFormat;
+    blocks: ContentModelBlock[];
+}
+
+/**
+ * A code block
+ */
+export interface ContentModelCode {
+    type: 'code';
+    format: ContentModelBlockFormat;
+    blocks: ContentModelBlock[];
+}
+
+/**
+ * An item of a list
+ */
+export interface ContentModelListItem {
+    format: ContentModelBlockFormat;
+    blocks: ContentModelBlock[];
+
+    /** Whether this item is checked, only for items of a checklist */
+    isChecked?: boolean;
+}
+
+/**
+ * A bullet or numbering list
+ */
+export interface ContentModelList {
+    type: 'list';
+    isNumbering: boolean;
+    format: ContentModelBlockFormat;
+    items: ContentModelListItem[];
+
+    /** Start number of a numbering list */
+    start?: number;
+
+    /** CSS list-style-type of the list, e.g. 'lower-alpha' */
+    listStyleType?: string;
+
+    /** Whether this is a checklist created by toggleChecklist() */
+    isChecklist?: boolean;
+}
+
+/**
+ * A virtual cell of a table. A cell spanned from left or above has no content
+ */
+export interface ContentModelTableCell {
+    spanLeft: boolean;
+    spanAbove: boolean;
+    isHeader: boolean;
+    format: ContentModelBlockFormat;
+    blocks: ContentModelBlock[];
+}
+
+/**
+ * A row of a table
+ */
+export interface ContentModelTableRow {
+    format: ContentModelBlockFormat;
+    cells: ContentModelTableCell[];
+}
+
+/**
+ * A table, with the same virtual cell structure as VTable
+ */
+export interface ContentModelTable {
+    type: 'table';
+    format: ContentModelBlockFormat;
+    rows: ContentModelTableRow[];
+}
+
+/**
+ * A block of content
+ */
+export type ContentModelBlock =
+    | ContentModelParagraph
+    | ContentModelGroup
+    | ContentModelQuote
+    | ContentModelCode
+    | ContentModelList
+    | ContentModelTable;
+
+/**
+ * A document model of editor content, which is independent of browser specific HTML and can be
+ * serialized as JSON
+ */
+interface ContentModelDocument {
+    blocks: ContentModelBlock[];
+}
+
+export default ContentModelDocument;
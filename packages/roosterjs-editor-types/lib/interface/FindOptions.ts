@@ -0,0 +1,21 @@
+/**
+ * Options of find and replace
+ */
+interface FindOptions {
+    /**
+     * Whether the search is case sensitive
+     */
+    matchCase?: boolean;
+
+    /**
+     * Whether to only match whole words
+     */
+    wholeWord?: boolean;
+
+    /**
+     * Whether the search text is a regular expression
+     */
+    useRegex?: boolean;
+}
+
+export default FindOptions;
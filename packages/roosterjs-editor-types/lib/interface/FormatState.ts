@@ -47,6 +47,26 @@ interface FormatState {
      */
     isNumbering?: boolean;
 
+    /**
+     * CSS list style type of the list, e.g. 'disc', 'decimal', 'lower-roman'
+     */
+    listStyleType?: string;
+
+    /**
+     * Number of the first item of the numbering list
+     */
+    listStartNumber?: number;
+
+    /**
+     * Whether the text is in a checklist
+     */
+    isChecklist?: boolean;
+
+    /**
+     * Whether the checklist item of the text is checked
+     */
+    isChecked?: boolean;
+
     /**
      * Whether the text has strike through line
      */
@@ -0,0 +1,58 @@
+import UnknownTagBehavior from '../enum/UnknownTagBehavior';
+
+/**
+ * Rules of sanitizing HTML. Use createSanitizePolicy() to get a predefined policy, then change it
+ * if needed. The same policy can be shared by all code which sanitizes HTML, e.g. Paste plugin
+ * and Editor
+ */
+interface SanitizePolicy {
+    /**
+     * Allowed tag names, in upper case. Elements with other tags are handled according to
+     * unknownTagBehavior. Tags with namespace such as O:P from Office documents are always kept
+     */
+    allowedTags: string[];
+
+    /**
+     * Allowed attribute names in lower case, keyed by tag name in upper case.
+     * Attributes under key '*' are allowed for all tags
+     */
+    allowedAttributes: { [tag: string]: string[] };
+
+    /**
+     * Allowed CSS property names in lower case. Set to null to allow all CSS properties,
+     * except those always removed by sanitizer such as 'position'
+     */
+    allowedCssProperties: string[];
+
+    /**
+     * Patterns which values of CSS properties must match, keyed by CSS property name in lower case.
+     * CSS properties without a pattern can have any value
+     */
+    cssValuePatterns: { [name: string]: RegExp };
+
+    /**
+     * Allowed URL schemes of URL attributes such as href, src and srcset in lower case, e.g. 'http'.
+     * URLs without scheme (relative URLs) are always allowed, and 'data' URLs are only allowed
+     * for images. Set to null to allow all schemes except 'javascript' and 'vbscript', which are
+     * never allowed
+     */
+    allowedUrlSchemes: string[];
+
+    /**
+     * Whether keep the class attributes
+     */
+    keepClass: boolean;
+
+    /**
+     * Whether keep the id attributes
+     */
+    keepId: boolean;
+
+    /**
+     * How to handle elements with tags which are not allowed. SCRIPT, STYLE and other elements
+     * with no visible content are always dropped
+     */
+    unknownTagBehavior: UnknownTagBehavior;
+}
+
+export default SanitizePolicy;
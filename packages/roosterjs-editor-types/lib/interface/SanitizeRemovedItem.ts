@@ -0,0 +1,26 @@
+/**
+ * Something removed by sanitizer because it is not allowed by the sanitize policy or it is dangerous
+ */
+interface SanitizeRemovedItem {
+    /**
+     * Tag of the removed element, or the element whose attribute or CSS property is removed, in upper case
+     */
+    tag: string;
+
+    /**
+     * Name of the removed attribute, or null if it is not an attribute which is removed
+     */
+    attribute: string;
+
+    /**
+     * Name of the removed CSS property, or null if it is not a CSS property which is removed
+     */
+    cssProperty: string;
+
+    /**
+     * Value of the removed attribute or CSS property, or null if an element is removed
+     */
+    value: string;
+}
+
+export default SanitizeRemovedItem;
@@ -26,6 +26,47 @@ interface TableFormat {
      * Vertical border color for each row
      */
     verticalBorderColor: string;
+
+    /**
+     * Whether the first row is a header row. Cells of header row will be TH elements
+     */
+    hasHeaderRow?: boolean;
+
+    /**
+     * Background color of header row. Only used when hasHeaderRow is true
+     */
+    headerRowColor?: string;
+
+    /**
+     * Whether to emphasize the first column with bold text
+     */
+    hasFirstColumn?: boolean;
+
+    /**
+     * Whether to use banded columns. When true, bgColorOdd and bgColorEven will be applied to
+     * odd and even columns instead of rows
+     */
+    hasBandedColumns?: boolean;
+
+    /**
+     * Width of borders, e.g. "1px". Default value is "1px"
+     */
+    borderWidth?: string;
+
+    /**
+     * Style of borders, e.g. "solid", "dashed". Default value is "solid"
+     */
+    borderStyle?: string;
+
+    /**
+     * Padding of each cell, e.g. "4px"
+     */
+    cellPadding?: string;
+
+    /**
+     * Vertical alignment of content of each cell, e.g. "top", "middle", "bottom"
+     */
+    verticalAlign?: string;
 }
 
 export default TableFormat;
@@ -0,0 +1,27 @@
+/**
+ * A rectangle selection of table cells, represented by virtual row and column indexes
+ * (indexes after expanding all merged cells, as in VTable)
+ */
+interface TableSelection {
+    /**
+     * Row index of the cell where the selection starts
+     */
+    anchorRow: number;
+
+    /**
+     * Column index of the cell where the selection starts
+     */
+    anchorCol: number;
+
+    /**
+     * Row index of the cell where the selection ends
+     */
+    focusRow: number;
+
+    /**
+     * Column index of the cell where the selection ends
+     */
+    focusCol: number;
+}
+
+export default TableSelection;
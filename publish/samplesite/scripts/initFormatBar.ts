@@ -24,6 +24,7 @@ import {
     toggleHeader,
     editTable,
     formatTable,
+    TABLE_FORMAT_PRESETS,
 } from 'roosterjs-editor-api';
 import {
     Alignment,
@@ -31,35 +32,9 @@ import {
     Indentation,
     QueryScope,
     TableOperation,
-    TableFormat,
 } from 'roosterjs-editor-types';
 import getCurrentEditor from './currentEditor';
 
-let TABLE_FORMAT = [
-    createTableFormat('#FFF', '#FFF', '#ABABAB', '#ABABAB', '#ABABAB'),
-    createTableFormat('#FFF', '#FFF', null, '#92C0E0'),
-    createTableFormat('#C0E4FF', '#FFF'),
-    createTableFormat('#D8D8D8', '#FFF'),
-    createTableFormat('#D8D8D8', '#FFF', '#ABABAB', '#ABABAB', '#ABABAB'),
-    createTableFormat('#FFF', '#FFF'),
-];
-
-function createTableFormat(
-    bgColorEven?: string,
-    bgColorOdd?: string,
-    topBorder?: string,
-    bottomBorder?: string,
-    verticalBorder?: string
-): TableFormat {
-    return {
-        bgColorEven: bgColorEven,
-        bgColorOdd: bgColorOdd,
-        topBorderColor: topBorder,
-        bottomBorderColor: bottomBorder,
-        verticalBorderColor: verticalBorder,
-    };
-}
-
 export default function initFormatBar() {
     // Bold
     document.getElementById('boldButton').addEventListener('click', function() {
@@ -115,7 +90,10 @@ export default function initFormatBar() {
     document.getElementById('insertLink').addEventListener('click', function() {
         let editor = getCurrentEditor();
         let range = editor.getSelectionRange();
-        let existingLink = editor.queryElements('a[href]', QueryScope.OnSelection)[0] as HTMLAnchorElement;
+        let existingLink = editor.queryElements(
+            'a[href]',
+            QueryScope.OnSelection
+        )[0] as HTMLAnchorElement;
         let url = window.prompt('Url', existingLink ? existingLink.href : 'http://');
         let text = window.prompt(
             'Text of link',
@@ -142,10 +120,10 @@ export default function initFormatBar() {
 
     document.getElementById('formatTable').addEventListener('change', function() {
         let select = document.getElementById('formatTable') as HTMLSelectElement;
-        let intValue = parseInt(select.value);
-        if (intValue >= 0) {
-            formatTable(getCurrentEditor(), TABLE_FORMAT[intValue]);
-            select.value = '-1';
+        let format = TABLE_FORMAT_PRESETS[select.value];
+        if (format) {
+            formatTable(getCurrentEditor(), format);
+            select.value = '';
         }
     });
 